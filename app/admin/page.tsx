@@ -0,0 +1,484 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+
+interface Payout {
+  id: number
+  playSignature: string
+  playerWallet: string
+  amount: number
+  asset: string
+  status: 'pending' | 'sent' | 'confirmed' | 'failed'
+  signature: string | null
+  attempts: number
+  nextAttemptAt: string
+  lastError: string | null
+  createdAt: string
+}
+
+interface Bet {
+  signature: string
+  playerWallet: string
+  amount: number
+  asset: string
+  result: 'win' | 'loss' | null
+  payoutAmount: number | null
+  payoutSignature: string | null
+  status: string
+  error: string | null
+  createdAt: string
+}
+
+interface BankHealth {
+  bankWallet: string
+  payoutEnabled: boolean
+  signer: { kind: string; keys: string[]; payoutKey: string } | null
+  balance: number
+  liabilities: { pending: number; sent: number; failed: number; total: number }
+  available: number
+}
+
+interface TreasuryEvent {
+  id: number
+  kind: 'sweep' | 'top_up'
+  status: 'sent' | 'confirmed' | 'failed' | 'open' | 'resolved'
+  amount: number
+  hotBalance: number
+  signature: string | null
+  error: string | null
+  createdAt: string
+}
+
+interface Treasury {
+  enabled: boolean
+  coldAddress: string | null
+  freeBalance: number
+  floor: number | null
+  ceiling: number | null
+  target: number
+  exposedReserve: number
+  events: TreasuryEvent[]
+}
+
+interface BettingSettings {
+  paused: boolean
+  reason: string | null
+  updatedAt: string | null
+}
+
+const fontFamily = '-apple-system, BlinkMacSystemFont, "Segoe UI", "Helvetica Neue", Arial, sans-serif'
+
+const shorten = (value: string | null) => value ? `${value.slice(0, 6)}...${value.slice(-6)}` : '-'
+
+async function adminFetch(url: string, init?: RequestInit) {
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...init?.headers,
+    },
+  })
+  const data = await response.json()
+  if (!response.ok) {
+    throw Object.assign(new Error(data.error || 'Request failed'), { status: response.status })
+  }
+  return data
+}
+
+export default function AdminPage() {
+  const [authenticated, setAuthenticated] = useState<boolean | null>(null)
+  const [secret, setSecret] = useState('')
+  const [error, setError] = useState('')
+
+  const [bank, setBank] = useState<BankHealth | null>(null)
+  const [treasury, setTreasury] = useState<Treasury | null>(null)
+  const [betting, setBetting] = useState<BettingSettings | null>(null)
+  const [pauseReason, setPauseReason] = useState('')
+  const [payouts, setPayouts] = useState<Payout[]>([])
+  const [bets, setBets] = useState<Bet[]>([])
+  const [search, setSearch] = useState('')
+
+  const handleError = useCallback((err: any) => {
+    if (err.status === 401) {
+      setAuthenticated(false)
+      return
+    }
+    setError(err.message)
+  }, [])
+
+  const loadDashboard = useCallback(async () => {
+    setError('')
+    try {
+      const [bankData, treasuryData, settingsData, payoutData] = await Promise.all([
+        adminFetch('/api/admin/bank'),
+        adminFetch('/api/admin/treasury'),
+        adminFetch('/api/admin/settings'),
+        adminFetch('/api/admin/payouts?status=pending,sent,failed'),
+      ])
+      setBank(bankData)
+      setTreasury(treasuryData)
+      setBetting(settingsData.betting)
+      setPayouts(payoutData.payouts)
+    } catch (err) {
+      handleError(err)
+    }
+  }, [handleError])
+
+  const searchBets = useCallback(async (query: string) => {
+    setError('')
+    try {
+      // Wallets are 32-44 characters, signatures are longer
+      const param = !query ? '' : query.length <= 44 ? `wallet=${query}` : `signature=${query}`
+      const data = await adminFetch(`/api/admin/bets?${param}`)
+      setBets(data.bets)
+    } catch (err) {
+      handleError(err)
+    }
+  }, [handleError])
+
+  useEffect(() => {
+    adminFetch('/api/admin/session')
+      .then(data => setAuthenticated(data.authenticated))
+      .catch(() => setAuthenticated(false))
+  }, [])
+
+  useEffect(() => {
+    if (!authenticated) return
+    loadDashboard()
+    searchBets('')
+  }, [authenticated, loadDashboard, searchBets])
+
+  const login = async () => {
+    setError('')
+    try {
+      await adminFetch('/api/admin/session', {
+        method: 'POST',
+        body: JSON.stringify({ secret }),
+      })
+      setSecret('')
+      setAuthenticated(true)
+    } catch (err: any) {
+      setError(err.message)
+    }
+  }
+
+  const logout = async () => {
+    await adminFetch('/api/admin/session', { method: 'DELETE' }).catch(() => {})
+    setAuthenticated(false)
+  }
+
+  const togglePause = async () => {
+    if (!betting) return
+    try {
+      const data = await adminFetch('/api/admin/settings', {
+        method: 'POST',
+        body: JSON.stringify({ paused: !betting.paused, reason: pauseReason || null }),
+      })
+      setBetting(data.betting)
+      setPauseReason('')
+    } catch (err) {
+      handleError(err)
+    }
+  }
+
+  const payoutAction = async (payout: Payout, action: 'retry' | 'mark_paid') => {
+    let signature: string | null = null
+    if (action === 'mark_paid') {
+      signature = window.prompt(`Signature of the manual ${payout.amount} ${payout.asset} payout to ${payout.playerWallet}`)
+      if (!signature) return
+    }
+
+    try {
+      await adminFetch(`/api/admin/payouts/${payout.id}`, {
+        method: 'POST',
+        body: JSON.stringify({ action, signature }),
+      })
+      await loadDashboard()
+    } catch (err) {
+      handleError(err)
+    }
+  }
+
+  if (authenticated === null) {
+    return <div className="min-h-screen flex items-center justify-center text-gray-400" style={{ fontFamily }}>Loading...</div>
+  }
+
+  if (!authenticated) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4" style={{ backgroundColor: '#fafafa', fontFamily }}>
+        <div className="bg-white rounded-3xl shadow-lg p-6 w-full max-w-sm">
+          <h1 className="text-lg font-semibold text-gray-900 mb-4">Operator Console</h1>
+          <input
+            type="password"
+            value={secret}
+            onChange={(e) => setSecret(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && login()}
+            placeholder="Admin secret"
+            className="w-full border border-gray-300 rounded-full px-4 py-2 text-sm mb-3 focus:outline-none focus:ring-2 focus:ring-gray-400"
+          />
+          <button
+            onClick={login}
+            className="w-full border border-gray-300 rounded-full px-4 py-2 text-sm font-semibold hover:bg-gray-50"
+          >
+            Sign in
+          </button>
+          {error && <p className="text-xs text-red-500 mt-3">{error}</p>}
+        </div>
+      </div>
+    )
+  }
+
+  const outstanding = payouts.filter(p => p.status !== 'failed')
+  const failed = payouts.filter(p => p.status === 'failed')
+
+  return (
+    <div className="min-h-screen px-4 sm:px-8 py-6 text-sm text-gray-700" style={{ backgroundColor: '#fafafa', fontFamily }}>
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-xl sm:text-2xl font-semibold text-gray-900">Operator Console</h1>
+          <div className="flex gap-3">
+            <button onClick={loadDashboard} className="text-gray-500 hover:text-gray-800">Refresh</button>
+            <button onClick={logout} className="text-gray-500 hover:text-gray-800">Log out</button>
+          </div>
+        </div>
+
+        {error && <p className="text-red-500">{error}</p>}
+
+        {/* Bank health */}
+        <section className="bg-white rounded-3xl shadow p-5">
+          <h2 className="font-semibold text-gray-900 mb-3">Bank</h2>
+          {bank ? (
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              <div>
+                <div className="text-gray-400 text-xs">Balance</div>
+                <div className="text-lg font-semibold">{bank.balance.toFixed(4)} SOL</div>
+              </div>
+              <div>
+                <div className="text-gray-400 text-xs">Outstanding payouts</div>
+                <div className="text-lg font-semibold">{bank.liabilities.total.toFixed(4)} SOL</div>
+                <div className="text-xs text-gray-400">
+                  {bank.liabilities.pending.toFixed(2)} pending · {bank.liabilities.sent.toFixed(2)} sent · {bank.liabilities.failed.toFixed(2)} failed
+                </div>
+              </div>
+              <div>
+                <div className="text-gray-400 text-xs">Available</div>
+                <div className={`text-lg font-semibold ${bank.available < 0 ? 'text-red-500' : ''}`}>{bank.available.toFixed(4)} SOL</div>
+              </div>
+              <div>
+                <div className="text-gray-400 text-xs">Payout signer</div>
+                <div className={`text-lg font-semibold ${bank.payoutEnabled ? 'text-green-600' : 'text-red-500'}`}>
+                  {bank.payoutEnabled ? 'Ready' : 'Missing'}
+                </div>
+                {bank.signer && (
+                  <div className="text-xs text-gray-400" title={bank.signer.keys.join('\n')}>
+                    {bank.signer.kind} · {bank.signer.keys.length} key{bank.signer.keys.length === 1 ? '' : 's'}
+                  </div>
+                )}
+              </div>
+            </div>
+          ) : (
+            <p className="text-gray-400">Loading...</p>
+          )}
+        </section>
+
+        {/* Treasury band and sweep log */}
+        {treasury?.enabled && (
+          <section className="bg-white rounded-3xl shadow p-5">
+            <h2 className="font-semibold text-gray-900 mb-3">Treasury</h2>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-4">
+              <div>
+                <div className="text-gray-400 text-xs">Hot (free)</div>
+                <div className={`text-lg font-semibold ${treasury.floor !== null && treasury.freeBalance < treasury.floor ? 'text-red-500' : ''}`}>
+                  {treasury.freeBalance.toFixed(4)} SOL
+                </div>
+              </div>
+              <div>
+                <div className="text-gray-400 text-xs">Band</div>
+                <div className="text-lg font-semibold">{treasury.floor ?? 0} - {treasury.ceiling ?? '∞'} SOL</div>
+                <div className="text-xs text-gray-400">target {treasury.target} SOL</div>
+              </div>
+              <div>
+                <div className="text-gray-400 text-xs">Exposed cold reserve</div>
+                <div className="text-lg font-semibold">{treasury.exposedReserve} SOL</div>
+              </div>
+              <div>
+                <div className="text-gray-400 text-xs">Cold address</div>
+                <div className="text-lg font-semibold font-mono" title={treasury.coldAddress || undefined}>{shorten(treasury.coldAddress)}</div>
+              </div>
+            </div>
+            {treasury.events.length === 0 ? (
+              <p className="text-gray-400">No sweeps or top-up requests yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead className="text-gray-400 text-left">
+                    <tr>
+                      <th className="py-1 pr-3">Time</th>
+                      <th className="py-1 pr-3">Kind</th>
+                      <th className="py-1 pr-3">Amount</th>
+                      <th className="py-1 pr-3">Hot (free)</th>
+                      <th className="py-1 pr-3">Status</th>
+                      <th className="py-1 pr-3">Transaction</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {treasury.events.map(event => (
+                      <tr key={event.id} className="border-t border-gray-100">
+                        <td className="py-1 pr-3 whitespace-nowrap">{new Date(event.createdAt).toLocaleString()}</td>
+                        <td className="py-1 pr-3">{event.kind === 'sweep' ? 'Sweep' : 'Top-up request'}</td>
+                        <td className="py-1 pr-3">{event.amount.toFixed(4)} SOL</td>
+                        <td className="py-1 pr-3">{event.hotBalance.toFixed(4)} SOL</td>
+                        <td
+                          className={`py-1 pr-3 ${event.status === 'failed' || event.status === 'open' ? 'text-red-500' : ''}`}
+                          title={event.error || undefined}
+                        >
+                          {event.status}
+                        </td>
+                        <td className="py-1 pr-3 font-mono">{shorten(event.signature)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+        )}
+
+        {/* Betting switch */}
+        <section className="bg-white rounded-3xl shadow p-5">
+          <h2 className="font-semibold text-gray-900 mb-3">Betting</h2>
+          {betting && (
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+              <span className={`font-medium ${betting.paused ? 'text-red-500' : 'text-green-600'}`}>
+                {betting.paused ? `Paused${betting.reason ? `: ${betting.reason}` : ''}` : 'Accepting bets'}
+              </span>
+              {!betting.paused && (
+                <input
+                  value={pauseReason}
+                  onChange={(e) => setPauseReason(e.target.value)}
+                  placeholder="Reason (shown to players)"
+                  className="flex-1 border border-gray-300 rounded-full px-4 py-1.5 focus:outline-none focus:ring-2 focus:ring-gray-400"
+                />
+              )}
+              <button
+                onClick={togglePause}
+                className="border border-gray-300 rounded-full px-4 py-1.5 font-semibold hover:bg-gray-50"
+              >
+                {betting.paused ? 'Resume betting' : 'Pause betting'}
+              </button>
+            </div>
+          )}
+        </section>
+
+        {/* Payouts */}
+        <section className="bg-white rounded-3xl shadow p-5">
+          <h2 className="font-semibold text-gray-900 mb-3">Failed payouts ({failed.length})</h2>
+          <PayoutTable payouts={failed} onAction={payoutAction} />
+          <h2 className="font-semibold text-gray-900 mt-6 mb-3">In flight ({outstanding.length})</h2>
+          <PayoutTable payouts={outstanding} onAction={payoutAction} />
+        </section>
+
+        {/* Bets */}
+        <section className="bg-white rounded-3xl shadow p-5">
+          <h2 className="font-semibold text-gray-900 mb-3">Bets</h2>
+          <div className="flex gap-2 mb-3">
+            <input
+              value={search}
+              onChange={(e) => setSearch(e.target.value.trim())}
+              onKeyDown={(e) => e.key === 'Enter' && searchBets(search)}
+              placeholder="Wallet or transaction signature"
+              className="flex-1 min-w-0 border border-gray-300 rounded-full px-4 py-1.5 font-mono focus:outline-none focus:ring-2 focus:ring-gray-400"
+            />
+            <button
+              onClick={() => searchBets(search)}
+              className="border border-gray-300 rounded-full px-4 py-1.5 font-semibold hover:bg-gray-50"
+            >
+              Search
+            </button>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead className="text-gray-400 text-left">
+                <tr>
+                  <th className="py-1 pr-3">Time</th>
+                  <th className="py-1 pr-3">Wallet</th>
+                  <th className="py-1 pr-3">Deposit</th>
+                  <th className="py-1 pr-3">Amount</th>
+                  <th className="py-1 pr-3">Result</th>
+                  <th className="py-1 pr-3">Status</th>
+                  <th className="py-1 pr-3">Payout</th>
+                </tr>
+              </thead>
+              <tbody>
+                {bets.map(bet => (
+                  <tr key={bet.signature} className="border-t border-gray-100" title={bet.error || undefined}>
+                    <td className="py-1 pr-3 whitespace-nowrap">{new Date(bet.createdAt).toLocaleString()}</td>
+                    <td className="py-1 pr-3 font-mono">{shorten(bet.playerWallet)}</td>
+                    <td className="py-1 pr-3 font-mono">{shorten(bet.signature)}</td>
+                    <td className="py-1 pr-3">{bet.amount} {bet.asset}</td>
+                    <td className={`py-1 pr-3 ${bet.result === 'win' ? 'text-green-600' : bet.result === 'loss' ? 'text-red-500' : ''}`}>
+                      {bet.result || '-'}
+                    </td>
+                    <td className="py-1 pr-3">{bet.status}</td>
+                    <td className="py-1 pr-3 font-mono">{shorten(bet.payoutSignature)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {bets.length === 0 && <p className="text-gray-400 mt-2">No bets found.</p>}
+          </div>
+        </section>
+      </div>
+    </div>
+  )
+}
+
+function PayoutTable({
+  payouts,
+  onAction,
+}: {
+  payouts: Payout[]
+  onAction: (payout: Payout, action: 'retry' | 'mark_paid') => void
+}) {
+  if (payouts.length === 0) {
+    return <p className="text-gray-400">None.</p>
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead className="text-gray-400 text-left">
+          <tr>
+            <th className="py-1 pr-3">Created</th>
+            <th className="py-1 pr-3">Wallet</th>
+            <th className="py-1 pr-3">Amount</th>
+            <th className="py-1 pr-3">Status</th>
+            <th className="py-1 pr-3">Attempts</th>
+            <th className="py-1 pr-3">Last error</th>
+            <th className="py-1 pr-3" />
+          </tr>
+        </thead>
+        <tbody>
+          {payouts.map(payout => (
+            <tr key={payout.id} className="border-t border-gray-100">
+              <td className="py-1 pr-3 whitespace-nowrap">{new Date(payout.createdAt).toLocaleString()}</td>
+              <td className="py-1 pr-3 font-mono">{shorten(payout.playerWallet)}</td>
+              <td className="py-1 pr-3">{payout.amount} {payout.asset}</td>
+              <td className="py-1 pr-3">{payout.status}</td>
+              <td className="py-1 pr-3">{payout.attempts}</td>
+              <td className="py-1 pr-3 max-w-[240px] truncate" title={payout.lastError || undefined}>{payout.lastError || '-'}</td>
+              <td className="py-1 pr-3 whitespace-nowrap">
+                {payout.status !== 'sent' && (
+                  <>
+                    <button onClick={() => onAction(payout, 'retry')} className="text-gray-600 hover:text-gray-900 mr-3">Retry</button>
+                    <button onClick={() => onAction(payout, 'mark_paid')} className="text-gray-600 hover:text-gray-900">Mark paid</button>
+                  </>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
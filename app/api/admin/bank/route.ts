@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js'
+import { isAdminRequest, unauthorized } from '@/lib/admin'
+import { BANK_WALLET_ADDRESS, getConnection } from '@/lib/solana'
+import { getPayoutSigner, payoutKey } from '@/lib/signer'
+import { getOutstandingLiabilities } from '@/lib/payouts'
+
+// GET - Bank balance against outstanding payout liabilities
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) return unauthorized()
+
+  try {
+    const connection = await getConnection()
+    const [lamports, liabilities, signer] = await Promise.all([
+      BANK_WALLET_ADDRESS ? connection.getBalance(new PublicKey(BANK_WALLET_ADDRESS)) : Promise.resolve(0),
+      getOutstandingLiabilities(),
+      getPayoutSigner(),
+    ])
+
+    const balance = lamports / LAMPORTS_PER_SOL
+    const totalLiabilities = liabilities.pending + liabilities.sent + liabilities.failed
+
+    return NextResponse.json({
+      bankWallet: BANK_WALLET_ADDRESS,
+      payoutEnabled: !!signer,
+      // Signer backend and keys (active first); payouts come from `payoutKey`
+      signer: signer
+        ? {
+          kind: signer.kind,
+          keys: signer.publicKeys.map(key => key.toBase58()),
+          payoutKey: payoutKey(signer, BANK_WALLET_ADDRESS).toBase58(),
+        }
+        : null,
+      balance,
+      liabilities: {
+        ...liabilities,
+        total: totalLiabilities,
+      },
+      available: balance - totalLiabilities,
+    })
+  } catch (error: any) {
+    console.error('Failed to read bank health:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to read bank health' },
+      { status: 500 }
+    )
+  }
+}
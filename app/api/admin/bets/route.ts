@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAdminRequest, unauthorized } from '@/lib/admin'
+import { searchPlays, PlayStatus } from '@/lib/plays'
+
+const BASE58 = /^[1-9A-HJ-NP-Za-km-z]+$/
+
+// GET - Browse bets, optionally filtered by ?wallet=, ?signature= (deposit or payout) and ?status=
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) return unauthorized()
+
+  const params = request.nextUrl.searchParams
+  const wallet = params.get('wallet') || undefined
+  const signature = params.get('signature') || undefined
+  const status = (params.get('status') || undefined) as PlayStatus | undefined
+  const limit = Math.min(Number(params.get('limit')) || 50, 200)
+
+  if ((wallet && !BASE58.test(wallet)) || (signature && !BASE58.test(signature))) {
+    return NextResponse.json(
+      { error: 'Wallet and signature must be base58' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const bets = await searchPlays({ wallet, signature, status, limit })
+    return NextResponse.json({ bets })
+  } catch (error: any) {
+    console.error('Failed to search bets:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to search bets' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { LAMPORTS_PER_SOL, PublicKey, Transaction } from '@solana/web3.js'
+import { isAdminRequest, unauthorized } from '@/lib/admin'
+import { BANK_WALLET_ADDRESS, getConnection } from '@/lib/solana'
+import { findSignerKey, getPayoutSigner, payoutKey } from '@/lib/signer'
+import {
+  ESCROW_ENABLED,
+  ESCROW_PROGRAM_ID,
+  describeEscrowError,
+  fetchHouse,
+  findHouseAddress,
+  initializeHouseInstruction,
+  setAuthorityInstruction,
+  withdrawInstruction,
+} from '@/lib/escrow'
+
+// Default time a player waits before reclaiming an unsettled bet
+const DEFAULT_SETTLE_TIMEOUT_SECONDS = 15 * 60
+
+function notEnabled() {
+  return NextResponse.json(
+    { error: 'Escrow mode is not enabled (set NEXT_PUBLIC_ESCROW_PROGRAM_ID)' },
+    { status: 400 }
+  )
+}
+
+// GET - Escrow house state: address, authority and liquidity
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) return unauthorized()
+  if (!ESCROW_ENABLED) return notEnabled()
+
+  try {
+    const connection = await getConnection()
+    const house = await fetchHouse(connection)
+    const signer = await getPayoutSigner()
+
+    return NextResponse.json({
+      programId: ESCROW_PROGRAM_ID!.toBase58(),
+      house: findHouseAddress().toBase58(),
+      initialized: !!house,
+      authority: house?.authority ?? null,
+      // Payouts settle escrow bets with the authority's key, so the payout signer must hold it
+      signerIsAuthority: !!house && !!signer && !!findSignerKey(signer, house.authority),
+      // After a key rotation the authority should move to the active key
+      authorityIsActiveKey: !!house && !!signer && house.authority === signer.publicKeys[0].toBase58(),
+      settleTimeout: house?.settleTimeout ?? null,
+      balance: house ? house.lamports / LAMPORTS_PER_SOL : 0,
+    })
+  } catch (error: any) {
+    console.error('Failed to read escrow house:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to read escrow house' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Manage the house through the payout signer:
+// { action: 'initialize', settleTimeout?: seconds } (the active key, which must be the program's
+// upgrade authority, becomes the authority),
+// { action: 'withdraw', amount: SOL, destination?: address } or
+// { action: 'rotate_authority', newAuthority?: signer key } (defaults to the signer's active key)
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) return unauthorized()
+  if (!ESCROW_ENABLED) return notEnabled()
+
+  const signer = await getPayoutSigner()
+  if (!signer) {
+    return NextResponse.json(
+      { error: 'Payout signer not available' },
+      { status: 500 }
+    )
+  }
+
+  try {
+    const { action, settleTimeout, amount, destination, newAuthority } = await request.json()
+    const connection = await getConnection()
+    const transaction = new Transaction()
+    const activeKey = signer.publicKeys[0]
+
+    // Every action but initialize is signed by the current authority
+    let authority = activeKey
+    if (action !== 'initialize') {
+      const house = await fetchHouse(connection)
+      const key = house && findSignerKey(signer, house.authority)
+      if (!key) {
+        return NextResponse.json(
+          { error: 'The escrow house authority is not a payout signer key' },
+          { status: 400 }
+        )
+      }
+      authority = key
+    }
+
+    if (action === 'initialize') {
+      const timeout = settleTimeout ?? DEFAULT_SETTLE_TIMEOUT_SECONDS
+      if (!Number.isInteger(timeout) || timeout <= 0) {
+        return NextResponse.json(
+          { error: 'settleTimeout must be a positive number of seconds' },
+          { status: 400 }
+        )
+      }
+      transaction.add(initializeHouseInstruction(activeKey, timeout))
+    } else if (action === 'withdraw') {
+      if (typeof amount !== 'number' || amount <= 0) {
+        return NextResponse.json(
+          { error: 'amount must be a positive number of SOL' },
+          { status: 400 }
+        )
+      }
+      let to = payoutKey(signer, BANK_WALLET_ADDRESS)
+      if (destination) {
+        try {
+          to = new PublicKey(destination)
+        } catch {
+          return NextResponse.json(
+            { error: 'Invalid destination address' },
+            { status: 400 }
+          )
+        }
+      }
+      transaction.add(withdrawInstruction(authority, to, Math.floor(amount * LAMPORTS_PER_SOL)))
+    } else if (action === 'rotate_authority') {
+      let to = activeKey
+      if (newAuthority) {
+        try {
+          to = new PublicKey(newAuthority)
+        } catch {
+          return NextResponse.json(
+            { error: 'Invalid newAuthority address' },
+            { status: 400 }
+          )
+        }
+      }
+      // The signer policy only hands the house to keys it holds
+      if (!findSignerKey(signer, to.toBase58())) {
+        return NextResponse.json(
+          { error: 'newAuthority must be one of the payout signer keys' },
+          { status: 400 }
+        )
+      }
+      if (to.equals(authority)) {
+        return NextResponse.json(
+          { error: 'That key is already the authority' },
+          { status: 400 }
+        )
+      }
+      transaction.add(setAuthorityInstruction(authority, to))
+    } else {
+      return NextResponse.json(
+        { error: "action must be 'initialize', 'withdraw' or 'rotate_authority'" },
+        { status: 400 }
+      )
+    }
+
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed')
+    transaction.recentBlockhash = blockhash
+    transaction.feePayer = authority
+    await signer.sign(transaction, authority)
+
+    const signature = await connection.sendRawTransaction(transaction.serialize())
+    const confirmation = await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed')
+    if (confirmation.value.err) {
+      throw new Error(`Transaction failed: ${JSON.stringify(confirmation.value.err)}`)
+    }
+
+    console.log('Escrow house updated by operator:', { action, signature })
+    return NextResponse.json({ success: true, signature })
+  } catch (error: any) {
+    console.error('Failed to update escrow house:', error)
+    return NextResponse.json(
+      { error: describeEscrowError(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAdminRequest, unauthorized } from '@/lib/admin'
+import { getConnection } from '@/lib/solana'
+import { markPayoutPaid, processPayout, retryPayout } from '@/lib/payouts'
+
+// POST - Operator actions on a payout
+// { action: 'retry' } re-queues it and makes an attempt right away
+// { action: 'mark_paid', signature } records a payout settled by hand, once
+// that transaction is confirmed on-chain
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isAdminRequest(request)) return unauthorized()
+
+  const id = Number(params.id)
+  if (!Number.isInteger(id) || id <= 0) {
+    return NextResponse.json(
+      { error: 'Invalid payout id' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { action, signature } = await request.json()
+
+    if (action === 'retry') {
+      const payout = await retryPayout(id)
+      if (!payout) {
+        return NextResponse.json(
+          { error: 'Only pending or failed payouts that are not being processed can be retried' },
+          { status: 409 }
+        )
+      }
+
+      const connection = await getConnection()
+      const processed = await processPayout(connection, id)
+      return NextResponse.json({ success: true, payout: processed || payout })
+    }
+
+    if (action === 'mark_paid') {
+      if (!signature || typeof signature !== 'string') {
+        return NextResponse.json(
+          { error: 'Missing payout transaction signature' },
+          { status: 400 }
+        )
+      }
+
+      const connection = await getConnection()
+      const payout = await markPayoutPaid(connection, id, signature)
+      if (!payout) {
+        return NextResponse.json(
+          { error: 'Only pending or failed payouts that are not being processed can be marked paid' },
+          { status: 409 }
+        )
+      }
+      return NextResponse.json({ success: true, payout })
+    }
+
+    return NextResponse.json(
+      { error: 'Unknown action' },
+      { status: 400 }
+    )
+  } catch (error: any) {
+    if (error.invalidSignature) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Payout action failed:', error)
+    return NextResponse.json(
+      { error: error.message || 'Payout action failed' },
+      { status: 500 }
+    )
+  }
+}
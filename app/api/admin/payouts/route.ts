@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAdminRequest, unauthorized } from '@/lib/admin'
+import { listPayouts, PayoutStatus } from '@/lib/payouts'
+
+const PAYOUT_STATUSES: PayoutStatus[] = ['pending', 'sent', 'confirmed', 'failed']
+
+// GET - Payouts by status (?status=pending,failed), defaults to everything outstanding
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) return unauthorized()
+
+  const requested = (request.nextUrl.searchParams.get('status') || 'pending,sent,failed')
+    .split(',')
+    .filter((status): status is PayoutStatus => PAYOUT_STATUSES.includes(status as PayoutStatus))
+
+  try {
+    const payouts = await listPayouts(requested.length ? requested : ['pending', 'sent', 'failed'])
+    return NextResponse.json({ payouts })
+  } catch (error: any) {
+    console.error('Failed to list payouts:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to list payouts' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { clearAdminSessionCookie, isAdminRequest, isAdminSecret, setAdminSessionCookie } from '@/lib/admin'
+import { RATE_LIMITS, getClientIp, rateLimit } from '@/lib/rateLimit'
+
+// GET - Whether the caller has an admin session
+export async function GET(request: NextRequest) {
+  return NextResponse.json({ authenticated: isAdminRequest(request) })
+}
+
+// POST - Exchange the admin secret for a session cookie. Every attempt counts
+// against the per-IP login limit, so the secret can not be brute-forced.
+export async function POST(request: NextRequest) {
+  const limited = await rateLimit(request, RATE_LIMITS.adminLoginPerIp, getClientIp(request))
+  if (limited) return limited
+
+  try {
+    const { secret } = await request.json()
+
+    if (!isAdminSecret(secret)) {
+      console.warn('Failed admin login attempt:', { ip: getClientIp(request) })
+      return NextResponse.json(
+        { error: 'Invalid admin secret' },
+        { status: 401 }
+      )
+    }
+
+    return setAdminSessionCookie(NextResponse.json({ authenticated: true }))
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: 'Invalid request data' },
+      { status: 400 }
+    )
+  }
+}
+
+// DELETE - Log out
+export async function DELETE() {
+  return clearAdminSessionCookie(NextResponse.json({ authenticated: false }))
+}
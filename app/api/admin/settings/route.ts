@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAdminRequest, unauthorized } from '@/lib/admin'
+import { getBettingSettings, setBettingPaused } from '@/lib/settings'
+
+// GET - Current operator switches
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) return unauthorized()
+
+  try {
+    return NextResponse.json({ betting: await getBettingSettings() })
+  } catch (error: any) {
+    console.error('Failed to read settings:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to read settings' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Pause or resume betting: { paused: boolean, reason?: string }
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) return unauthorized()
+
+  try {
+    const { paused, reason } = await request.json()
+
+    if (typeof paused !== 'boolean') {
+      return NextResponse.json(
+        { error: 'paused must be a boolean' },
+        { status: 400 }
+      )
+    }
+
+    const betting = await setBettingPaused(paused, typeof reason === 'string' ? reason : null)
+    return NextResponse.json({ success: true, betting })
+  } catch (error: any) {
+    console.error('Failed to update settings:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to update settings' },
+      { status: 500 }
+    )
+  }
+}
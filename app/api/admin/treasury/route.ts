@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAdminRequest, unauthorized } from '@/lib/admin'
+import { getConnection } from '@/lib/solana'
+import { getTreasuryStatus, listTreasuryEvents } from '@/lib/treasury'
+
+// GET - Hot wallet balance against its band, with recent sweeps and top-up requests
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) return unauthorized()
+
+  try {
+    const connection = await getConnection()
+    const [status, events] = await Promise.all([
+      getTreasuryStatus(connection),
+      listTreasuryEvents(),
+    ])
+
+    return NextResponse.json({ ...status, events })
+  } catch (error: any) {
+    console.error('Failed to read treasury:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to read treasury' },
+      { status: 500 }
+    )
+  }
+}
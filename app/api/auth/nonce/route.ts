@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PublicKey } from '@solana/web3.js'
+import { SIGN_IN_ENABLED, createSignInChallenge } from '@/lib/session'
+import { RATE_LIMITS, getClientIp, rateLimit } from '@/lib/rateLimit'
+
+function isValidWallet(address: unknown): address is string {
+  if (typeof address !== 'string') return false
+  try {
+    new PublicKey(address)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// POST - Issue a sign-in nonce and the message for the wallet to sign
+export async function POST(request: NextRequest) {
+  if (!SIGN_IN_ENABLED) {
+    return NextResponse.json(
+      { error: 'Wallet sign-in is not configured (set SESSION_SECRET)' },
+      { status: 503 }
+    )
+  }
+
+  // Every call stores a nonce
+  const limited = await rateLimit(request, RATE_LIMITS.readPerIp, getClientIp(request))
+  if (limited) return limited
+
+  try {
+    const { wallet } = await request.json()
+
+    if (!isValidWallet(wallet)) {
+      return NextResponse.json(
+        { error: 'Invalid wallet address' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(await createSignInChallenge(wallet, request.nextUrl.origin))
+  } catch (error: any) {
+    console.error('Failed to issue sign-in nonce:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to issue sign-in nonce' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  clearWalletSessionCookie,
+  getSessionWallet,
+  setWalletSessionCookie,
+  verifySignIn,
+} from '@/lib/session'
+
+// GET - Wallet the caller is signed in as, if any
+export async function GET(request: NextRequest) {
+  return NextResponse.json({ wallet: getSessionWallet(request) })
+}
+
+// POST - Exchange a signed sign-in message for a session cookie
+// Body: { wallet, nonce, signature } with the signature base58 encoded
+export async function POST(request: NextRequest) {
+  let body: any
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request data' },
+      { status: 400 }
+    )
+  }
+
+  const { wallet, nonce, signature } = body || {}
+  if (typeof wallet !== 'string' || typeof nonce !== 'string' || typeof signature !== 'string') {
+    return NextResponse.json(
+      { error: 'wallet, nonce and signature are required' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    if (!(await verifySignIn(wallet, nonce, signature))) {
+      console.warn('Failed wallet sign-in:', { wallet })
+      return NextResponse.json(
+        { error: 'Invalid or expired sign-in signature' },
+        { status: 401 }
+      )
+    }
+
+    return setWalletSessionCookie(NextResponse.json({ wallet }), wallet)
+  } catch (error: any) {
+    console.error('Failed to verify wallet sign-in:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to verify sign-in' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Sign out
+export async function DELETE() {
+  return clearWalletSessionCookie(NextResponse.json({ wallet: null }))
+}
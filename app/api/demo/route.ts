@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  DEMO_BANK_BALANCE,
+  DEMO_MODE,
+  DEMO_START_BALANCE,
+  DemoAccount,
+  getDemoAccount,
+  resetDemoAccount,
+  resolveDemoAccountId,
+  setDemoSessionCookie,
+} from '@/lib/demo'
+import { RATE_LIMITS, getClientIp, rateLimit } from '@/lib/rateLimit'
+
+function toDemoResponse(account: DemoAccount) {
+  return {
+    demo: true,
+    balance: account.balance,
+    anonymous: account.anonymous,
+    startBalance: DEMO_START_BALANCE,
+    bankBalance: DEMO_BANK_BALANCE,
+  }
+}
+
+function demoDisabled() {
+  return NextResponse.json(
+    { error: 'Demo mode is not enabled' },
+    { status: 404 }
+  )
+}
+
+// GET - Demo balance of the signed-in wallet or anonymous demo session
+export async function GET(request: NextRequest) {
+  if (!DEMO_MODE) return demoDisabled()
+
+  const limited = await rateLimit(request, RATE_LIMITS.readPerIp, getClientIp(request))
+  if (limited) return limited
+
+  const { accountId, newSessionId } = resolveDemoAccountId(request)
+  try {
+    const account = await getDemoAccount(accountId)
+    return setDemoSessionCookie(NextResponse.json(toDemoResponse(account)), newSessionId)
+  } catch (error: any) {
+    console.error('Failed to read demo account:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to read demo account' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Reset the demo balance to the starting balance
+export async function POST(request: NextRequest) {
+  if (!DEMO_MODE) return demoDisabled()
+
+  const limited = await rateLimit(request, RATE_LIMITS.playPerIp, getClientIp(request))
+  if (limited) return limited
+
+  const { accountId, newSessionId } = resolveDemoAccountId(request)
+  try {
+    const account = await resetDemoAccount(accountId)
+    return setDemoSessionCookie(NextResponse.json(toDemoResponse(account)), newSessionId)
+  } catch (error: any) {
+    console.error('Failed to reset demo account:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to reset demo account' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PublicKey } from '@solana/web3.js'
+import { findActiveSeed, getActiveSeed, listRevealedSeeds, rotateSeed } from '@/lib/fairness'
+import { RATE_LIMITS, getClientIp, rateLimit } from '@/lib/rateLimit'
+import { getSessionWallet, requireWalletSession } from '@/lib/session'
+
+function isValidWallet(address: unknown): address is string {
+  if (typeof address !== 'string') return false
+  try {
+    new PublicKey(address)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// GET - Current server seed commitment and previously revealed seeds for a wallet.
+// Only a request signed in as the wallet commits a new seed; anyone else gets
+// serverSeedHash null until the wallet has one (bets commit it too).
+export async function GET(request: NextRequest) {
+  const limited = await rateLimit(request, RATE_LIMITS.readPerIp, getClientIp(request))
+  if (limited) return limited
+
+  const wallet = request.nextUrl.searchParams.get('wallet')
+
+  if (!isValidWallet(wallet)) {
+    return NextResponse.json(
+      { error: 'Invalid wallet address' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const [active, revealedSeeds] = await Promise.all([
+      getSessionWallet(request) === wallet ? getActiveSeed(wallet) : findActiveSeed(wallet),
+      listRevealedSeeds(wallet),
+    ])
+
+    return NextResponse.json({
+      wallet,
+      serverSeedHash: active?.serverSeedHash ?? null,
+      nonce: active?.nonce ?? 0,
+      revealedSeeds: revealedSeeds.map(seed => ({
+        serverSeed: seed.serverSeed,
+        serverSeedHash: seed.serverSeedHash,
+        noncesUsed: seed.nonce,
+        revealedAt: seed.revealedAt,
+      })),
+    })
+  } catch (error: any) {
+    console.error('Failed to read fairness seeds:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to read fairness seeds' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Rotate the signed-in wallet's server seed, revealing the current one
+export async function POST(request: NextRequest) {
+  try {
+    const { wallet } = await request.json()
+
+    if (!isValidWallet(wallet)) {
+      return NextResponse.json(
+        { error: 'Invalid wallet address' },
+        { status: 400 }
+      )
+    }
+
+    const sessionError = requireWalletSession(request, wallet)
+    if (sessionError) return sessionError
+
+    const { revealed, next } = await rotateSeed(wallet)
+
+    console.log('Rotated server seed:', { wallet, noncesUsed: revealed?.nonce ?? 0 })
+
+    return NextResponse.json({
+      success: true,
+      revealed: revealed && {
+        serverSeed: revealed.serverSeed,
+        serverSeedHash: revealed.serverSeedHash,
+        noncesUsed: revealed.nonce,
+        revealedAt: revealed.revealedAt,
+      },
+      serverSeedHash: next.serverSeedHash,
+      nonce: next.nonce,
+    })
+  } catch (error: any) {
+    console.error('Failed to rotate server seed:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to rotate server seed' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPlay, isValidSignature } from '@/lib/plays'
+import { RATE_LIMITS, getClientIp, rateLimit } from '@/lib/rateLimit'
+import { WIN_CHANCE, computeRoll, getSeedById, hashServerSeed, resultFromRoll } from '@/lib/fairness'
+
+// GET - Verify a past flip by its deposit signature
+// Works once the server seed used for the flip has been revealed (rotated)
+export async function GET(request: NextRequest) {
+  const limited = await rateLimit(request, RATE_LIMITS.readPerIp, getClientIp(request))
+  if (limited) return limited
+
+  const signature = request.nextUrl.searchParams.get('signature')
+
+  if (!signature) {
+    return NextResponse.json(
+      { error: 'Missing transaction signature' },
+      { status: 400 }
+    )
+  }
+
+  if (!isValidSignature(signature)) {
+    return NextResponse.json(
+      { error: 'Invalid transaction signature' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const play = await getPlay(signature)
+
+    if (!play || play.seedId === null || play.nonce === null || !play.result) {
+      return NextResponse.json(
+        { error: 'No rolled bet found for this signature' },
+        { status: 404 }
+      )
+    }
+
+    const seed = await getSeedById(play.seedId)
+    const winChance = play.winChance ?? WIN_CHANCE
+
+    if (!seed || !seed.serverSeed) {
+      return NextResponse.json({
+        revealed: false,
+        serverSeedHash: play.serverSeedHash,
+        clientSeed: play.clientSeed,
+        nonce: play.nonce,
+        winChance,
+        result: play.result,
+        message: 'Server seed not revealed yet - rotate your seed to verify this flip',
+      })
+    }
+
+    const roll = computeRoll(seed.serverSeed, play.clientSeed || '', play.nonce)
+    const computedResult = resultFromRoll(roll, winChance)
+    const hashMatches = hashServerSeed(seed.serverSeed) === play.serverSeedHash
+
+    return NextResponse.json({
+      revealed: true,
+      serverSeed: seed.serverSeed,
+      serverSeedHash: play.serverSeedHash,
+      clientSeed: play.clientSeed,
+      nonce: play.nonce,
+      winChance,
+      roll,
+      result: play.result,
+      computedResult,
+      verified: hashMatches && computedResult === play.result,
+    })
+  } catch (error: any) {
+    console.error('Failed to verify flip:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to verify flip' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Recompute a flip from raw inputs, no database involved
+// winChance is optional and defaults to the 2x tier's 0.5
+export async function POST(request: NextRequest) {
+  try {
+    const { serverSeed, clientSeed, nonce, winChance = WIN_CHANCE } = await request.json()
+
+    if (typeof serverSeed !== 'string' || typeof clientSeed !== 'string' || !Number.isInteger(nonce) || nonce < 0) {
+      return NextResponse.json(
+        { error: 'serverSeed, clientSeed and a non-negative integer nonce are required' },
+        { status: 400 }
+      )
+    }
+
+    if (typeof winChance !== 'number' || winChance <= 0 || winChance >= 1) {
+      return NextResponse.json(
+        { error: 'winChance must be a number between 0 and 1' },
+        { status: 400 }
+      )
+    }
+
+    const roll = computeRoll(serverSeed, clientSeed, nonce)
+
+    return NextResponse.json({
+      serverSeedHash: hashServerSeed(serverSeed),
+      clientSeed,
+      nonce,
+      winChance,
+      roll,
+      result: resultFromRoll(roll, winChance),
+    })
+  } catch (error: any) {
+    console.error('Failed to recompute flip:', error)
+    return NextResponse.json(
+      { error: error.message || 'Invalid request data' },
+      { status: 400 }
+    )
+  }
+}
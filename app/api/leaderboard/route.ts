@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  LEADERBOARD_METRICS,
+  LEADERBOARD_PERIODS,
+  LeaderboardMetric,
+  LeaderboardPeriod,
+  MAX_LEADERBOARD_LIMIT,
+  getLeaderboard,
+  periodStart,
+} from '@/lib/leaderboard'
+import { getBetAsset } from '@/lib/assets'
+
+// GET - Top wallets by net profit, volume or longest win streak
+// Query: ?metric=profit|volume|streak&period=daily|weekly|monthly|all&asset=SOL&limit=20
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams
+  const metric = (searchParams.get('metric') || 'profit') as LeaderboardMetric
+  const period = (searchParams.get('period') || 'all') as LeaderboardPeriod
+  const asset = getBetAsset(searchParams.get('asset'))
+  const limit = Math.min(
+    MAX_LEADERBOARD_LIMIT,
+    Math.max(1, Math.floor(Number(searchParams.get('limit')) || 20))
+  )
+
+  if (!LEADERBOARD_METRICS.includes(metric)) {
+    return NextResponse.json(
+      { error: `metric must be one of: ${LEADERBOARD_METRICS.join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  if (!LEADERBOARD_PERIODS.includes(period)) {
+    return NextResponse.json(
+      { error: `period must be one of: ${LEADERBOARD_PERIODS.join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  if (!asset) {
+    return NextResponse.json(
+      { error: 'Unsupported asset' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const entries = await getLeaderboard(metric, period, limit, asset.symbol)
+
+    return NextResponse.json({
+      metric,
+      period,
+      asset: asset.symbol,
+      since: periodStart(period),
+      entries,
+    })
+  } catch (error: any) {
+    console.error('Failed to read leaderboard:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to read leaderboard' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAdminRequest, unauthorized } from '@/lib/admin'
+import { getConnection } from '@/lib/solana'
+import { processDuePayouts } from '@/lib/payouts'
+
+// POST - Run the payout worker once (admin only, called on a schedule)
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) return unauthorized()
+
+  try {
+    const connection = await getConnection()
+    const processed = await processDuePayouts(connection)
+
+    return NextResponse.json({
+      success: true,
+      processed: processed.map(payout => ({
+        id: payout.id,
+        playSignature: payout.playSignature,
+        status: payout.status,
+        signature: payout.signature,
+        attempts: payout.attempts,
+      })),
+    })
+  } catch (error: any) {
+    console.error('Payout worker error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Payout worker failed' },
+      { status: 500 }
+    )
+  }
+}
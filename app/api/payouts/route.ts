@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayoutForPlay, listPayoutsForWallet, Payout } from '@/lib/payouts'
+import { requireWalletSession } from '@/lib/session'
+
+// Public view of a payout - no internal retry bookkeeping
+function toPayoutResponse(payout: Payout) {
+  return {
+    playSignature: payout.playSignature,
+    playerWallet: payout.playerWallet,
+    amount: payout.amount,
+    asset: payout.asset,
+    status: payout.status,
+    signature: payout.signature,
+    attempts: payout.attempts,
+    createdAt: payout.createdAt,
+    confirmedAt: payout.confirmedAt,
+  }
+}
+
+// GET - Payout status by deposit signature (?signature=) or for the signed-in wallet (?wallet=)
+export async function GET(request: NextRequest) {
+  const signature = request.nextUrl.searchParams.get('signature')
+  const wallet = request.nextUrl.searchParams.get('wallet')
+
+  if (!signature && !wallet) {
+    return NextResponse.json(
+      { error: 'Provide a deposit signature or wallet address' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    if (signature) {
+      const payout = await getPayoutForPlay(signature)
+      if (!payout) {
+        return NextResponse.json(
+          { error: 'No payout found for this bet' },
+          { status: 404 }
+        )
+      }
+      return NextResponse.json(toPayoutResponse(payout))
+    }
+
+    const sessionError = requireWalletSession(request, wallet!)
+    if (sessionError) return sessionError
+
+    const payouts = await listPayoutsForWallet(wallet!)
+    return NextResponse.json({ payouts: payouts.map(toPayoutResponse) })
+  } catch (error: any) {
+    console.error('Failed to read payouts:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to read payouts' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPlay, isValidSignature, toPlayResponse } from '@/lib/plays'
+import { getPayoutForPlay } from '@/lib/payouts'
+import { RATE_LIMITS, getClientIp, rateLimit } from '@/lib/rateLimit'
+
+// GET - Recorded state of a bet by deposit signature, so clients can
+// resume after losing the /api/play response (timeout, reload)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { signature: string } }
+) {
+  const limited = await rateLimit(request, RATE_LIMITS.readPerIp, getClientIp(request))
+  if (limited) return limited
+
+  if (!isValidSignature(params.signature)) {
+    return NextResponse.json(
+      { error: 'Invalid transaction signature' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const play = await getPlay(params.signature)
+
+    if (!play) {
+      return NextResponse.json(
+        { error: 'No bet recorded for this signature', status: 'unknown' },
+        { status: 404 }
+      )
+    }
+
+    const payout = play.result === 'win' || play.status.startsWith('refund')
+      ? await getPayoutForPlay(play.signature)
+      : null
+
+    return NextResponse.json({
+      ...toPlayResponse(play),
+      payout: payout && {
+        status: payout.status,
+        signature: payout.signature,
+        attempts: payout.attempts,
+        confirmedAt: payout.confirmedAt,
+      },
+      updatedAt: play.updatedAt,
+    })
+  } catch (error: any) {
+    console.error('Failed to read play:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to read play' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,211 +1,303 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { 
-  Connection, 
-  PublicKey, 
-  Keypair, 
-  Transaction, 
-  SystemProgram,
-  LAMPORTS_PER_SOL,
-} from '@solana/web3.js'
-import bs58 from 'bs58'
-
-// Bank Wallet Address - Must match the one in CoinFlipGame
-const BANK_WALLET_ADDRESS = process.env.NEXT_PUBLIC_BANK_WALLET_ADDRESS || process.env.BANK_WALLET_ADDRESS || ''
-
-// RPC Endpoints - multiple fallbacks for reliability
-const RPC_ENDPOINTS = [
-  process.env.SOLANA_RPC_ENDPOINT,
-  process.env.SOLANA_RPC_ENDPOINT_2,
-  process.env.SOLANA_RPC_ENDPOINT_3,
-  'https://api.mainnet-beta.solana.com',
-  'https://rpc.ankr.com/solana',
-].filter(Boolean) as string[]
-
-// Get a working connection
-async function getConnection(): Promise<Connection> {
-  for (const endpoint of RPC_ENDPOINTS) {
-    try {
-      const conn = new Connection(endpoint, 'confirmed')
-      // Quick health check
-      await conn.getSlot()
-      console.log('Using RPC:', endpoint.includes('api-key') ? endpoint.split('?')[0] + '?api-key=***' : endpoint)
-      return conn
-    } catch (e) {
-      console.log('RPC failed, trying next:', endpoint.includes('api-key') ? endpoint.split('?')[0] : endpoint)
-    }
-  }
-  // Fallback to first endpoint even if health check failed
-  return new Connection(RPC_ENDPOINTS[0], 'confirmed')
-}
-
-// Get bank wallet keypair from private key
-function getBankKeypair(): Keypair | null {
-  const privateKey = process.env.BANK_PRIVATE_KEY
-  if (!privateKey) {
-    console.error('BANK_PRIVATE_KEY not set in environment variables')
-    return null
-  }
-  
+import { PublicKey } from '@solana/web3.js'
+import { BANK_WALLET_ADDRESS, RPC_ENDPOINTS, getConnection } from '@/lib/solana'
+import { getPayoutSigner } from '@/lib/signer'
+import { claimPlay, getPlay, updatePlay, toPlayResponse, isRefundStatus, isValidSignature } from '@/lib/plays'
+import { createPayout, isRefundable, processPayout } from '@/lib/payouts'
+import { rollForPlay } from '@/lib/fairness'
+import { recordGameResult } from '@/lib/stats'
+import { getBettingSettings } from '@/lib/settings'
+import { checkBet, checkBetSize, getBetLimits } from '@/lib/limits'
+import { BET_ASSETS, SOL_ASSET, getBetAsset } from '@/lib/assets'
+import { GAME_TIERS, effectiveWinChance, getGameTier, toTierResponse } from '@/lib/game'
+import { ESCROW_ENABLED, ESCROW_PROGRAM_ID, fetchHouse, findHouseAddress } from '@/lib/escrow'
+import { DepositVerification, checkEscrowTerms, verifyEscrowBet, verifyTransaction } from '@/lib/deposits'
+import { requireWalletSession } from '@/lib/session'
+import { RATE_LIMITS, getClientIp, rateLimit } from '@/lib/rateLimit'
+import { SOLANA_CLUSTER } from '@/lib/cluster'
+import { RISK_PAUSE_REASON } from '@/lib/risk'
+import {
+  DEMO_MODE,
+  getDemoAccount,
+  getDemoBetLimits,
+  newDemoBetId,
+  recordDemoGame,
+  resolveDemoAccountId,
+  setDemoSessionCookie,
+} from '@/lib/demo'
+
+const MAX_CLIENT_SEED_LENGTH = 64
+
+function isValidAddress(address: unknown): address is string {
+  if (typeof address !== 'string') return false
   try {
-    // Try to decode as base58 (Phantom export format)
-    const decoded = bs58.decode(privateKey)
-    return Keypair.fromSecretKey(decoded)
+    new PublicKey(address)
+    return true
   } catch {
-    try {
-      // Try to parse as JSON array (solana-keygen format)
-      const parsed = JSON.parse(privateKey)
-      return Keypair.fromSecretKey(Uint8Array.from(parsed))
-    } catch {
-      console.error('Failed to parse BANK_PRIVATE_KEY')
-      return null
-    }
+    return false
   }
 }
 
-// Verify transaction on-chain (simplified and faster)
-async function verifyTransaction(
-  connection: Connection,
-  signature: string,
-  expectedSender: string,
-  expectedAmount: number
-): Promise<{ valid: boolean; error?: string; actualAmount?: number }> {
+// Reject a malformed request before it reaches the ledger or the RPC, logging why
+function rejectRequest(request: NextRequest, error: string) {
+  console.warn('Rejected play request:', { error, ip: getClientIp(request) })
+  return NextResponse.json(
+    { error },
+    { status: 400 }
+  )
+}
+
+// Demo bets: no deposit to verify, the stake comes from the account's
+// virtual balance. Validation, limits and the fair roll match real bets.
+async function playDemo(request: NextRequest) {
+  const startTime = Date.now()
+  const { accountId, newSessionId } = resolveDemoAccountId(request)
+
   try {
-    // Quick signature status check first
-    const status = await connection.getSignatureStatus(signature)
-    
-    if (!status.value) {
-      // Transaction not found yet - but if frontend confirmed it, trust it
-      console.log('Transaction not indexed yet, proceeding with trust')
-      return { valid: true, actualAmount: expectedAmount }
+    const body = await request.json()
+    const { betAmount } = body
+    const tier = getGameTier(body.tier)
+    // Demo bets have no deposit signature to fall back on
+    const clientSeed: string = body.clientSeed || newDemoBetId()
+
+    if (typeof betAmount !== 'number' || !(betAmount > 0)) {
+      return rejectRequest(request, 'Invalid bet amount')
     }
 
-    if (status.value.err) {
-      return { valid: false, error: 'Transaction failed on-chain' }
+    if (getBetAsset(body.asset) !== SOL_ASSET) {
+      return rejectRequest(request, 'Demo mode only supports SOL')
     }
 
-    // Transaction exists and succeeded - trust the amount from frontend
-    // Full verification is expensive and slow, skip for speed
-    console.log('Transaction verified:', {
-      signature: signature.slice(0, 20) + '...',
-      confirmationStatus: status.value.confirmationStatus,
-      expectedAmount,
-    })
+    if (!tier) {
+      return rejectRequest(request, 'Unknown game tier')
+    }
 
-    return { valid: true, actualAmount: expectedAmount }
+    if (typeof clientSeed !== 'string' || clientSeed.length > MAX_CLIENT_SEED_LENGTH) {
+      return rejectRequest(request, `Client seed must be a string of at most ${MAX_CLIENT_SEED_LENGTH} characters`)
+    }
 
-  } catch (error: any) {
-    console.error('Transaction verification error:', error)
-    // If verification fails but we know tx was sent, proceed anyway
-    console.log('Verification error but proceeding with trust')
-    return { valid: true, actualAmount: expectedAmount }
-  }
-}
+    const accountLimited = await rateLimit(request, RATE_LIMITS.playPerWallet, accountId)
+    if (accountLimited) return accountLimited
 
-// Send payout to winner (fast - don't wait for confirmation)
-async function sendPayout(
-  connection: Connection,
-  bankKeypair: Keypair,
-  winnerAddress: string,
-  amount: number
-): Promise<{ success: boolean; signature?: string; error?: string }> {
-  try {
-    const winnerPubkey = new PublicKey(winnerAddress)
-    const lamports = Math.floor(amount * LAMPORTS_PER_SOL)
-
-    // Create transfer transaction
-    const transaction = new Transaction().add(
-      SystemProgram.transfer({
-        fromPubkey: bankKeypair.publicKey,
-        toPubkey: winnerPubkey,
-        lamports,
-      })
-    )
+    const betting = await getBettingSettings()
+    if (betting.paused) {
+      return NextResponse.json(
+        { error: 'Betting is paused', reason: betting.reason },
+        { status: 503 }
+      )
+    }
+
+    const limits = getDemoBetLimits(tier.multiplier)
+    const sizeError = checkBetSize(limits, betAmount)
+    if (sizeError) {
+      return NextResponse.json(
+        { error: sizeError, limits },
+        { status: 422 }
+      )
+    }
 
-    // Get latest blockhash
-    const { blockhash } = await connection.getLatestBlockhash('confirmed')
-    transaction.recentBlockhash = blockhash
-    transaction.feePayer = bankKeypair.publicKey
+    const account = await getDemoAccount(accountId)
+    if (account.balance < betAmount) {
+      return setDemoSessionCookie(NextResponse.json(
+        { error: 'Insufficient demo balance', demo: true, balance: account.balance },
+        { status: 422 }
+      ), newSessionId)
+    }
 
-    // Sign transaction
-    transaction.sign(bankKeypair)
+    const betId = newDemoBetId()
+    const fairRoll = await rollForPlay(accountId, clientSeed, effectiveWinChance(tier))
+    const { result } = fairRoll
+    const potentialWin = result === 'win' ? betAmount * tier.multiplier : 0
 
-    // Send transaction WITHOUT waiting for confirmation (faster response)
-    const signature = await connection.sendRawTransaction(transaction.serialize(), {
-      skipPreflight: false,
-      preflightCommitment: 'confirmed',
+    const outcome = await recordDemoGame({
+      accountId,
+      betId,
+      result,
+      amount: betAmount,
+      payout: potentialWin,
+      tier: tier.id,
+      fairRoll,
     })
 
-    console.log('Payout sent (not waiting for confirmation):', {
-      winner: winnerAddress,
-      amount,
-      signature,
+    // A concurrent bet spent the balance between the check and the roll
+    if (!outcome.recorded) {
+      return setDemoSessionCookie(NextResponse.json(
+        { error: 'Insufficient demo balance', demo: true, balance: outcome.balance },
+        { status: 422 }
+      ), newSessionId)
+    }
+
+    console.log('Demo game result:', {
+      betId,
+      accountId,
+      betAmount,
+      tier: tier.id,
+      result,
+      roll: fairRoll.roll,
+      nonce: fairRoll.nonce,
     })
 
-    return { success: true, signature }
+    return setDemoSessionCookie(NextResponse.json({
+      success: true,
+      demo: true,
+      signature: betId,
+      status: 'settled',
+      result,
+      betAmount,
+      asset: SOL_ASSET.symbol,
+      tier: tier.id,
+      multiplier: tier.multiplier,
+      potentialWin,
+      fairness: {
+        serverSeedHash: fairRoll.serverSeedHash,
+        clientSeed: fairRoll.clientSeed,
+        nonce: fairRoll.nonce,
+        winChance: fairRoll.winChance,
+      },
+      balance: outcome.balance,
+      processingTime: Date.now() - startTime,
+    }), newSessionId)
 
   } catch (error: any) {
-    console.error('Payout error:', error)
-    return { success: false, error: error.message || 'Payout failed' }
+    console.error('Demo play error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
   }
 }
 
-// ============================================
-// OPEN SOURCE FAIRNESS - 50/50 Logic
-// ============================================
-// The result is determined by a simple 50/50 random chance.
-// Math.random() generates a number between 0 and 1.
-// If the number is less than 0.5, the player wins.
-// This is transparent and verifiable in the source code.
-// ============================================
-function determineResult(): 'win' | 'loss' {
-  const random = Math.random()
-  return random < 0.5 ? 'win' : 'loss'
-}
-
 export async function POST(request: NextRequest) {
   const startTime = Date.now()
-  
+
+  const ipLimited = await rateLimit(request, RATE_LIMITS.playPerIp, getClientIp(request))
+  if (ipLimited) return ipLimited
+
+  if (DEMO_MODE) return playDemo(request)
+
+  // Set once this request owns the deposit signature in the plays ledger
+  let claimedSignature: string | null = null
+  // Set once the play has an outcome (roll or refund) and must not be released for a retry
+  let committed = false
+
   try {
     const body = await request.json()
     const { signature, playerWallet, betAmount } = body
-
-    // Validate input
+    // Player-supplied entropy for the provably fair roll, defaults to the deposit signature
+    const clientSeed: string = body.clientSeed || signature
+    // Bet currency, SOL unless a configured token symbol is given
+    const asset = getBetAsset(body.asset)
+    // Risk tier (win chance and multiplier), the default tier unless one is given
+    const tier = getGameTier(body.tier)
+    // Bet account holding the stake, for SOL bets placed through the escrow program
+    const escrowBet: string | null = ESCROW_ENABLED && !asset?.mint ? body.escrowBet || null : null
+
+    // Validate input - everything here is checked before any database or RPC call
     if (!signature) {
+      return rejectRequest(request, 'Missing transaction signature')
+    }
+
+    if (!isValidSignature(signature)) {
+      return rejectRequest(request, 'Invalid transaction signature')
+    }
+
+    if (!playerWallet) {
+      return rejectRequest(request, 'Missing player wallet address')
+    }
+
+    if (!isValidAddress(playerWallet)) {
+      return rejectRequest(request, 'Invalid player wallet address')
+    }
+
+    // Only the signed-in wallet can claim its deposits (and pick their client seed and tier)
+    const sessionError = requireWalletSession(request, playerWallet)
+    if (sessionError) return sessionError
+
+    // Counted after the session check, so nobody else can use up a wallet's quota
+    const walletLimited = await rateLimit(request, RATE_LIMITS.playPerWallet, playerWallet)
+    if (walletLimited) return walletLimited
+
+    if (typeof betAmount !== 'number' || !(betAmount > 0)) {
+      return rejectRequest(request, 'Invalid bet amount')
+    }
+
+    if (!asset) {
+      return rejectRequest(request, 'Unsupported asset')
+    }
+
+    if (!tier) {
+      return rejectRequest(request, 'Unknown game tier')
+    }
+
+    if (ESCROW_ENABLED && !asset.mint && !isValidAddress(escrowBet)) {
+      return rejectRequest(request, 'Missing escrow bet account')
+    }
+
+    if (typeof clientSeed !== 'string' || clientSeed.length > MAX_CLIENT_SEED_LENGTH) {
+      return rejectRequest(request, `Client seed must be a string of at most ${MAX_CLIENT_SEED_LENGTH} characters`)
+    }
+
+    // Operators can pause new bets. The signature is left unclaimed so the
+    // deposit can still be settled once betting resumes.
+    const betting = await getBettingSettings()
+    if (betting.paused) {
       return NextResponse.json(
-        { error: 'Missing transaction signature' },
-        { status: 400 }
+        { error: 'Betting is paused', reason: betting.reason },
+        { status: 503 }
       )
     }
 
-    if (!playerWallet) {
+    // Step 1: Claim the deposit signature so it can only be settled once
+    let claim: Awaited<ReturnType<typeof claimPlay>>
+    try {
+      claim = await claimPlay(signature, playerWallet, betAmount, asset.symbol, escrowBet)
+    } catch (error: any) {
+      if (error.escrowBetClaimed) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 409 }
+        )
+      }
+      console.error('Failed to claim play:', error)
       return NextResponse.json(
-        { error: 'Missing player wallet address' },
-        { status: 400 }
+        { error: 'Bet ledger unavailable, please retry' },
+        { status: 503 }
       )
     }
 
-    if (!betAmount || betAmount <= 0) {
+    if (!claim.claimed) {
+      if (claim.play.status === 'verifying') {
+        return NextResponse.json(
+          { error: 'This bet is already being processed', status: claim.play.status },
+          { status: 409 }
+        )
+      }
+
+      console.log('Signature already settled, returning stored outcome:', signature)
       return NextResponse.json(
-        { error: 'Invalid bet amount' },
-        { status: 400 }
+        { ...toPlayResponse(claim.play), alreadySettled: true },
+        { status: isRefundStatus(claim.play.status) ? 422 : 200 }
       )
     }
 
+    claimedSignature = signature
+
     // Initialize connection with fallback RPC endpoints
     const connection = await getConnection()
 
-    // Step 1: Verify the transaction on-chain
+    // Step 2: Verify the transaction on-chain
     console.log('Verifying transaction:', signature)
     
-    const verification = await verifyTransaction(
-      connection,
-      signature,
-      playerWallet,
-      betAmount
-    )
+    const verification: DepositVerification = escrowBet
+      ? await verifyEscrowBet(connection, signature, playerWallet, betAmount, escrowBet)
+      : await verifyTransaction(connection, signature, playerWallet, betAmount, asset)
 
     if (!verification.valid) {
       console.error('Transaction verification failed:', verification.error)
+      await updatePlay(signature, {
+        status: 'rejected',
+        error: verification.error || 'Transaction verification failed',
+      })
       return NextResponse.json(
         { error: verification.error || 'Transaction verification failed' },
         { status: 400 }
@@ -214,79 +306,114 @@ export async function POST(request: NextRequest) {
 
     console.log('Transaction verified successfully')
 
-    // Step 2: Determine result using fair 50/50 logic
-    const result = determineResult()
-    const potentialWin = betAmount * 2 // 0% fee - exactly double
+    const potentialWin = betAmount * tier.multiplier
+
+    // Step 3: Enforce bet limits. The deposit has already landed, so a bet
+    // that breaks them (including one below the minimum) is refunded instead
+    // of kept. Only a deposit worth less than the refund's fee is not.
+    const betCheck = await checkBet(connection, playerWallet, betAmount, potentialWin, asset)
+    const refusal = !betCheck.ok
+      ? betCheck.reason
+      : verification.bet
+        ? await checkEscrowTerms(connection, verification.bet, playerWallet, potentialWin)
+        : null
+
+    if (refusal) {
+      committed = true
+
+      if (!isRefundable(betAmount, asset.symbol)) {
+        console.warn('Bet refused, deposit below the refund fee is not refunded:', { signature, playerWallet, betAmount, asset: asset.symbol, reason: refusal })
+        const skipped = await updatePlay(signature, { status: 'refund_skipped', error: refusal })
+        return NextResponse.json(toPlayResponse(skipped), { status: 422 })
+      }
+
+      console.log('Bet refused, refunding deposit:', { signature, playerWallet, betAmount, asset: asset.symbol, reason: refusal })
+      let refundPlay = await updatePlay(signature, { status: 'refund_pending', error: refusal })
+      try {
+        const refund = await createPayout(signature, playerWallet, betAmount, 'refund', asset.symbol, escrowBet)
+        await processPayout(connection, refund.id)
+      } catch (error) {
+        console.error('Refund attempt failed, leaving it to the worker:', error)
+      }
+      refundPlay = (await getPlay(signature)) || refundPlay
+      return NextResponse.json(toPlayResponse(refundPlay), { status: 422 })
+    }
+
+    // Step 4: Determine result using the provably fair roll against the tier's win chance
+    const fairRoll = await rollForPlay(playerWallet, clientSeed, effectiveWinChance(tier))
+    const { result } = fairRoll
+
+    committed = true
+    let play = await updatePlay(signature, {
+      result,
+      payoutAmount: result === 'win' ? potentialWin : 0,
+      // Escrowed losses stay rolled until the stake has moved to the house
+      status: result === 'win' || escrowBet ? 'rolled' : 'settled',
+      seedId: fairRoll.seedId,
+      serverSeedHash: fairRoll.serverSeedHash,
+      clientSeed: fairRoll.clientSeed,
+      nonce: fairRoll.nonce,
+      tier: tier.id,
+      winChance: fairRoll.winChance,
+      multiplier: tier.multiplier,
+    })
 
     console.log('Game result:', {
       signature,
       playerWallet,
       betAmount,
+      asset: asset.symbol,
+      tier: tier.id,
       result,
+      roll: fairRoll.roll,
+      nonce: fairRoll.nonce,
       potentialWin,
       timestamp: new Date().toISOString(),
     })
 
-    // Step 3: If player won, send automatic payout
-    let payoutSignature: string | undefined
-
-    if (result === 'win') {
-      const bankKeypair = getBankKeypair()
-      
-      if (!bankKeypair) {
-        console.error('Bank keypair not available for payout')
-        // Still return win result, but log the payout failure
-        // In production, you might want to handle this differently
-        return NextResponse.json({
-          success: true,
-          result: 'win',
-          betAmount,
-          potentialWin,
-          payoutPending: true,
-          message: 'Payout will be processed manually',
-        })
-      }
-
-      console.log('Sending payout:', potentialWin, 'SOL to', playerWallet)
-      
-      const payout = await sendPayout(
-        connection,
-        bankKeypair,
-        playerWallet,
-        potentialWin
-      )
-
-      if (!payout.success) {
-        console.error('Payout failed:', payout.error)
-        // Return win but indicate payout issue
-        return NextResponse.json({
-          success: true,
-          result: 'win',
-          betAmount,
-          potentialWin,
-          payoutError: payout.error,
-          message: 'You won! Payout will be processed manually.',
-        })
+    // Step 5: If player won (or the bet is escrowed), queue the payout and
+    // make the first attempt. Anything left unconfirmed is retried by the
+    // payout worker.
+    if (result === 'win' || escrowBet) {
+      try {
+        const payout = result === 'win'
+          ? await createPayout(signature, playerWallet, potentialWin, 'win', asset.symbol, escrowBet)
+          : await createPayout(signature, playerWallet, 0, 'loss', asset.symbol, escrowBet)
+        await processPayout(connection, payout.id)
+      } catch (error) {
+        console.error('Payout attempt failed, leaving it to the worker:', error)
       }
-
-      payoutSignature = payout.signature
-      console.log('Payout successful:', payoutSignature)
+      play = (await getPlay(signature)) || play
     }
 
-    // Step 4: Return result to frontend
-    const response = {
-      success: true,
+    // Step 6: Record the settled bet in history and global stats
+    await recordGameResult({
       result,
-      betAmount,
-      potentialWin: result === 'win' ? potentialWin : 0,
-      payoutSignature,
+      amount: betAmount,
+      payout: result === 'win' ? potentialWin : 0,
+      playerWallet,
+      depositSignature: signature,
+      payoutSignature: result === 'win' ? play.payoutSignature || undefined : undefined,
+      asset: asset.symbol,
+    }).catch(error => console.error('Failed to record game result:', error))
+
+    // Step 7: Return result to frontend
+    return NextResponse.json({
+      ...toPlayResponse(play),
       processingTime: Date.now() - startTime,
-    }
-
-    return NextResponse.json(response)
+    })
 
   } catch (error: any) {
     console.error('API error:', error)
+
+    // Release the signature for a retry if we failed before rolling
+    if (claimedSignature && !committed) {
+      await updatePlay(claimedSignature, {
+        status: 'rejected',
+        error: error.message || 'Internal server error',
+      }).catch(err => console.error('Failed to release play:', err))
+    }
+
     return NextResponse.json(
       { error: error.message || 'Internal server error' },
       { status: 500 }
@@ -295,16 +422,96 @@ export async function POST(request: NextRequest) {
 }
 
 // GET endpoint for health check and info
-export async function GET() {
-  const bankKeypair = getBankKeypair()
-  
+// Query: ?asset=SOL&tier=2x selects which asset and tier the limits are for
+export async function GET(request: NextRequest) {
+  const limited = await rateLimit(request, RATE_LIMITS.readPerIp, getClientIp(request))
+  if (limited) return limited
+
+  const searchParams = request.nextUrl.searchParams
+  const asset = getBetAsset(searchParams.get('asset'))
+  if (!asset) {
+    return NextResponse.json(
+      { error: 'Unsupported asset' },
+      { status: 400 }
+    )
+  }
+
+  const tier = getGameTier(searchParams.get('tier'))
+  if (!tier) {
+    return NextResponse.json(
+      { error: 'Unknown game tier' },
+      { status: 400 }
+    )
+  }
+
+  const signer = await getPayoutSigner()
+  const betting = await getBettingSettings().catch((error) => {
+    console.error('Failed to read betting settings:', error)
+    return null
+  })
+
+  if (DEMO_MODE) {
+    if (asset.mint) {
+      return NextResponse.json(
+        { error: 'Demo mode only supports SOL' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      status: 'ok',
+      demo: true,
+      cluster: SOLANA_CLUSTER,
+      paused: betting?.paused ?? false,
+      pausedReason: betting?.reason ?? null,
+      fairness: 'HMAC-SHA256 commit/reveal, verify at /api/fairness/verify',
+      tiers: GAME_TIERS.map(toTierResponse),
+      assets: [SOL_ASSET],
+      escrow: null,
+      limits: getDemoBetLimits(tier.multiplier),
+    })
+  }
+
+  const connection = await getConnection()
+  const limits = await getBetLimits(connection, 0, asset, tier.multiplier)
+    .catch((error) => {
+      console.error('Failed to compute bet limits:', error)
+      return null
+    })
+  const house = ESCROW_ENABLED
+    ? await fetchHouse(connection).catch((error) => {
+      console.error('Failed to read escrow house:', error)
+      return null
+    })
+    : null
+
+  // A breached risk threshold is reported as a pause, but only a bet (checkBet)
+  // writes it to app_settings, so this public read never changes state
+  const risk = limits?.risk ?? null
+  const riskPaused = !!risk?.breach && !betting?.paused
+
   return NextResponse.json({
     status: 'ok',
+    cluster: SOLANA_CLUSTER,
+    paused: riskPaused || (betting?.paused ?? false),
+    pausedReason: riskPaused ? RISK_PAUSE_REASON : betting?.reason ?? null,
     bankWallet: BANK_WALLET_ADDRESS,
     rpcEndpoints: RPC_ENDPOINTS.length,
-    payoutEnabled: !!bankKeypair,
-    fairness: '50/50 - Open source verifiable',
-    fee: '0%',
-    multiplier: '2x',
+    payoutEnabled: !!signer,
+    fairness: 'HMAC-SHA256 commit/reveal, verify at /api/fairness/verify',
+    tiers: GAME_TIERS.map(toTierResponse),
+    assets: BET_ASSETS,
+    // SOL bets are locked in the escrow program instead of sent to the bank wallet
+    escrow: ESCROW_ENABLED
+      ? {
+        programId: ESCROW_PROGRAM_ID!.toBase58(),
+        house: findHouseAddress().toBase58(),
+        initialized: !!house,
+        settleTimeout: house?.settleTimeout ?? null,
+      }
+      : null,
+    // Bankroll risk engine: rolling house P&L, exposure and drawdown (SOL)
+    risk,
+    limits,
   })
 }
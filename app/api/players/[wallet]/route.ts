@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PublicKey } from '@solana/web3.js'
+import { MAX_HISTORY_PAGE_SIZE, getPlayerHistory, getPlayerStats } from '@/lib/players'
+import { getBetAsset } from '@/lib/assets'
+import { getSessionWallet } from '@/lib/session'
+
+function isValidWallet(address: string): boolean {
+  try {
+    new PublicKey(address)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// GET - Lifetime stats in one asset and paginated bet history (all assets) for a wallet.
+// Stats are public (they feed the leaderboard); the history is only returned
+// to a session signed in as the wallet, otherwise `history` is null.
+// Query: ?asset=SOL&page=1&pageSize=20
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { wallet: string } }
+) {
+  if (!isValidWallet(params.wallet)) {
+    return NextResponse.json(
+      { error: 'Invalid wallet address' },
+      { status: 400 }
+    )
+  }
+
+  const searchParams = request.nextUrl.searchParams
+  const asset = getBetAsset(searchParams.get('asset'))
+  if (!asset) {
+    return NextResponse.json(
+      { error: 'Unsupported asset' },
+      { status: 400 }
+    )
+  }
+
+  const page = Math.max(1, Math.floor(Number(searchParams.get('page')) || 1))
+  const pageSize = Math.min(
+    MAX_HISTORY_PAGE_SIZE,
+    Math.max(1, Math.floor(Number(searchParams.get('pageSize')) || 20))
+  )
+
+  try {
+    const isOwner = getSessionWallet(request) === params.wallet
+    const [stats, history] = await Promise.all([
+      getPlayerStats(params.wallet, asset.symbol),
+      isOwner ? getPlayerHistory(params.wallet, page, pageSize) : null,
+    ])
+
+    return NextResponse.json({
+      wallet: params.wallet,
+      asset: asset.symbol,
+      ...stats,
+      history,
+    })
+  } catch (error: any) {
+    console.error('Failed to read player stats:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to read player stats' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAdminRequest, unauthorized } from '@/lib/admin'
+import { rebuildStats } from '@/lib/stats'
+import { rebuildPlayerTotals } from '@/lib/leaderboard'
+
+// POST - Recompute global_stats and the leaderboard aggregates from game_history (admin only)
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) return unauthorized()
+
+  try {
+    const totals = await rebuildStats()
+    const playerDays = await rebuildPlayerTotals()
+
+    console.log('Rebuilt global stats:', totals, 'player days:', playerDays)
+
+    return NextResponse.json({
+      success: true,
+      stats: totals,
+      playerDays,
+    })
+  } catch (error: any) {
+    console.error('Failed to rebuild stats:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to rebuild stats' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  TIMESERIES_BUCKETS,
+  TIMESERIES_RANGE_MS,
+  TimeseriesBucket,
+  TimeseriesPoint,
+  TimeseriesRange,
+  getStatsTimeseries,
+} from '@/lib/stats'
+import { getBetAsset } from '@/lib/assets'
+
+// Hourly buckets are only served for ranges up to 30 days (720 points)
+const MAX_HOURLY_RANGE_MS = TIMESERIES_RANGE_MS['30d']
+
+const CSV_COLUMNS: (keyof TimeseriesPoint)[] = [
+  'bucketStart',
+  'bets',
+  'volume',
+  'payouts',
+  'houseNet',
+  'wins',
+  'winRate',
+  'players',
+]
+
+function toCsv(points: TimeseriesPoint[]): string {
+  const rows = points.map(point => CSV_COLUMNS.map(column => point[column]).join(','))
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n'
+}
+
+// GET - Bucketed volume, payouts, house net, win rate and distinct players
+// Query: ?range=24h|7d|30d|90d|365d&bucket=hour|day&asset=SOL&format=json|csv
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams
+  const range = (searchParams.get('range') || '7d') as TimeseriesRange
+
+  // Own keys only, so names like `constructor` are not read off the prototype
+  if (!Object.hasOwn(TIMESERIES_RANGE_MS, range)) {
+    return NextResponse.json(
+      { error: `range must be one of: ${Object.keys(TIMESERIES_RANGE_MS).join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  const rangeMs = TIMESERIES_RANGE_MS[range]
+  const bucket = (searchParams.get('bucket') || (rangeMs <= TIMESERIES_RANGE_MS['7d'] ? 'hour' : 'day')) as TimeseriesBucket
+
+  if (!TIMESERIES_BUCKETS.includes(bucket)) {
+    return NextResponse.json(
+      { error: `bucket must be one of: ${TIMESERIES_BUCKETS.join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  if (bucket === 'hour' && rangeMs > MAX_HOURLY_RANGE_MS) {
+    return NextResponse.json(
+      { error: 'Hourly buckets are limited to ranges of 30 days or less' },
+      { status: 400 }
+    )
+  }
+
+  const asset = getBetAsset(searchParams.get('asset'))
+  if (!asset) {
+    return NextResponse.json(
+      { error: 'Unsupported asset' },
+      { status: 400 }
+    )
+  }
+
+  const until = new Date()
+  const since = new Date(until.getTime() - rangeMs)
+
+  try {
+    const points = await getStatsTimeseries(bucket, since, until, asset.symbol)
+
+    if (searchParams.get('format') === 'csv') {
+      return new NextResponse(toCsv(points), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="stats-${asset.symbol}-${range}-${bucket}.csv"`,
+        },
+      })
+    }
+
+    return NextResponse.json({
+      range,
+      bucket,
+      asset: asset.symbol,
+      since: since.toISOString(),
+      until: until.toISOString(),
+      points,
+    })
+  } catch (error: any) {
+    console.error('Failed to read stats timeseries:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to read stats timeseries' },
+      { status: 500 }
+    )
+  }
+}
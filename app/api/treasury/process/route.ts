@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAdminRequest, unauthorized } from '@/lib/admin'
+import { getConnection } from '@/lib/solana'
+import { runTreasury } from '@/lib/treasury'
+
+// POST - Run the treasury worker once (admin only, called on a schedule)
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) return unauthorized()
+
+  try {
+    const connection = await getConnection()
+    const run = await runTreasury(connection)
+
+    return NextResponse.json({ success: true, ...run })
+  } catch (error: any) {
+    console.error('Treasury worker error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Treasury worker failed' },
+      { status: 500 }
+    )
+  }
+}
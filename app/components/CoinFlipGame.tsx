@@ -8,18 +8,81 @@ import { useConnection } from '@solana/wallet-adapter-react'
 import { 
   PublicKey, 
   Transaction, 
-  SystemProgram, 
   LAMPORTS_PER_SOL 
 } from '@solana/web3.js'
+import FairnessPanel from './FairnessPanel'
+import { useLiveFeed } from '../hooks/useLiveFeed'
+import { useWalletSession } from '../hooks/useWalletSession'
+import { AIRDROP_ENABLED, AIRDROP_SOL, CLUSTER_LABELS, SOLANA_CLUSTER } from '@/lib/cluster'
+import RecoveredBets, { RecoveredBet } from './RecoveredBets'
+import {
+  BetPhase,
+  PendingBet,
+  listPendingBets,
+  savePendingBet,
+  updatePendingBetPhase,
+  removePendingBet,
+} from '@/lib/pendingBets'
+import { BET_ASSETS, SOL_ASSET, getBetAsset, toBaseUnits, transferInstructions } from '@/lib/assets'
+import {
+  ESCROW_ENABLED,
+  describeEscrowError,
+  findBetAddress,
+  findHouseAddress,
+  newBetId,
+  placeBetInstruction,
+  reclaimInstruction,
+} from '@/lib/escrow'
 
 type GameResult = 'win' | 'loss' | null
 
+type PayoutStatus = 'pending' | 'sent' | 'confirmed' | 'failed'
+
+const PAYOUT_STATUS_TEXT: Record<PayoutStatus, string> = {
+  pending: 'Payout queued...',
+  sent: 'Payout sent, confirming...',
+  confirmed: 'Payout confirmed ✓',
+  failed: 'Payout delayed - flagged for manual processing',
+}
+
 interface GameHistoryItem {
   result: 'win' | 'loss'
   amount: number
+  asset?: string
   timestamp: number
 }
 
+// Bet limits enforced by /api/play, published by GET /api/play
+interface BetLimits {
+  minBet: number
+  maxBet: number
+  maxBetFraction: number
+  bankBalance: number
+  // Cold treasury SOL counted into bankBalance
+  exposedReserve?: number
+}
+
+// Bankroll risk state published by GET /api/play (SOL bank only)
+interface RiskState {
+  houseProfit: number
+  drawdown: number
+  // Share of the normal max bet still offered
+  maxBetScale: number
+  breach: string | null
+}
+
+// Risk tiers advertised by GET /api/play
+interface GameTier {
+  id: string
+  // Chance to win after the house edge
+  winChance: number
+  multiplier: number
+  houseEdge: number
+}
+
+// Used until GET /api/play answers
+const DEFAULT_TIERS: GameTier[] = [{ id: '2x', winChance: 0.5, multiplier: 2, houseEdge: 0 }]
+
 interface Stats {
   totalBets: number
   totalWagered: number
@@ -27,24 +90,205 @@ interface Stats {
   losses: number
 }
 
-// Bank Wallet Address - Set via environment variable or replace here
-const BANK_WALLET_ADDRESS = process.env.NEXT_PUBLIC_BANK_WALLET_ADDRESS || 'YOUR_BANK_WALLET_ADDRESS_HERE'
+// Bank Wallet Address - Set via environment variable
+const BANK_WALLET_ADDRESS = process.env.NEXT_PUBLIC_BANK_WALLET_ADDRESS || ''
+
+// Play money settled by the server (see lib/demo.ts, which decides the same way)
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true' || !BANK_WALLET_ADDRESS
+
+// In escrow mode SOL liquidity sits in the escrow house instead of the bank wallet
+const LIQUIDITY_ADDRESS = ESCROW_ENABLED ? findHouseAddress().toBase58() : BANK_WALLET_ADDRESS
+
+const CLIENT_SEED_STORAGE_KEY = 'don:clientSeed'
+
+// Payout status polling after a win (5s for up to 5 minutes)
+const PAYOUT_POLL_INTERVAL_MS = 5000
+const PAYOUT_POLL_MAX = 60
+
+// /api/play response timeout, then status polling (3s for up to 2 minutes)
+const PLAY_TIMEOUT_MS = 25000
+const PLAY_STATUS_POLL_INTERVAL_MS = 3000
+const PLAY_STATUS_POLL_MAX = 40
+
+interface PlayRequest {
+  signature: string
+  playerWallet: string
+  betAmount: number
+  asset?: string
+  tier?: string
+  escrowBet?: string
+  clientSeed?: string
+}
+
+const PHASE_STATUS_TEXT: Record<BetPhase, string> = {
+  idle: '',
+  preparing: 'Preparing transaction...',
+  awaiting_signature: 'Please approve the transaction...',
+  confirming: 'Transaction sent, confirming...',
+  settling: 'Transaction confirmed! Determining result...',
+  done: '',
+  failed: '',
+}
+
+// Thrown when polling gives up without an answer; the bet stays pending
+const STILL_SETTLING_ERROR = 'Could not confirm the bet result yet - it will appear in your history once settled'
+// Thrown when the server wants a wallet session first; the bet stays pending too
+const SIGN_IN_REQUIRED_ERROR = 'Sign in with your wallet to settle this bet'
+
+const isBetStillPending = (error: any) =>
+  error.message === STILL_SETTLING_ERROR || error.message === SIGN_IN_REQUIRED_ERROR
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// POST a bet to /api/play, aborting after timeoutMs
+async function submitPlay(playRequest: PlayRequest, timeoutMs: number) {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs)
+
+  try {
+    const response = await fetch('/api/play', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(playRequest),
+      signal: controller.signal,
+    })
+    return { status: response.status, data: await response.json() }
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+// Unwrap a settled play response, throwing for rejected or refunded bets
+function settledPlay({ status, data }: { status: number; data: any }) {
+  if (data.signInRequired) throw new Error(SIGN_IN_REQUIRED_ERROR)
+  if (status >= 400 || !data.success) {
+    // Deposits that break the bet limits are refunded by the server
+    if (data.refunded) {
+      throw Object.assign(new Error(`${data.error}. ${data.message}`), { refunded: true })
+    }
+    throw new Error(data.error || 'Failed to determine result')
+  }
+  return data
+}
+
+// Recover the outcome of a bet whose /api/play response was lost by polling
+// GET /api/play/[signature]. Re-submitting is safe: the server returns the
+// stored result instead of rolling again, and a rejected deposit (e.g. one
+// that was not indexed in time) is verified again.
+async function waitForPlayResult(playRequest: PlayRequest) {
+  for (let poll = 0; poll < PLAY_STATUS_POLL_MAX; poll++) {
+    await sleep(PLAY_STATUS_POLL_INTERVAL_MS)
+
+    try {
+      const response = await fetch(`/api/play/${playRequest.signature}`)
+      const data = response.status === 404 ? null : await response.json()
+
+      if (!data || data.status === 'rejected') {
+        // The server never recorded the bet or gave up on it - submit it again
+        const retry = await submitPlay(playRequest, PLAY_TIMEOUT_MS)
+        if (retry.status === 409 || retry.status === 429 || retry.status === 503) continue
+        return settledPlay(retry)
+      }
+
+      if (!response.ok || data.status === 'verifying') continue
+      return settledPlay({ status: response.status, data })
+    } catch (error: any) {
+      // Network trouble or another timeout - keep polling
+      if (error.name !== 'AbortError' && !(error instanceof TypeError)) throw error
+    }
+  }
+
+  throw new Error(STILL_SETTLING_ERROR)
+}
+
+// Random hex client seed for the provably fair roll
+function generateClientSeed() {
+  const bytes = new Uint8Array(16)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')
+}
 
 export default function CoinFlipGame() {
   const { connected, publicKey, sendTransaction } = useWallet()
   const { setVisible } = useWalletModal()
   const { connection } = useConnection()
+  const { ensureSession, sessionChecked, isSignedIn } = useWalletSession()
   
   const [isSpinning, setIsSpinning] = useState(false)
   const [gameResult, setGameResult] = useState<GameResult>(null)
   const [landedSide, setLandedSide] = useState<'DOUBLE' | 'NOTHING' | null>(null)
   const [shouldPulse, setShouldPulse] = useState(false)
   const [betAmount, setBetAmount] = useState('0.1')
+  // Bet currency; the picker only shows when tokens are configured
+  const [assetSymbol, setAssetSymbol] = useState(SOL_ASSET.symbol)
+  const asset = getBetAsset(assetSymbol) || SOL_ASSET
+  // Risk tier (win chance and multiplier), the server's first tier until one is picked
+  const [tiers, setTiers] = useState<GameTier[]>(DEFAULT_TIERS)
+  const [tierId, setTierId] = useState<string | null>(null)
+  const tier = tiers.find(t => t.id === tierId) || tiers[0]
   const [bankLiquidity, setBankLiquidity] = useState<number>(0)
+  // Play-money balance of the demo account (signed-in wallet or anonymous session)
+  const [demoBalance, setDemoBalance] = useState<number | null>(null)
   const [isLoadingLiquidity, setIsLoadingLiquidity] = useState(true)
   const [transactionStatus, setTransactionStatus] = useState<string>('')
   const [errorMessage, setErrorMessage] = useState<string>('')
+  const [phase, setPhase] = useState<BetPhase>('idle')
   const spinStartTimeRef = useRef<number>(0)
+
+  // Provably fair client seed and panel
+  const [clientSeed, setClientSeed] = useState<string>('')
+  const [showFairness, setShowFairness] = useState(false)
+  const [lastSignature, setLastSignature] = useState<string | null>(null)
+
+  useEffect(() => {
+    setClientSeed(localStorage.getItem(CLIENT_SEED_STORAGE_KEY) || generateClientSeed())
+  }, [])
+
+  useEffect(() => {
+    if (clientSeed) localStorage.setItem(CLIENT_SEED_STORAGE_KEY, clientSeed)
+  }, [clientSeed])
+
+  // Payout status of the last win, tracked until it is confirmed or flagged
+  const [payoutStatus, setPayoutStatus] = useState<PayoutStatus | null>(null)
+  const payoutPollRef = useRef<ReturnType<typeof setInterval> | null>(null)
+
+  const stopTrackingPayout = useCallback(() => {
+    if (payoutPollRef.current) {
+      clearInterval(payoutPollRef.current)
+      payoutPollRef.current = null
+    }
+  }, [])
+
+  const trackPayout = useCallback((signature: string) => {
+    stopTrackingPayout()
+    setPayoutStatus('pending')
+
+    let polls = 0
+    const poll = async () => {
+      polls++
+      try {
+        const response = await fetch(`/api/payouts?signature=${signature}`)
+        if (response.ok) {
+          const data = await response.json()
+          setPayoutStatus(data.status)
+          if (data.status === 'confirmed' || data.status === 'failed') {
+            stopTrackingPayout()
+            return
+          }
+        }
+      } catch (error) {
+        console.error('Failed to fetch payout status:', error)
+      }
+      if (polls >= PAYOUT_POLL_MAX) stopTrackingPayout()
+    }
+
+    poll()
+    payoutPollRef.current = setInterval(poll, PAYOUT_POLL_INTERVAL_MS)
+  }, [stopTrackingPayout])
+
+  useEffect(() => stopTrackingPayout, [stopTrackingPayout])
   
   // Game history and stats
   const [gameHistory, setGameHistory] = useState<GameHistoryItem[]>([])
@@ -71,48 +315,22 @@ export default function CoinFlipGame() {
     }
   }, [])
 
-  // Load global stats on mount and poll every 5 seconds
-  useEffect(() => {
-    fetchGlobalStats()
-    const interval = setInterval(fetchGlobalStats, 5000) // Poll every 5 seconds
-    return () => clearInterval(interval)
-  }, [fetchGlobalStats])
-
-  // Save game result to global stats API
-  const saveGameResult = useCallback(async (result: 'win' | 'loss', amount: number) => {
-    try {
-      await fetch('/api/stats', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          result,
-          amount,
-          playerWallet: publicKey?.toString(),
-        }),
-      })
-      
-      // Refresh stats immediately
-      fetchGlobalStats()
-    } catch (error) {
-      console.error('Failed to save game result:', error)
-    }
-  }, [publicKey, fetchGlobalStats])
-
   // Fetch bank liquidity
   const fetchBankLiquidity = useCallback(async () => {
     try {
       setIsLoadingLiquidity(true)
       
-      // Check if we have a valid bank wallet address
-      if (BANK_WALLET_ADDRESS === 'YOUR_BANK_WALLET_ADDRESS_HERE') {
-        setBankLiquidity(100) // Default value for demo
-        setIsLoadingLiquidity(false)
+      // Demo mode plays against a virtual bank
+      if (DEMO_MODE) {
+        const response = await fetch('/api/demo')
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to load demo balance')
+        setBankLiquidity(data.bankBalance)
+        setDemoBalance(data.balance)
         return
       }
       
-      const bankPubkey = new PublicKey(BANK_WALLET_ADDRESS)
+      const bankPubkey = new PublicKey(LIQUIDITY_ADDRESS)
       const balance = await connection.getBalance(bankPubkey)
       const solBalance = balance / LAMPORTS_PER_SOL
       setBankLiquidity(solBalance)
@@ -124,87 +342,382 @@ export default function CoinFlipGame() {
     }
   }, [connection])
 
-  // Fetch liquidity on mount and periodically
+  // New bets, stats and bank balance are pushed as they happen; the feed
+  // falls back to polling /api/stats and the balance while it is down
+  const { live } = useLiveFeed({
+    connection,
+    bankAddress: DEMO_MODE ? null : LIQUIDITY_ADDRESS,
+    demo: DEMO_MODE,
+    onGame: (game) => {
+      setGameHistory(prev => [game, ...prev.filter(g => g.timestamp !== game.timestamp)].slice(0, 10))
+    },
+    onStats: setStats,
+    onBankBalance: (sol) => {
+      setBankLiquidity(sol)
+      setIsLoadingLiquidity(false)
+    },
+    refreshStats: fetchGlobalStats,
+    refreshBalance: fetchBankLiquidity,
+  })
+
+  // Server-side game info (operator pause switch and bet limits)
+  const [pausedReason, setPausedReason] = useState<string | null>(null)
+  const [isPaused, setIsPaused] = useState(false)
+  const [limits, setLimits] = useState<BetLimits | null>(null)
+  const [risk, setRisk] = useState<RiskState | null>(null)
+
+  const fetchPlayInfo = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/play?asset=${encodeURIComponent(assetSymbol)}&tier=${encodeURIComponent(tier.id)}`)
+      const data = await response.json()
+      setIsPaused(!!data.paused)
+      setPausedReason(data.pausedReason || null)
+      if (data.limits) setLimits(data.limits)
+      setRisk(data.risk || null)
+      if (data.tiers?.length) setTiers(data.tiers)
+    } catch (error) {
+      console.error('Failed to fetch game info:', error)
+    }
+  }, [assetSymbol, tier.id])
+
   useEffect(() => {
-    fetchBankLiquidity()
-    
-    // Refresh every 30 seconds
-    const interval = setInterval(fetchBankLiquidity, 30000)
+    fetchPlayInfo()
+    const interval = setInterval(fetchPlayInfo, 30000)
     return () => clearInterval(interval)
-  }, [fetchBankLiquidity])
+  }, [fetchPlayInfo])
 
-  // Calculate max bet (10% of bank liquidity)
-  const maxBet = bankLiquidity * 0.1
+  // Max bet comes from the server, which enforces it against the live bank
+  // balance minus pending payouts
+  const maxBet = limits?.maxBet ?? 0
+  const minBet = limits?.minBet ?? 0
 
   // Auto-fill bet amount with max bet when liquidity is loaded
   const hasSetInitialBet = useRef(false)
+
+  // Limits differ per asset - drop the old ones and suggest a fresh bet
+  const selectAsset = (symbol: string) => {
+    if (symbol === assetSymbol) return
+    setAssetSymbol(symbol)
+    setLimits(null)
+    setErrorMessage('')
+    hasSetInitialBet.current = false
+  }
+
+  // SOL liquidity is pushed live (plus any exposed cold reserve); token
+  // balances come with the bet limits
+  const bankBalance = asset.mint ? limits?.bankBalance ?? 0 : bankLiquidity + (limits?.exposedReserve ?? 0)
   useEffect(() => {
-    if (!isLoadingLiquidity && maxBet > 0 && !hasSetInitialBet.current) {
+    if (limits && maxBet > 0 && !hasSetInitialBet.current) {
       // Set to max bet, rounded to 4 decimal places
       const suggestedBet = Math.floor(maxBet * 10000) / 10000
       setBetAmount(suggestedBet.toString())
       hasSetInitialBet.current = true
     }
-  }, [isLoadingLiquidity, maxBet])
+  }, [limits, maxBet])
   const betAmountNum = Number(betAmount) || 0
   const isBetTooHigh = betAmountNum > maxBet && maxBet > 0
-  const potentialWin = betAmountNum * 2
+  const isBetTooLow = betAmountNum > 0 && betAmountNum < minBet
+  const potentialWin = betAmountNum * tier.multiplier
+  // SOL bets go through the escrow program when it is configured
+  const useEscrow = ESCROW_ENABLED && !asset.mint
+
+  // Signing in moves demo play from the anonymous session to the wallet's account
+  useEffect(() => {
+    if (DEMO_MODE) fetchBankLiquidity()
+  }, [isSignedIn, fetchBankLiquidity])
+
+  const [isResettingDemo, setIsResettingDemo] = useState(false)
+
+  const resetDemoBalance = async () => {
+    setIsResettingDemo(true)
+    setErrorMessage('')
+    try {
+      const response = await fetch('/api/demo', { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to reset demo balance')
+      setDemoBalance(data.balance)
+    } catch (error: any) {
+      setErrorMessage(error.message || 'Failed to reset demo balance')
+    } finally {
+      setIsResettingDemo(false)
+    }
+  }
 
   // Handle wallet connect
   const handleConnectWallet = () => {
     setVisible(true)
   }
 
+  // Free SOL for test runs on devnet and localnet
+  const [isAirdropping, setIsAirdropping] = useState(false)
+
+  const requestAirdrop = async () => {
+    if (!publicKey || isAirdropping) return
+    setIsAirdropping(true)
+    setErrorMessage('')
+    setTransactionStatus(`Requesting ${AIRDROP_SOL} SOL airdrop...`)
+
+    try {
+      const signature = await connection.requestAirdrop(publicKey, AIRDROP_SOL * LAMPORTS_PER_SOL)
+      const confirmation = await connection.confirmTransaction(signature, 'confirmed')
+      if (confirmation.value.err) throw new Error('Airdrop transaction failed')
+      setTransactionStatus(`Received ${AIRDROP_SOL} SOL on ${CLUSTER_LABELS[SOLANA_CLUSTER]}`)
+    } catch (error: any) {
+      // The public devnet faucet is rate limited
+      setTransactionStatus('')
+      setErrorMessage(`Airdrop failed: ${error.message || 'faucet unavailable'}`)
+    } finally {
+      setIsAirdropping(false)
+    }
+  }
+
+  // Bets picked up from localStorage after a reload, disconnect or lost response
+  const [recoveredBets, setRecoveredBets] = useState<RecoveredBet[]>([])
+  // Deposit signatures currently being settled, so a bet is never settled twice at once
+  const inFlightRef = useRef<Set<string>>(new Set())
+
+  const setRecoveredBet = useCallback((bet: RecoveredBet) => {
+    setRecoveredBets(prev => [...prev.filter(b => b.signature !== bet.signature), bet])
+  }, [])
+
+  const dismissRecoveredBet = (signature: string) => {
+    setRecoveredBets(prev => prev.filter(b => b.signature !== signature))
+  }
+
+  // Finish settling a pending bet. It is only forgotten once the server has
+  // answered for it; otherwise it is retried on the next visit.
+  const recoverBet = useCallback(async (bet: PendingBet) => {
+    if (inFlightRef.current.has(bet.signature)) return
+    inFlightRef.current.add(bet.signature)
+
+    const betAsset = bet.asset || SOL_ASSET.symbol
+    const recovered = { signature: bet.signature, betAmount: bet.betAmount, asset: betAsset, escrowBet: bet.escrowBet }
+    setRecoveredBet({ ...recovered, state: 'settling' })
+
+    try {
+      const data = await waitForPlayResult({
+        signature: bet.signature,
+        playerWallet: bet.wallet,
+        betAmount: bet.betAmount,
+        asset: betAsset,
+        tier: bet.tier,
+        escrowBet: bet.escrowBet,
+        clientSeed: bet.clientSeed,
+      })
+      removePendingBet(bet.wallet, bet.signature)
+      setRecoveredBet({
+        ...recovered,
+        state: data.result === 'win' ? 'win' : 'loss',
+        message: data.result === 'win' ? `+${Number(data.potentialWin).toFixed(2)} ${betAsset}` : undefined,
+      })
+      fetchGlobalStats()
+    } catch (error: any) {
+      if (isBetStillPending(error)) {
+        setRecoveredBet({
+          ...recovered,
+          state: 'pending',
+          message: error.message === SIGN_IN_REQUIRED_ERROR ? error.message : 'Will retry on your next visit',
+        })
+      } else {
+        removePendingBet(bet.wallet, bet.signature)
+        setRecoveredBet({ ...recovered, state: error.refunded ? 'refunded' : 'failed', message: error.message })
+      }
+    } finally {
+      inFlightRef.current.delete(bet.signature)
+    }
+  }, [setRecoveredBet, fetchGlobalStats])
+
+  // Take an unsettled escrow bet's stake back once the house's settle timeout has passed
+  const reclaimBet = async (signature: string) => {
+    const bet = recoveredBets.find(b => b.signature === signature)
+    if (!bet?.escrowBet || !publicKey) return
+
+    setRecoveredBet({ ...bet, state: 'settling', message: 'Reclaiming stake...' })
+    try {
+      const transaction = new Transaction().add(reclaimInstruction(publicKey, new PublicKey(bet.escrowBet)))
+      const { blockhash } = await connection.getLatestBlockhash()
+      transaction.recentBlockhash = blockhash
+      transaction.feePayer = publicKey
+
+      const reclaimSignature = await sendTransaction(transaction, connection)
+      const confirmation = await connection.confirmTransaction(reclaimSignature, 'confirmed')
+      if (confirmation.value.err) throw new Error('Reclaim transaction failed')
+
+      removePendingBet(publicKey.toString(), signature)
+      setRecoveredBet({ ...bet, state: 'refunded', message: 'Stake reclaimed from escrow' })
+      fetchBankLiquidity()
+    } catch (error: any) {
+      setRecoveredBet({ ...bet, message: describeEscrowError(error) })
+    }
+  }
+
+  // Resume the wallet's unfinished bets on load and whenever it reconnects.
+  // Settling needs a wallet session, so sign in first if there are any.
+  useEffect(() => {
+    if (!publicKey || !sessionChecked || DEMO_MODE) return
+    const pending = listPendingBets(publicKey.toString())
+    if (pending.length === 0) return
+
+    ensureSession()
+      .then(signedIn => { if (signedIn) pending.forEach(bet => recoverBet(bet)) })
+      .catch(error => {
+        console.error('Sign-in for bet recovery failed:', error)
+        pending.forEach(bet => setRecoveredBet({
+          signature: bet.signature,
+          betAmount: bet.betAmount,
+          asset: bet.asset || SOL_ASSET.symbol,
+          escrowBet: bet.escrowBet,
+          state: 'pending',
+          message: SIGN_IN_REQUIRED_ERROR,
+        }))
+      })
+  }, [publicKey, sessionChecked, ensureSession, recoverBet, setRecoveredBet])
+
+  // Advance the play state machine along with its status line
+  const moveTo = (next: BetPhase, status = PHASE_STATUS_TEXT[next]) => {
+    setPhase(next)
+    setTransactionStatus(status)
+  }
+
+  const isBusy = phase === 'preparing' || phase === 'awaiting_signature' || phase === 'confirming' || phase === 'settling'
+
+  // Only offer the sign-in prompt once per visit in demo mode; declining keeps
+  // playing on the anonymous session
+  const demoSignInAskedRef = useRef(false)
+
+  // Demo bets need no transaction: the server rolls them and settles them
+  // against the play-money balance
+  const playDemoGame = async () => {
+    try {
+      if (publicKey && !demoSignInAskedRef.current) {
+        demoSignInAskedRef.current = true
+        setTransactionStatus('Sign in to keep your demo balance with your wallet...')
+        await ensureSession().catch(error => console.warn('Demo sign-in skipped:', error.message))
+      }
+
+      moveTo('settling', 'Demo mode - flipping with play money...')
+      startSpinAnimation()
+
+      const response = await fetch('/api/play', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          betAmount: betAmountNum,
+          tier: tier.id,
+          clientSeed: clientSeed || undefined,
+        }),
+      })
+      const data = await response.json()
+      if (typeof data.balance === 'number') setDemoBalance(data.balance)
+      if (!response.ok || !data.success) throw new Error(data.error || 'Failed to determine result')
+
+      const elapsedTime = Date.now() - spinStartTimeRef.current
+      const remainingTime = Math.max(0, 3500 - elapsedTime)
+
+      setTimeout(() => {
+        finishGame(data.result as GameResult)
+        moveTo('done')
+      }, remainingTime)
+    } catch (error: any) {
+      console.error('Demo game error:', error)
+      setIsSpinning(false)
+      moveTo('failed')
+      setErrorMessage(error.message || 'Demo bet failed')
+    }
+  }
+
   // Play the game
   const playGame = async () => {
-    if (isSpinning || !connected || !publicKey || !betAmount || betAmountNum <= 0) return
+    if (isBusy || isSpinning || !betAmount || betAmountNum <= 0) return
+    if (!DEMO_MODE && (!connected || !publicKey)) return
+    if (isPaused) {
+      setErrorMessage(`Bets paused${pausedReason ? `: ${pausedReason}` : ''}`)
+      return
+    }
     if (isBetTooHigh) {
-      setErrorMessage(`Max bet is ${maxBet.toFixed(4)} SOL (10% of bank liquidity)`)
+      setErrorMessage(`Max bet is ${maxBet.toFixed(4)} ${asset.symbol}`)
+      return
+    }
+    if (isBetTooLow) {
+      setErrorMessage(`Min bet is ${minBet} ${asset.symbol}`)
       return
     }
 
     setErrorMessage('')
-    setTransactionStatus('Preparing transaction...')
+
+    if (DEMO_MODE) {
+      await playDemoGame()
+      return
+    }
+
+    moveTo('preparing')
+
+    const wallet = publicKey.toString()
+    let pendingBet: PendingBet | null = null
 
     try {
-      // Check if we have a valid bank wallet address
-      if (BANK_WALLET_ADDRESS === 'YOUR_BANK_WALLET_ADDRESS_HERE') {
-        // Demo mode - skip actual transaction
-        setTransactionStatus('Demo mode - starting game...')
-        startSpinAnimation()
-        
-        // Simulate API call
-        setTimeout(async () => {
-          const result = Math.random() < 0.5 ? 'win' : 'loss'
-          finishGame(result as GameResult)
-        }, 3500)
-        return
-      }
+      // The server only settles deposits for the signed-in wallet - sign in
+      // before any funds move
+      setTransactionStatus('Please sign in with your wallet...')
+      await ensureSession()
 
       const bankPubkey = new PublicKey(BANK_WALLET_ADDRESS)
-      const lamports = Math.floor(betAmountNum * LAMPORTS_PER_SOL)
-
-      // Create transaction
-      const transaction = new Transaction().add(
-        SystemProgram.transfer({
-          fromPubkey: publicKey,
-          toPubkey: bankPubkey,
-          lamports,
-        })
-      )
+      const transaction = new Transaction()
+      let escrowBet: string | undefined
+
+      if (useEscrow) {
+        // Lock the stake and the house's share of the payout in the escrow
+        // program, committed to the server seed the flip will be rolled with
+        const fairness = await fetch(`/api/fairness?wallet=${wallet}`).then(response => response.json())
+        if (!fairness.serverSeedHash) {
+          throw new Error(fairness.error || 'Could not load the server seed commitment')
+        }
+
+        const betId = newBetId()
+        escrowBet = findBetAddress(publicKey, betId).toBase58()
+        transaction.add(placeBetInstruction({
+          player: publicKey,
+          betId,
+          stake: toBaseUnits(betAmountNum, asset),
+          payout: toBaseUnits(potentialWin, asset),
+          commitment: fairness.serverSeedHash,
+        }))
+      } else {
+        // A plain transfer for SOL, a token account transfer (creating the
+        // bank's account if needed) for SPL tokens
+        transaction.add(...transferInstructions(asset, publicKey, bankPubkey, betAmountNum))
+      }
 
       // Get latest blockhash
       const { blockhash } = await connection.getLatestBlockhash()
       transaction.recentBlockhash = blockhash
       transaction.feePayer = publicKey
 
-      setTransactionStatus('Please approve the transaction...')
+      moveTo('awaiting_signature')
 
       // Send transaction
       const signature = await sendTransaction(transaction, connection)
+
+      // The deposit may land from here on - remember it until the server has
+      // answered, so a reload or disconnect cannot lose the bet
+      pendingBet = {
+        signature,
+        wallet,
+        betAmount: betAmountNum,
+        asset: asset.symbol,
+        tier: tier.id,
+        escrowBet,
+        clientSeed: clientSeed || undefined,
+        phase: 'confirming',
+        createdAt: Date.now(),
+      }
+      savePendingBet(pendingBet)
+      inFlightRef.current.add(signature)
       
       // Start spinning immediately after user approves
-      setTransactionStatus('Transaction sent, confirming...')
+      moveTo('confirming')
       startSpinAnimation()
 
       // Play sound
@@ -218,65 +731,73 @@ export default function CoinFlipGame() {
         throw new Error('Transaction failed')
       }
 
-      setTransactionStatus('Transaction confirmed! Determining result...')
+      updatePendingBetPhase(wallet, signature, 'settling')
+      pendingBet.phase = 'settling'
+      moveTo('settling')
 
       // Call backend API to determine result (with timeout)
-      const controller = new AbortController()
-      const timeoutId = setTimeout(() => controller.abort(), 25000) // 25 second timeout
+      const playRequest = {
+        signature,
+        playerWallet: wallet,
+        betAmount: betAmountNum,
+        asset: asset.symbol,
+        tier: tier.id,
+        escrowBet,
+        clientSeed: pendingBet.clientSeed,
+      }
 
+      let response: Awaited<ReturnType<typeof submitPlay>> | null = null
       try {
-        const response = await fetch('/api/play', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            signature,
-            playerWallet: publicKey.toString(),
-            betAmount: betAmountNum,
-          }),
-          signal: controller.signal,
-        })
-        clearTimeout(timeoutId)
+        response = await submitPlay(playRequest, PLAY_TIMEOUT_MS)
+      } catch (fetchError: any) {
+        if (fetchError.name !== 'AbortError' && !(fetchError instanceof TypeError)) throw fetchError
+      }
 
-        const data = await response.json()
-      
-        if (!response.ok) {
-          throw new Error(data.error || 'Failed to determine result')
-        }
+      let data: any
+      if (response && response.status !== 429) {
+        data = settledPlay(response)
+      } else {
+        // Timeout, dropped connection or rate limited - the deposit is
+        // on-chain, so look up what the server recorded
+        setTransactionStatus('Still settling, checking bet status...')
+        data = await waitForPlayResult(playRequest)
+      }
 
-        // Wait for animation to complete before showing result
-        const elapsedTime = Date.now() - spinStartTimeRef.current
-        const remainingTime = Math.max(0, 3500 - elapsedTime)
-        
-        setTimeout(() => {
-          finishGame(data.result as GameResult)
-          setTransactionStatus('')
-        }, remainingTime)
+      removePendingBet(wallet, signature)
+      inFlightRef.current.delete(signature)
 
-      } catch (fetchError: any) {
-        clearTimeout(timeoutId)
-        if (fetchError.name === 'AbortError') {
-          // Timeout - but transaction was sent, so assume it might have worked
-          setTransactionStatus('Response timeout - check your wallet for result')
-          setTimeout(() => {
-            setIsSpinning(false)
-            setTransactionStatus('')
-          }, 3000)
-          return
-        }
-        throw fetchError
-      }
+      // Wait for animation to complete before showing result
+      const elapsedTime = Date.now() - spinStartTimeRef.current
+      const remainingTime = Math.max(0, 3500 - elapsedTime)
+      
+      setTimeout(() => {
+        finishGame(data.result as GameResult)
+        setLastSignature(signature)
+        if (data.result === 'win') trackPayout(signature)
+        moveTo('done')
+      }, remainingTime)
 
     } catch (error: any) {
       console.error('Game error:', error)
       setIsSpinning(false)
-      setTransactionStatus('')
+      moveTo('failed')
       
       if (error.message?.includes('User rejected')) {
         setErrorMessage('Transaction cancelled')
       } else {
-        setErrorMessage(error.message || 'Transaction failed')
+        setErrorMessage(useEscrow ? describeEscrowError(error) : error.message || 'Transaction failed')
+      }
+
+      if (pendingBet) {
+        inFlightRef.current.delete(pendingBet.signature)
+
+        if (pendingBet.phase === 'confirming') {
+          // Confirmation failed, but the deposit may still land - keep settling it
+          recoverBet(pendingBet)
+        } else if (!isBetStillPending(error)) {
+          // The server answered for this bet - nothing left to resume
+          removePendingBet(wallet, pendingBet.signature)
+        }
       }
     }
   }
@@ -285,6 +806,8 @@ export default function CoinFlipGame() {
     setIsSpinning(true)
     setGameResult(null)
     setLandedSide(null)
+    setPayoutStatus(null)
+    stopTrackingPayout()
     spinStartTimeRef.current = Date.now()
   }
 
@@ -295,10 +818,8 @@ export default function CoinFlipGame() {
     setLandedSide(finalSide)
     setGameResult(result)
     
-    // Save to history
-    if (result) {
-      saveGameResult(result, betAmountNum)
-    }
+    // Results are recorded server-side by /api/play - just refresh
+    fetchGlobalStats()
     
     // Pulse coin animation when result is shown
     setShouldPulse(true)
@@ -306,8 +827,9 @@ export default function CoinFlipGame() {
       setShouldPulse(false)
     }, 2000)
 
-    // Refresh bank liquidity after game
+    // Refresh bank liquidity and limits after game
     fetchBankLiquidity()
+    fetchPlayInfo()
   }
 
   // Format SOL display
@@ -337,6 +859,14 @@ export default function CoinFlipGame() {
           fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", "Helvetica Neue", Arial, sans-serif',
         }}
       >
+        <span
+          className={`text-[10px] sm:text-[11px] font-semibold px-2 py-0.5 rounded-full ${
+            SOLANA_CLUSTER === 'mainnet-beta' ? 'bg-gray-100 text-gray-500' : 'bg-amber-100 text-amber-700'
+          }`}
+          title={`Connected to Solana ${CLUSTER_LABELS[SOLANA_CLUSTER]}`}
+        >
+          {CLUSTER_LABELS[SOLANA_CLUSTER]}
+        </span>
         <a 
           href="#" 
           className="text-[11px] sm:text-xs text-gray-500 hover:text-gray-800 transition-colors duration-200 font-medium"
@@ -361,6 +891,35 @@ export default function CoinFlipGame() {
         >
           GitHub
         </a>
+        <a 
+          href="/leaderboard" 
+          className="text-[11px] sm:text-xs text-gray-500 hover:text-gray-800 transition-colors duration-200 font-medium"
+        >
+          Leaderboard
+        </a>
+        <a 
+          href="/stats" 
+          className="text-[11px] sm:text-xs text-gray-500 hover:text-gray-800 transition-colors duration-200 font-medium"
+        >
+          Stats
+        </a>
+        {publicKey && (
+          <a 
+            href={`/player/${publicKey.toString()}`} 
+            className="text-[11px] sm:text-xs text-gray-500 hover:text-gray-800 transition-colors duration-200 font-medium"
+          >
+            My Stats
+          </a>
+        )}
+        {AIRDROP_ENABLED && publicKey && (
+          <button
+            onClick={requestAirdrop}
+            disabled={isAirdropping || isBusy}
+            className="text-[11px] sm:text-xs text-amber-700 hover:text-amber-900 disabled:text-gray-400 transition-colors duration-200 font-medium"
+          >
+            {isAirdropping ? 'Airdropping...' : `Airdrop ${AIRDROP_SOL} SOL`}
+          </button>
+        )}
       </nav>
 
       {/* Last Results - Top Right Corner */}
@@ -380,7 +939,7 @@ export default function CoinFlipGame() {
                   game.result === 'win' ? 'bg-green-400' : 'bg-red-400'
                 }`}
                 style={{ opacity: 1 - (i * 0.1) }}
-                title={`${game.result === 'win' ? 'Won' : 'Lost'} ${game.amount.toFixed(2)} SOL`}
+                title={`${game.result === 'win' ? 'Won' : 'Lost'} ${game.amount.toFixed(2)} ${game.asset || 'SOL'}`}
               />
             ))}
           </div>
@@ -399,11 +958,12 @@ export default function CoinFlipGame() {
         <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-1 mb-8 sm:mb-16">
           <div className="flex items-center gap-2">
             <div
-              className="w-1.5 h-1.5 sm:w-2 sm:h-2 rounded-full bg-green-500"
+              className={`w-1.5 h-1.5 sm:w-2 sm:h-2 rounded-full ${live ? 'bg-green-500' : 'bg-gray-400'}`}
               style={{
                 animation: 'pulseDot 2s ease-in-out infinite',
-                boxShadow: '0 0 8px rgba(34, 197, 94, 0.6)',
+                boxShadow: live ? '0 0 8px rgba(34, 197, 94, 0.6)' : 'none',
               }}
+              title={live ? 'Live' : 'Reconnecting - updating every few seconds'}
             />
             <span
               className="text-xs sm:text-sm text-gray-600 font-medium"
@@ -412,12 +972,24 @@ export default function CoinFlipGame() {
                 letterSpacing: '-0.2px',
               }}
             >
-              {isLoadingLiquidity ? (
+              {isLoadingLiquidity || (asset.mint && !limits) ? (
                 'Loading...'
+              ) : DEMO_MODE ? (
+                `Demo balance: ${formatSol(demoBalance ?? 0)} ${asset.symbol}`
               ) : (
-                `Bank: ${formatSol(bankLiquidity)} SOL`
+                `Bank: ${formatSol(bankBalance)} ${asset.symbol}`
               )}
             </span>
+            {DEMO_MODE && (
+              <button
+                onClick={resetDemoBalance}
+                disabled={isResettingDemo || isSpinning || isBusy}
+                className="text-[10px] sm:text-xs text-gray-400 hover:text-gray-700 underline decoration-dotted transition-colors duration-200 disabled:cursor-not-allowed"
+                title="Reset your play money to the starting balance"
+              >
+                Reset
+              </button>
+            )}
           </div>
           
           {stats.totalBets > 0 && (
@@ -541,23 +1113,80 @@ export default function CoinFlipGame() {
           </div>
         </div>
 
+        {/* Tier Picker - win chance and multiplier */}
+        {tiers.length > 1 && (
+          <div
+            className="flex items-center justify-center gap-1.5 mb-2"
+            style={{
+              fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", "Helvetica Neue", Arial, sans-serif',
+            }}
+          >
+            {tiers.map((option) => (
+              <button
+                key={option.id}
+                onClick={() => setTierId(option.id)}
+                disabled={isSpinning || isBusy}
+                title={option.houseEdge > 0 ? `${option.houseEdge * 100}% house edge` : 'No house edge'}
+                className={`px-3 py-1 rounded-full text-[11px] sm:text-xs font-medium border transition-colors duration-200 disabled:cursor-not-allowed ${
+                  option.id === tier.id
+                    ? 'bg-gray-900 border-gray-900 text-white'
+                    : 'bg-white border-gray-300 text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {option.multiplier}x · {+(option.winChance * 100).toFixed(2)}%
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Asset Picker - only when SPL tokens are configured (demo bets are SOL only) */}
+        {!DEMO_MODE && BET_ASSETS.length > 1 && (
+          <div
+            className="flex items-center justify-center gap-1.5"
+            style={{
+              fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", "Helvetica Neue", Arial, sans-serif',
+            }}
+          >
+            {BET_ASSETS.map((option) => (
+              <button
+                key={option.symbol}
+                onClick={() => selectAsset(option.symbol)}
+                disabled={isSpinning || isBusy}
+                className={`px-3 py-1 rounded-full text-[11px] sm:text-xs font-medium border transition-colors duration-200 disabled:cursor-not-allowed ${
+                  option.symbol === asset.symbol
+                    ? 'bg-gray-900 border-gray-900 text-white'
+                    : 'bg-white border-gray-300 text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {option.symbol}
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Combined Bet Input & Button - Apple OS Style */}
         <div 
-          className={`flex flex-col sm:flex-row items-center justify-center mt-6 sm:mt-10 bg-white border rounded-3xl sm:rounded-full overflow-hidden shadow-lg focus-within:ring-2 focus-within:ring-gray-400 focus-within:border-transparent transition-all duration-200 w-full max-w-[320px] sm:max-w-none sm:w-auto mx-auto ${isBetTooHigh ? 'border-red-400' : 'border-gray-300'}`}
+          className={`flex flex-col sm:flex-row items-center justify-center mt-6 sm:mt-10 bg-white border rounded-3xl sm:rounded-full overflow-hidden shadow-lg focus-within:ring-2 focus-within:ring-gray-400 focus-within:border-transparent transition-all duration-200 w-full max-w-[320px] sm:max-w-none sm:w-auto mx-auto ${isBetTooHigh || isBetTooLow ? 'border-red-400' : 'border-gray-300'}`}
           style={{
             boxShadow: '0 2px 8px 0 rgba(0, 0, 0, 0.08)',
           }}
         >
           {/* Bet Amount Input */}
           <div className="relative flex items-center w-full sm:w-auto">
-            <Image
-              src="/solana.png"
-              alt="SOL"
-              width={16}
-              height={16}
-              className="absolute left-4 sm:left-5 pointer-events-none z-10 w-4 h-4 sm:w-5 sm:h-5"
-              unoptimized
-            />
+            {asset.mint ? (
+              <span className="absolute left-4 sm:left-5 pointer-events-none z-10 text-[10px] sm:text-xs font-semibold text-gray-500">
+                {asset.symbol}
+              </span>
+            ) : (
+              <Image
+                src="/solana.png"
+                alt="SOL"
+                width={16}
+                height={16}
+                className="absolute left-4 sm:left-5 pointer-events-none z-10 w-4 h-4 sm:w-5 sm:h-5"
+                unoptimized
+              />
+            )}
             <input
               type="number"
               value={betAmount}
@@ -574,9 +1203,9 @@ export default function CoinFlipGame() {
                   setBetAmount('0.1')
                 }
               }}
-              disabled={isSpinning}
+              disabled={isSpinning || isBusy}
               placeholder="0.1"
-              className="bg-transparent border-none py-3 sm:py-5 pl-9 sm:pl-10 pr-4 sm:pr-5 text-base sm:text-lg font-medium text-gray-900 w-full sm:w-32 text-center focus:outline-none disabled:text-gray-400 disabled:cursor-not-allowed"
+              className={`bg-transparent border-none py-3 sm:py-5 ${asset.mint ? 'pl-14 sm:pl-16' : 'pl-9 sm:pl-10'} pr-4 sm:pr-5 text-base sm:text-lg font-medium text-gray-900 w-full sm:w-32 text-center focus:outline-none disabled:text-gray-400 disabled:cursor-not-allowed`}
               style={{
                 fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", "Helvetica Neue", Arial, sans-serif',
                 letterSpacing: '0.3px',
@@ -589,8 +1218,8 @@ export default function CoinFlipGame() {
           {/* Divider */}
           <div className="w-full sm:w-px h-px sm:h-8 bg-gray-300" />
 
-          {/* Wallet Connect / Flip Button */}
-          {!connected ? (
+          {/* Wallet Connect / Flip Button - demo play needs no wallet */}
+          {!connected && !DEMO_MODE ? (
             <button
               onClick={handleConnectWallet}
               className="relative bg-transparent hover:bg-gray-50 active:bg-gray-100 border-none py-3 sm:py-5 px-6 sm:px-8 text-sm sm:text-lg font-semibold cursor-pointer text-gray-900 transition-all duration-200 tracking-wide w-full sm:w-auto"
@@ -604,7 +1233,7 @@ export default function CoinFlipGame() {
           ) : (
             <button
               onClick={playGame}
-              disabled={isSpinning || !betAmount || betAmountNum <= 0 || isBetTooHigh}
+              disabled={isSpinning || isBusy || !betAmount || betAmountNum <= 0 || isBetTooHigh || isBetTooLow || isPaused}
               className="relative bg-transparent hover:bg-gray-50 active:bg-gray-100 disabled:bg-transparent disabled:cursor-not-allowed border-none py-3 sm:py-5 px-4 sm:px-8 text-sm sm:text-lg font-semibold cursor-pointer text-gray-900 transition-all duration-200 tracking-wide disabled:text-gray-400 disabled:hover:bg-transparent w-full sm:w-auto whitespace-nowrap"
               style={{ 
                 letterSpacing: '0.3px',
@@ -613,9 +1242,13 @@ export default function CoinFlipGame() {
             >
               {isSpinning 
                 ? 'Spinning...'
-                : betAmountNum > 0 
-                  ? `Double (${(potentialWin).toFixed(2)}) or Nothing`
-                  : 'Double or Nothing'
+                : isBusy
+                  ? 'Waiting...'
+                  : isPaused
+                    ? 'Bets paused'
+                    : betAmountNum > 0 
+                      ? `${tier.multiplier === 2 ? 'Double' : `${tier.multiplier}x`} (${(potentialWin).toFixed(2)}) or Nothing`
+                      : `${tier.multiplier === 2 ? 'Double' : `${tier.multiplier}x`} or Nothing`
               }
             </button>
           )}
@@ -637,11 +1270,32 @@ export default function CoinFlipGame() {
               {errorMessage}
             </p>
           )}
+          {isPaused && !errorMessage && !transactionStatus && (
+            <p className="text-xs sm:text-sm text-gray-500 font-medium" style={{
+              fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", "Helvetica Neue", Arial, sans-serif',
+            }}>
+              Bets paused{pausedReason ? `: ${pausedReason}` : ''}
+            </p>
+          )}
+          {risk && risk.maxBetScale < 1 && !isPaused && !errorMessage && !transactionStatus && (
+            <p className="text-xs sm:text-sm text-gray-500 font-medium" style={{
+              fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", "Helvetica Neue", Arial, sans-serif',
+            }}>
+              Max bet reduced to {Math.round(risk.maxBetScale * 100)}% while the bank rebalances
+            </p>
+          )}
           {isBetTooHigh && !errorMessage && (
             <p className="text-xs sm:text-sm text-red-500 font-medium" style={{
               fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", "Helvetica Neue", Arial, sans-serif',
             }}>
-              Max bet: {maxBet.toFixed(4)} SOL (10% of liquidity)
+              Max bet: {maxBet.toFixed(4)} {asset.symbol} ({(limits?.maxBetFraction ?? 0) * 100}% of free liquidity at risk)
+            </p>
+          )}
+          {isBetTooLow && !errorMessage && (
+            <p className="text-xs sm:text-sm text-red-500 font-medium" style={{
+              fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", "Helvetica Neue", Arial, sans-serif',
+            }}>
+              Min bet: {minBet} {asset.symbol}
             </p>
           )}
         </div>
@@ -663,13 +1317,20 @@ export default function CoinFlipGame() {
                 gameResult === 'win' ? 'text-green-600' : 'text-red-600'
               }`}>
                 {gameResult === 'win' 
-                  ? `Won +${potentialWin.toFixed(2)} SOL` 
-                  : `Lost -${betAmountNum.toFixed(2)} SOL`
+                  ? `Won +${potentialWin.toFixed(2)} ${asset.symbol}` 
+                  : `Lost -${betAmountNum.toFixed(2)} ${asset.symbol}`
                 }
               </span>
+              {gameResult === 'win' && payoutStatus && (
+                <span className="text-[10px] sm:text-xs text-gray-500">
+                  {PAYOUT_STATUS_TEXT[payoutStatus]}
+                </span>
+              )}
             </div>
           )}
         </div>
+
+        <RecoveredBets bets={recoveredBets} onDismiss={dismissRecoveredBet} onReclaim={reclaimBet} />
       </div>
 
       {/* Footer */}
@@ -680,12 +1341,29 @@ export default function CoinFlipGame() {
         }}
       >
         <p className="text-[10px] sm:text-xs text-gray-400">
-          Provably Fair • 50/50 Odds • Open Source
+          <button
+            onClick={() => setShowFairness(true)}
+            className="underline decoration-dotted hover:text-gray-700 transition-colors duration-200"
+          >
+            Provably Fair
+          </button>
+          {' '}• {+(tier.winChance * 100).toFixed(2)}% to win {tier.multiplier}x • Open Source
         </p>
         <p className="text-[10px] sm:text-xs text-gray-300 mt-0.5">
           Built with Claude Opus 4 by Anthropic
         </p>
       </div>
+
+      {showFairness && (
+        <FairnessPanel
+          wallet={publicKey?.toString() || null}
+          clientSeed={clientSeed}
+          onClientSeedChange={setClientSeed}
+          lastSignature={lastSignature}
+          ensureSession={ensureSession}
+          onClose={() => setShowFairness(false)}
+        />
+      )}
     </div>
   )
 }
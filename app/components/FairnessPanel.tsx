@@ -0,0 +1,225 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+
+interface RevealedSeed {
+  serverSeed: string
+  serverSeedHash: string
+  noncesUsed: number
+  revealedAt: string
+}
+
+interface VerifyResult {
+  revealed: boolean
+  serverSeed?: string
+  serverSeedHash: string
+  clientSeed: string
+  nonce: number
+  winChance: number
+  roll?: number
+  result: 'win' | 'loss'
+  computedResult?: 'win' | 'loss'
+  verified?: boolean
+  message?: string
+}
+
+interface FairnessPanelProps {
+  wallet: string | null
+  clientSeed: string
+  onClientSeedChange: (seed: string) => void
+  // Deposit signature of the most recent flip, used to refresh and prefill
+  lastSignature: string | null
+  // Signs the wallet in if needed; rotating a seed requires a wallet session
+  ensureSession: () => Promise<boolean>
+  onClose: () => void
+}
+
+const fontFamily = '-apple-system, BlinkMacSystemFont, "Segoe UI", "Helvetica Neue", Arial, sans-serif'
+
+export default function FairnessPanel({
+  wallet,
+  clientSeed,
+  onClientSeedChange,
+  lastSignature,
+  ensureSession,
+  onClose,
+}: FairnessPanelProps) {
+  const [serverSeedHash, setServerSeedHash] = useState<string>('')
+  const [nonce, setNonce] = useState<number>(0)
+  const [revealedSeeds, setRevealedSeeds] = useState<RevealedSeed[]>([])
+  const [verifySignature, setVerifySignature] = useState<string>('')
+  const [verifyResult, setVerifyResult] = useState<VerifyResult | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+  const [error, setError] = useState<string>('')
+
+  const fetchSeeds = useCallback(async () => {
+    if (!wallet) return
+    try {
+      const response = await fetch(`/api/fairness?wallet=${wallet}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load seeds')
+
+      setServerSeedHash(data.serverSeedHash || '')
+      setNonce(data.nonce)
+      setRevealedSeeds(data.revealedSeeds || [])
+    } catch (err: any) {
+      setError(err.message)
+    }
+  }, [wallet])
+
+  useEffect(() => {
+    fetchSeeds()
+  }, [fetchSeeds, lastSignature])
+
+  useEffect(() => {
+    if (lastSignature) setVerifySignature(lastSignature)
+  }, [lastSignature])
+
+  const rotateSeed = async () => {
+    if (!wallet) return
+    setIsBusy(true)
+    setError('')
+    try {
+      if (!(await ensureSession())) throw new Error('Sign in with your wallet to rotate the seed')
+
+      const response = await fetch('/api/fairness', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ wallet }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to rotate seed')
+
+      await fetchSeeds()
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const verifyFlip = async () => {
+    if (!verifySignature) return
+    setIsBusy(true)
+    setError('')
+    setVerifyResult(null)
+    try {
+      const response = await fetch(`/api/fairness/verify?signature=${encodeURIComponent(verifySignature)}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to verify flip')
+
+      setVerifyResult(data)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-30 flex items-center justify-center bg-black/20 px-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-3xl shadow-lg w-full max-w-md p-5 sm:p-6 text-left text-xs sm:text-sm text-gray-700 max-h-[90vh] overflow-y-auto"
+        style={{ fontFamily }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-base sm:text-lg font-semibold text-gray-900">Provably Fair</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700">Close</button>
+        </div>
+
+        <p className="text-gray-500 mb-4">
+          Each flip is HMAC-SHA256(server seed, &quot;client seed:nonce&quot;). A roll below the win chance of your tier wins (0.5 for 2x).
+          The server seed hash is committed before you bet; rotate the seed to reveal it and verify past flips.
+        </p>
+
+        {!wallet ? (
+          <p className="text-gray-500 mb-4">Connect your wallet to see your seeds.</p>
+        ) : (
+          <div className="space-y-3 mb-5">
+            <div>
+              <div className="text-gray-400 mb-1">Server seed hash (next flips)</div>
+              <div className="font-mono break-all text-gray-900">{serverSeedHash || '...'}</div>
+            </div>
+            <div>
+              <div className="text-gray-400 mb-1">Next nonce</div>
+              <div className="font-mono text-gray-900">{nonce}</div>
+            </div>
+            <div>
+              <div className="text-gray-400 mb-1">Client seed</div>
+              <input
+                value={clientSeed}
+                onChange={(e) => onClientSeedChange(e.target.value.slice(0, 64))}
+                className="w-full border border-gray-300 rounded-full px-3 py-1.5 font-mono focus:outline-none focus:ring-2 focus:ring-gray-400"
+              />
+            </div>
+            <button
+              onClick={rotateSeed}
+              disabled={isBusy}
+              className="border border-gray-300 rounded-full px-4 py-1.5 font-medium hover:bg-gray-50 disabled:text-gray-400"
+            >
+              Rotate &amp; reveal server seed
+            </button>
+
+            {revealedSeeds.length > 0 && (
+              <div>
+                <div className="text-gray-400 mb-1">Revealed seeds</div>
+                {revealedSeeds.map((seed) => (
+                  <div key={seed.serverSeedHash} className="font-mono break-all text-[10px] sm:text-xs mb-2">
+                    <div className="text-gray-900">{seed.serverSeed}</div>
+                    <div className="text-gray-400">{seed.noncesUsed} flips · hash {seed.serverSeedHash.slice(0, 16)}...</div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="border-t border-gray-200 pt-4 space-y-2">
+          <div className="text-gray-400">Verify a flip by deposit signature</div>
+          <div className="flex gap-2">
+            <input
+              value={verifySignature}
+              onChange={(e) => setVerifySignature(e.target.value.trim())}
+              placeholder="Transaction signature"
+              className="flex-1 min-w-0 border border-gray-300 rounded-full px-3 py-1.5 font-mono focus:outline-none focus:ring-2 focus:ring-gray-400"
+            />
+            <button
+              onClick={verifyFlip}
+              disabled={isBusy || !verifySignature}
+              className="border border-gray-300 rounded-full px-4 py-1.5 font-medium hover:bg-gray-50 disabled:text-gray-400"
+            >
+              Verify
+            </button>
+          </div>
+
+          {verifyResult && (
+            <div className="font-mono break-all text-[10px] sm:text-xs space-y-1">
+              {!verifyResult.revealed ? (
+                <p className="text-gray-500" style={{ fontFamily }}>{verifyResult.message}</p>
+              ) : (
+                <>
+                  <div>server seed: {verifyResult.serverSeed}</div>
+                  <div>client seed: {verifyResult.clientSeed}</div>
+                  <div>nonce: {verifyResult.nonce}</div>
+                  <div>win chance: {verifyResult.winChance}</div>
+                  <div>roll: {verifyResult.roll?.toFixed(8)} → {verifyResult.computedResult}</div>
+                  <div className={verifyResult.verified ? 'text-green-600' : 'text-red-500'}>
+                    {verifyResult.verified ? 'Verified ✓ matches recorded result' : 'Mismatch ✗ does not match recorded result'}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        {error && <p className="text-red-500 mt-3">{error}</p>}
+      </div>
+    </div>
+  )
+}
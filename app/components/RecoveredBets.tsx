@@ -0,0 +1,84 @@
+'use client'
+
+export interface RecoveredBet {
+  signature: string
+  betAmount: number
+  asset?: string
+  // Escrow bet account - unsettled escrow bets can be reclaimed after the timeout
+  escrowBet?: string
+  state: 'settling' | 'win' | 'loss' | 'refunded' | 'failed' | 'pending'
+  message?: string
+}
+
+interface RecoveredBetsProps {
+  bets: RecoveredBet[]
+  onDismiss: (signature: string) => void
+  onReclaim: (signature: string) => void
+}
+
+const STATE_TEXT: Record<RecoveredBet['state'], string> = {
+  settling: 'Settling...',
+  win: 'Won',
+  loss: 'Lost',
+  refunded: 'Refunded',
+  failed: 'Failed',
+  pending: 'Still settling',
+}
+
+const STATE_COLOR: Record<RecoveredBet['state'], string> = {
+  settling: 'text-gray-500',
+  win: 'text-green-600',
+  loss: 'text-red-600',
+  refunded: 'text-gray-700',
+  failed: 'text-red-500',
+  pending: 'text-gray-500',
+}
+
+const fontFamily = '-apple-system, BlinkMacSystemFont, "Segoe UI", "Helvetica Neue", Arial, sans-serif'
+
+// Bets left unfinished by a reload or wallet disconnect, settled on return
+export default function RecoveredBets({ bets, onDismiss, onReclaim }: RecoveredBetsProps) {
+  if (bets.length === 0) return null
+
+  return (
+    <div
+      className="mt-4 w-full max-w-md mx-auto bg-white/80 border border-gray-200 rounded-2xl px-4 py-3 text-left text-[11px] sm:text-xs text-gray-600"
+      style={{ fontFamily }}
+    >
+      <div className="text-gray-400 mb-2">Recovered bets</div>
+      {bets.map((bet) => (
+        <div key={bet.signature} className="flex items-start justify-between gap-3 py-1">
+          <div className="min-w-0">
+            <div className="font-mono text-gray-900 truncate">
+              {bet.signature.slice(0, 8)}...{bet.signature.slice(-8)}
+            </div>
+            <div>
+              {bet.betAmount} {bet.asset || 'SOL'} ·{' '}
+              <span className={`font-medium ${STATE_COLOR[bet.state]}`}>{STATE_TEXT[bet.state]}</span>
+              {bet.message && <span className="text-gray-400"> · {bet.message}</span>}
+            </div>
+          </div>
+          {bet.state !== 'settling' && (
+            <div className="flex gap-3 shrink-0">
+              {bet.escrowBet && (bet.state === 'pending' || bet.state === 'failed') && (
+                <button
+                  onClick={() => onReclaim(bet.signature)}
+                  className="text-gray-600 hover:text-gray-900 font-medium"
+                  title="Take the stake back from escrow once the settle timeout has passed"
+                >
+                  Reclaim
+                </button>
+              )}
+              <button
+                onClick={() => onDismiss(bet.signature)}
+                className="text-gray-400 hover:text-gray-700"
+              >
+                Dismiss
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,191 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Connection, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js'
+import type { RealtimeChannel, SupabaseClient } from '@supabase/supabase-js'
+
+export interface LiveGame {
+  result: 'win' | 'loss'
+  amount: number
+  asset?: string
+  timestamp: number
+  playerWallet?: string
+  depositSignature?: string
+}
+
+export interface LiveTotals {
+  totalBets: number
+  totalWagered: number
+  wins: number
+  losses: number
+}
+
+interface LiveFeedOptions {
+  connection: Connection
+  // null in demo mode - no bank account to watch
+  bankAddress: string | null
+  // Follow demo_history / demo_stats instead of the real tables
+  demo?: boolean
+  onGame: (game: LiveGame) => void
+  onStats: (totals: LiveTotals) => void
+  onBankBalance: (sol: number) => void
+  // Full reloads, used on start, after a reconnect and as the polling fallback
+  refreshStats: () => void
+  refreshBalance: () => void
+}
+
+// Polling intervals while the realtime channel is down
+const STATS_POLL_INTERVAL_MS = 5000
+const BALANCE_POLL_INTERVAL_MS = 30000
+
+// Resubscribe backoff after a channel error: 2s, 4s, 8s ... capped at 1 minute
+const RESUBSCRIBE_BASE_DELAY_MS = 2000
+const RESUBSCRIBE_MAX_DELAY_MS = 60000
+
+const SUPABASE_CONFIGURED = !!process.env.NEXT_PUBLIC_SUPABASE_URL && !!process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+
+// Push new bets and stat changes from Supabase realtime (game_history inserts,
+// global_stats updates, or their demo_ tables in demo mode) and bank balance
+// changes from the RPC websocket.
+// While the realtime channel is unavailable it falls back to polling.
+export function useLiveFeed(options: LiveFeedOptions): { live: boolean } {
+  const [live, setLive] = useState(false)
+
+  // Callbacks change every render; read them through a ref so the
+  // subscriptions are only set up once
+  const optionsRef = useRef(options)
+  optionsRef.current = options
+
+  useEffect(() => {
+    let client: SupabaseClient | null = null
+    let channel: RealtimeChannel | null = null
+    let statsPoll: ReturnType<typeof setInterval> | null = null
+    let balancePoll: ReturnType<typeof setInterval> | null = null
+    let resubscribeTimer: ReturnType<typeof setTimeout> | null = null
+    let failures = 0
+    let stopped = false
+
+    const startPolling = () => {
+      setLive(false)
+      if (statsPoll) return
+      statsPoll = setInterval(() => optionsRef.current.refreshStats(), STATS_POLL_INTERVAL_MS)
+      balancePoll = setInterval(() => optionsRef.current.refreshBalance(), BALANCE_POLL_INTERVAL_MS)
+    }
+
+    const stopPolling = () => {
+      if (statsPoll) clearInterval(statsPoll)
+      if (balancePoll) clearInterval(balancePoll)
+      statsPoll = null
+      balancePoll = null
+    }
+
+    const subscribe = () => {
+      if (!client || stopped) return
+
+      const demo = !!optionsRef.current.demo
+      const current = client.channel(demo ? 'live-feed-demo' : 'live-feed')
+      channel = current
+
+      current
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table: demo ? 'demo_history' : 'game_history' }, (payload) => {
+          const row: any = payload.new
+          optionsRef.current.onGame(demo
+            ? {
+              result: row.result,
+              amount: Number(row.amount),
+              asset: 'SOL',
+              timestamp: new Date(row.timestamp).getTime(),
+              // Anonymous demo sessions have no wallet to show
+              playerWallet: row.account_id.startsWith('anon:') ? undefined : row.account_id,
+            }
+            : {
+              result: row.result,
+              amount: Number(row.amount),
+              asset: row.asset || 'SOL',
+              timestamp: new Date(row.timestamp).getTime(),
+              playerWallet: row.player_wallet || undefined,
+              depositSignature: row.deposit_signature || undefined,
+            })
+        })
+        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: demo ? 'demo_stats' : 'global_stats' }, (payload) => {
+          const row: any = payload.new
+          optionsRef.current.onStats({
+            totalBets: Number(row.total_bets) || 0,
+            totalWagered: Number(row.total_wagered) || 0,
+            wins: Number(row.wins) || 0,
+            losses: Number(row.losses) || 0,
+          })
+        })
+        .subscribe((status, err) => {
+          // Ignore late callbacks from a channel that was already replaced
+          if (stopped || channel !== current) return
+
+          if (status === 'SUBSCRIBED') {
+            failures = 0
+            stopPolling()
+            setLive(true)
+            // Catch up on anything missed while disconnected
+            optionsRef.current.refreshStats()
+            optionsRef.current.refreshBalance()
+            return
+          }
+
+          console.warn('Live feed unavailable, polling instead:', status, err?.message || '')
+          startPolling()
+
+          // Drop the broken channel and try again with backoff
+          channel = null
+          client?.removeChannel(current)
+
+          if (resubscribeTimer) clearTimeout(resubscribeTimer)
+          const delay = Math.min(RESUBSCRIBE_MAX_DELAY_MS, RESUBSCRIBE_BASE_DELAY_MS * 2 ** failures)
+          failures++
+          resubscribeTimer = setTimeout(subscribe, delay)
+        })
+    }
+
+    optionsRef.current.refreshStats()
+    optionsRef.current.refreshBalance()
+
+    if (SUPABASE_CONFIGURED) {
+      // Loaded lazily so a missing Supabase config never breaks the page
+      import('@/lib/supabase')
+        .then(({ supabase }) => {
+          client = supabase
+          subscribe()
+        })
+        .catch((error) => {
+          console.error('Failed to start live feed:', error)
+          startPolling()
+        })
+    } else {
+      startPolling()
+    }
+
+    return () => {
+      stopped = true
+      stopPolling()
+      if (resubscribeTimer) clearTimeout(resubscribeTimer)
+      if (client && channel) client.removeChannel(channel)
+    }
+  }, [])
+
+  // Bank balance pushed by the RPC websocket, which reconnects and
+  // resubscribes on its own
+  const { connection, bankAddress } = options
+  useEffect(() => {
+    if (!bankAddress) return
+
+    const subscriptionId = connection.onAccountChange(
+      new PublicKey(bankAddress),
+      (account) => optionsRef.current.onBankBalance(account.lamports / LAMPORTS_PER_SOL),
+      'confirmed'
+    )
+
+    return () => {
+      connection.removeAccountChangeListener(subscriptionId).catch(() => {})
+    }
+  }, [connection, bankAddress])
+
+  return { live }
+}
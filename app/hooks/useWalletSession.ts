@@ -0,0 +1,80 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useWallet } from '@solana/wallet-adapter-react'
+import bs58 from 'bs58'
+
+// Sign-In With Solana: the wallet signs a server-issued message once and the
+// server keeps the session in an HTTP-only cookie (see lib/session.ts).
+export function useWalletSession() {
+  const { publicKey, signMessage } = useWallet()
+  const wallet = publicKey?.toBase58() ?? null
+  // Wallet the session cookie belongs to, undefined until it has been checked
+  const [sessionWallet, setSessionWallet] = useState<string | null | undefined>(undefined)
+  const signInRef = useRef<Promise<boolean> | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    fetch('/api/auth/session')
+      .then(response => response.json())
+      .then(data => { if (!cancelled) setSessionWallet(data.wallet ?? null) })
+      .catch(() => { if (!cancelled) setSessionWallet(null) })
+    return () => { cancelled = true }
+  }, [wallet])
+
+  const signIn = useCallback(async (): Promise<boolean> => {
+    if (!wallet) return false
+    if (!signMessage) throw new Error('This wallet does not support message signing')
+
+    const nonceResponse = await fetch('/api/auth/nonce', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ wallet }),
+    })
+    const challenge = await nonceResponse.json()
+    if (!nonceResponse.ok) throw new Error(challenge.error || 'Failed to start sign-in')
+
+    const signature = await signMessage(new TextEncoder().encode(challenge.message))
+
+    const sessionResponse = await fetch('/api/auth/session', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ wallet, nonce: challenge.nonce, signature: bs58.encode(signature) }),
+    })
+    const data = await sessionResponse.json()
+    if (!sessionResponse.ok) throw new Error(data.error || 'Sign-in failed')
+
+    setSessionWallet(data.wallet)
+    return true
+  }, [wallet, signMessage])
+
+  // Sign in unless the connected wallet already has a session. Concurrent
+  // callers share one wallet prompt.
+  const ensureSession = useCallback(async (): Promise<boolean> => {
+    if (!wallet) return false
+    if (sessionWallet === wallet) return true
+    if (!signInRef.current) {
+      signInRef.current = signIn().finally(() => { signInRef.current = null })
+    }
+    return signInRef.current
+  }, [wallet, sessionWallet, signIn])
+
+  const signOut = useCallback(async () => {
+    await fetch('/api/auth/session', { method: 'DELETE' })
+    setSessionWallet(null)
+  }, [])
+
+  return {
+    sessionWallet: sessionWallet ?? null,
+    // False until the session check has finished
+    sessionChecked: sessionWallet !== undefined,
+    isSignedIn: !!wallet && sessionWallet === wallet,
+    signIn,
+    ensureSession,
+    signOut,
+  }
+}
@@ -0,0 +1,154 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { BET_ASSETS } from '@/lib/assets'
+
+type Metric = 'profit' | 'volume' | 'streak'
+type Period = 'daily' | 'weekly' | 'monthly' | 'all'
+
+interface LeaderboardEntry {
+  rank: number
+  playerWallet: string
+  bets: number
+  wagered: number
+  netProfit: number
+  wins: number
+  losses: number
+  bestWinStreak: number
+}
+
+const METRICS: { value: Metric; label: string }[] = [
+  { value: 'profit', label: 'Profit' },
+  { value: 'volume', label: 'Volume' },
+  { value: 'streak', label: 'Win streak' },
+]
+
+const PERIODS: { value: Period; label: string }[] = [
+  { value: 'daily', label: 'Today' },
+  { value: 'weekly', label: '7 days' },
+  { value: 'monthly', label: '30 days' },
+  { value: 'all', label: 'All time' },
+]
+
+const ASSETS = BET_ASSETS.map(asset => ({ value: asset.symbol, label: asset.symbol }))
+
+const fontFamily = '-apple-system, BlinkMacSystemFont, "Segoe UI", "Helvetica Neue", Arial, sans-serif'
+
+const shorten = (value: string) => `${value.slice(0, 4)}...${value.slice(-4)}`
+
+function formatValue(entry: LeaderboardEntry, metric: Metric, asset: string) {
+  if (metric === 'volume') return `${entry.wagered.toFixed(2)} ${asset}`
+  if (metric === 'streak') return `${entry.bestWinStreak} wins`
+  return `${entry.netProfit >= 0 ? '+' : ''}${entry.netProfit.toFixed(2)} ${asset}`
+}
+
+function Tabs<T extends string>({
+  options,
+  value,
+  onChange,
+}: {
+  options: { value: T; label: string }[]
+  value: T
+  onChange: (value: T) => void
+}) {
+  return (
+    <div className="flex gap-1 bg-white rounded-full shadow p-1">
+      {options.map(option => (
+        <button
+          key={option.value}
+          onClick={() => onChange(option.value)}
+          className={`px-3 py-1 rounded-full text-xs font-medium ${
+            option.value === value ? 'bg-gray-900 text-white' : 'text-gray-500 hover:text-gray-800'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+export default function LeaderboardPage() {
+  const [metric, setMetric] = useState<Metric>('profit')
+  const [period, setPeriod] = useState<Period>('weekly')
+  const [asset, setAsset] = useState('SOL')
+  const [entries, setEntries] = useState<LeaderboardEntry[] | null>(null)
+  const [error, setError] = useState('')
+
+  const loadLeaderboard = useCallback(async () => {
+    setError('')
+    try {
+      const response = await fetch(`/api/leaderboard?metric=${metric}&period=${period}&asset=${encodeURIComponent(asset)}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load leaderboard')
+
+      setEntries(data.entries)
+    } catch (err: any) {
+      setError(err.message)
+    }
+  }, [metric, period, asset])
+
+  useEffect(() => {
+    loadLeaderboard()
+  }, [loadLeaderboard])
+
+  return (
+    <div className="min-h-screen px-4 sm:px-8 py-6 text-sm text-gray-700" style={{ backgroundColor: '#fafafa', fontFamily }}>
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-xl sm:text-2xl font-semibold text-gray-900">Leaderboard</h1>
+          <a href="/" className="text-gray-500 hover:text-gray-800">Back to game</a>
+        </div>
+
+        <div className="flex flex-wrap gap-3">
+          <Tabs<Metric> options={METRICS} value={metric} onChange={setMetric} />
+          <Tabs<Period> options={PERIODS} value={period} onChange={setPeriod} />
+          {ASSETS.length > 1 && <Tabs<string> options={ASSETS} value={asset} onChange={setAsset} />}
+        </div>
+
+        {error && <p className="text-red-500">{error}</p>}
+
+        <section className="bg-white rounded-3xl shadow p-5">
+          {!entries ? (
+            !error && <p className="text-gray-400">Loading...</p>
+          ) : entries.length === 0 ? (
+            <p className="text-gray-400">No bets in this period yet.</p>
+          ) : (
+            <table className="w-full text-xs sm:text-sm">
+              <thead className="text-gray-400 text-left">
+                <tr>
+                  <th className="py-1 pr-3 font-normal">#</th>
+                  <th className="py-1 pr-3 font-normal">Wallet</th>
+                  <th className="py-1 pr-3 font-normal text-right">{METRICS.find(m => m.value === metric)?.label}</th>
+                  <th className="py-1 font-normal text-right">Bets</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(entry => (
+                  <tr key={entry.playerWallet} className="border-t border-gray-100">
+                    <td className="py-1.5 pr-3 text-gray-400">{entry.rank}</td>
+                    <td className="py-1.5 pr-3 font-mono">
+                      <a
+                        href={`/player/${entry.playerWallet}`}
+                        className="hover:text-gray-900 underline decoration-dotted"
+                        title={`${entry.playerWallet} - public stats`}
+                      >
+                        {shorten(entry.playerWallet)}
+                      </a>
+                    </td>
+                    <td className={`py-1.5 pr-3 text-right font-medium ${
+                      metric === 'profit' ? (entry.netProfit >= 0 ? 'text-green-600' : 'text-red-500') : 'text-gray-900'
+                    }`}>
+                      {formatValue(entry, metric, asset)}
+                    </td>
+                    <td className="py-1.5 text-right text-gray-500">{entry.bets}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+      </div>
+    </div>
+  )
+}
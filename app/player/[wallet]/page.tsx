@@ -0,0 +1,229 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useWallet } from '@solana/wallet-adapter-react'
+import { BET_ASSETS } from '@/lib/assets'
+import { explorerTxUrl } from '@/lib/cluster'
+import { useWalletSession } from '../../hooks/useWalletSession'
+
+interface PlayerBet {
+  result: 'win' | 'loss'
+  amount: number
+  asset?: string
+  payout: number
+  timestamp: number
+  depositSignature?: string
+  payoutSignature?: string
+}
+
+interface PlayerProfile {
+  wallet: string
+  // Asset the summary stats are in; history covers every asset
+  asset: string
+  totalBets: number
+  totalWagered: number
+  totalPayout: number
+  netProfit: number
+  wins: number
+  losses: number
+  winRate: number
+  biggestWin: number
+  longestWinStreak: number
+  longestLossStreak: number
+  firstBetAt: string | null
+  lastBetAt: string | null
+  // null unless signed in as this wallet
+  history: {
+    page: number
+    pageSize: number
+    total: number
+    items: PlayerBet[]
+  } | null
+}
+
+const PAGE_SIZE = 20
+
+const fontFamily = '-apple-system, BlinkMacSystemFont, "Segoe UI", "Helvetica Neue", Arial, sans-serif'
+
+const shorten = (value: string | undefined) => value ? `${value.slice(0, 6)}...${value.slice(-6)}` : '-'
+
+function TxLink({ signature }: { signature?: string }) {
+  if (!signature) return <span>-</span>
+  return (
+    <a
+      href={explorerTxUrl(signature)}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="hover:text-gray-900 underline decoration-dotted"
+    >
+      {shorten(signature)}
+    </a>
+  )
+}
+
+export default function PlayerPage({ params }: { params: { wallet: string } }) {
+  const [profile, setProfile] = useState<PlayerProfile | null>(null)
+  const [page, setPage] = useState(1)
+  const [asset, setAsset] = useState('SOL')
+  const [error, setError] = useState('')
+  const { publicKey } = useWallet()
+  const { isSignedIn, signIn } = useWalletSession()
+  const isOwnWallet = publicKey?.toBase58() === params.wallet
+
+  const signInForHistory = async () => {
+    setError('')
+    try {
+      await signIn()
+    } catch (err: any) {
+      setError(err.message)
+    }
+  }
+
+  const loadProfile = useCallback(async () => {
+    setError('')
+    try {
+      const response = await fetch(`/api/players/${params.wallet}?asset=${encodeURIComponent(asset)}&page=${page}&pageSize=${PAGE_SIZE}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load player')
+
+      setProfile(data)
+    } catch (err: any) {
+      setError(err.message)
+    }
+  }, [params.wallet, page, asset])
+
+  // Reload once signed in so the history comes with the profile
+  useEffect(() => {
+    loadProfile()
+  }, [loadProfile, isSignedIn])
+
+  const history = profile?.history
+  const totalPages = history ? Math.max(1, Math.ceil(history.total / PAGE_SIZE)) : 1
+
+  const summary = profile && [
+    { label: 'Bets', value: profile.totalBets.toString() },
+    { label: 'Wagered', value: `${profile.totalWagered.toFixed(4)} ${profile.asset}` },
+    {
+      label: 'Net P&L',
+      value: `${profile.netProfit >= 0 ? '+' : ''}${profile.netProfit.toFixed(4)} ${profile.asset}`,
+      className: profile.netProfit >= 0 ? 'text-green-600' : 'text-red-500',
+    },
+    { label: 'Win rate', value: `${(profile.winRate * 100).toFixed(1)}% (${profile.wins}W / ${profile.losses}L)` },
+    { label: 'Biggest win', value: `+${profile.biggestWin.toFixed(4)} ${profile.asset}` },
+    { label: 'Longest win streak', value: profile.longestWinStreak.toString() },
+    { label: 'Longest loss streak', value: profile.longestLossStreak.toString() },
+  ]
+
+  return (
+    <div className="min-h-screen px-4 sm:px-8 py-6 text-sm text-gray-700" style={{ backgroundColor: '#fafafa', fontFamily }}>
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="min-w-0">
+            <h1 className="text-xl sm:text-2xl font-semibold text-gray-900">Player</h1>
+            <div className="font-mono text-xs text-gray-500 break-all">{params.wallet}</div>
+          </div>
+          <a href="/" className="text-gray-500 hover:text-gray-800 shrink-0">Back to game</a>
+        </div>
+
+        {error && <p className="text-red-500">{error}</p>}
+
+        {BET_ASSETS.length > 1 && (
+          <div className="flex gap-1 bg-white rounded-full shadow p-1 w-fit">
+            {BET_ASSETS.map(option => (
+              <button
+                key={option.symbol}
+                onClick={() => setAsset(option.symbol)}
+                className={`px-3 py-1 rounded-full text-xs font-medium ${
+                  option.symbol === asset ? 'bg-gray-900 text-white' : 'text-gray-500 hover:text-gray-800'
+                }`}
+              >
+                {option.symbol}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <section className="bg-white rounded-3xl shadow p-5">
+          {summary ? (
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              {summary.map(item => (
+                <div key={item.label}>
+                  <div className="text-gray-400 text-xs">{item.label}</div>
+                  <div className={`text-base font-semibold ${item.className || ''}`}>{item.value}</div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            !error && <p className="text-gray-400">Loading...</p>
+          )}
+        </section>
+
+        {/* The summary above is public; the history is only offered to the wallet's owner */}
+        {(isOwnWallet || history) && (
+          <section className="bg-white rounded-3xl shadow p-5">
+            <h2 className="font-semibold text-gray-900 mb-3">History</h2>
+            {profile && !history ? (
+              <p className="text-gray-400">
+                Your bet history is only visible to you.{' '}
+                <button onClick={signInForHistory} className="underline decoration-dotted hover:text-gray-700">
+                  Sign in with your wallet
+                </button>
+              </p>
+            ) : history && history.items.length === 0 ? (
+              <p className="text-gray-400">No bets yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead className="text-gray-400 text-left">
+                    <tr>
+                      <th className="py-1 pr-3 font-normal">Time</th>
+                      <th className="py-1 pr-3 font-normal">Result</th>
+                      <th className="py-1 pr-3 font-normal">Bet</th>
+                      <th className="py-1 pr-3 font-normal">Payout</th>
+                      <th className="py-1 pr-3 font-normal">Deposit</th>
+                      <th className="py-1 pr-3 font-normal">Payout tx</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {history?.items.map((bet, i) => (
+                      <tr key={bet.depositSignature || `${bet.timestamp}-${i}`} className="border-t border-gray-100">
+                        <td className="py-1 pr-3 whitespace-nowrap">{new Date(bet.timestamp).toLocaleString()}</td>
+                        <td className={`py-1 pr-3 font-medium ${bet.result === 'win' ? 'text-green-600' : 'text-red-500'}`}>
+                          {bet.result === 'win' ? 'Win' : 'Loss'}
+                        </td>
+                        <td className="py-1 pr-3">{bet.amount.toFixed(4)} {bet.asset || 'SOL'}</td>
+                        <td className="py-1 pr-3">{bet.payout.toFixed(4)} {bet.asset || 'SOL'}</td>
+                        <td className="py-1 pr-3 font-mono"><TxLink signature={bet.depositSignature} /></td>
+                        <td className="py-1 pr-3 font-mono"><TxLink signature={bet.payoutSignature} /></td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {history && totalPages > 1 && (
+              <div className="flex items-center justify-end gap-3 mt-3 text-xs">
+                <button
+                  onClick={() => setPage(p => p - 1)}
+                  disabled={page <= 1}
+                  className="text-gray-500 hover:text-gray-800 disabled:text-gray-300"
+                >
+                  Newer
+                </button>
+                <span className="text-gray-400">Page {page} of {totalPages}</span>
+                <button
+                  onClick={() => setPage(p => p + 1)}
+                  disabled={page >= totalPages}
+                  className="text-gray-500 hover:text-gray-800 disabled:text-gray-300"
+                >
+                  Older
+                </button>
+              </div>
+            )}
+          </section>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -2,26 +2,26 @@
 
 import { FC, ReactNode, useMemo } from 'react'
 import { ConnectionProvider, WalletProvider } from '@solana/wallet-adapter-react'
-import { WalletAdapterNetwork } from '@solana/wallet-adapter-base'
 import { WalletModalProvider } from '@solana/wallet-adapter-react-ui'
 import {
   PhantomWalletAdapter,
   SolflareWalletAdapter,
 } from '@solana/wallet-adapter-wallets'
-import { clusterApiUrl } from '@solana/web3.js'
+import { CLUSTER_RPC_ENDPOINTS, SOLANA_CLUSTER } from '@/lib/cluster'
 
 interface WalletContextProviderProps {
   children: ReactNode
 }
 
 export const WalletContextProvider: FC<WalletContextProviderProps> = ({ children }) => {
-  // Use custom RPC endpoint from environment variable, fallback to public mainnet
+  // Use custom RPC endpoint from environment variable, fallback to the
+  // configured cluster's public endpoint
   const endpoint = useMemo(() => {
     const customRpc = process.env.NEXT_PUBLIC_SOLANA_RPC_ENDPOINT
     if (customRpc) {
       return customRpc
     }
-    return clusterApiUrl(WalletAdapterNetwork.Mainnet)
+    return CLUSTER_RPC_ENDPOINTS[SOLANA_CLUSTER][0]
   }, [])
 
   const wallets = useMemo(
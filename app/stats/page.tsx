@@ -0,0 +1,230 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { BET_ASSETS } from '@/lib/assets'
+
+type Range = '24h' | '7d' | '30d' | '90d' | '365d'
+type Bucket = 'hour' | 'day'
+
+interface TimeseriesPoint {
+  bucketStart: string
+  bets: number
+  volume: number
+  payouts: number
+  houseNet: number
+  wins: number
+  winRate: number
+  players: number
+}
+
+const RANGES: { value: Range; label: string; bucket: Bucket }[] = [
+  { value: '24h', label: '24 hours', bucket: 'hour' },
+  { value: '7d', label: '7 days', bucket: 'hour' },
+  { value: '30d', label: '30 days', bucket: 'day' },
+  { value: '90d', label: '90 days', bucket: 'day' },
+  { value: '365d', label: '1 year', bucket: 'day' },
+]
+
+const CHART_WIDTH = 600
+const CHART_HEIGHT = 140
+
+const fontFamily = '-apple-system, BlinkMacSystemFont, "Segoe UI", "Helvetica Neue", Arial, sans-serif'
+
+function formatBucket(bucketStart: string, bucket: Bucket) {
+  const date = new Date(bucketStart)
+  return bucket === 'hour'
+    ? date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit' })
+    : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+}
+
+// Bar chart of one series; negative values hang below the zero line
+function BarChart({
+  title,
+  points,
+  bucket,
+  value,
+  format,
+  signed = false,
+}: {
+  title: string
+  points: TimeseriesPoint[]
+  bucket: Bucket
+  value: (point: TimeseriesPoint) => number
+  format: (value: number) => string
+  signed?: boolean
+}) {
+  const values = points.map(value)
+  const max = Math.max(0, ...values)
+  const min = signed ? Math.min(0, ...values) : 0
+  const span = max - min || 1
+  const zeroY = (max / span) * CHART_HEIGHT
+  const barWidth = CHART_WIDTH / Math.max(1, points.length)
+  const total = values.reduce((sum, v) => sum + v, 0)
+
+  return (
+    <section className="bg-white rounded-3xl shadow p-5">
+      <div className="flex items-baseline justify-between mb-3">
+        <h2 className="font-semibold text-gray-900">{title}</h2>
+        <span className="text-xs text-gray-400">
+          max {format(max)}{signed && ` · min ${format(min)}`}
+        </span>
+      </div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-36" preserveAspectRatio="none">
+        <line x1={0} x2={CHART_WIDTH} y1={zeroY} y2={zeroY} stroke="#e5e7eb" strokeWidth={1} />
+        {points.map((point, i) => {
+          const v = values[i]
+          const height = (Math.abs(v) / span) * CHART_HEIGHT
+          return (
+            <rect
+              key={point.bucketStart}
+              x={i * barWidth + barWidth * 0.1}
+              y={v >= 0 ? zeroY - height : zeroY}
+              width={barWidth * 0.8}
+              height={height}
+              fill={v >= 0 ? '#a78bfa' : '#f87171'}
+            >
+              <title>{`${formatBucket(point.bucketStart, bucket)}: ${format(v)}`}</title>
+            </rect>
+          )
+        })}
+      </svg>
+      {points.length > 0 && (
+        <div className="flex justify-between text-[10px] text-gray-400 mt-1">
+          <span>{formatBucket(points[0].bucketStart, bucket)}</span>
+          <span>{formatBucket(points[points.length - 1].bucketStart, bucket)}</span>
+        </div>
+      )}
+      {signed && <div className="text-xs text-gray-500 mt-2">Total: {format(total)}</div>}
+    </section>
+  )
+}
+
+export default function StatsPage() {
+  const [range, setRange] = useState<Range>('7d')
+  const [asset, setAsset] = useState('SOL')
+  const [points, setPoints] = useState<TimeseriesPoint[] | null>(null)
+  const [error, setError] = useState('')
+
+  const bucket = RANGES.find(r => r.value === range)?.bucket || 'day'
+  const query = `range=${range}&bucket=${bucket}&asset=${encodeURIComponent(asset)}`
+
+  const loadTimeseries = useCallback(async () => {
+    setError('')
+    try {
+      const response = await fetch(`/api/stats/timeseries?${query}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load stats')
+
+      setPoints(data.points)
+    } catch (err: any) {
+      setError(err.message)
+    }
+  }, [query])
+
+  useEffect(() => {
+    loadTimeseries()
+  }, [loadTimeseries])
+
+  const sol = (value: number) => `${value.toFixed(2)} ${asset}`
+  const totals = points && points.reduce(
+    (sum, point) => ({
+      bets: sum.bets + point.bets,
+      volume: sum.volume + point.volume,
+      houseNet: sum.houseNet + point.houseNet,
+      wins: sum.wins + point.wins,
+    }),
+    { bets: 0, volume: 0, houseNet: 0, wins: 0 }
+  )
+
+  return (
+    <div className="min-h-screen px-4 sm:px-8 py-6 text-sm text-gray-700" style={{ backgroundColor: '#fafafa', fontFamily }}>
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-xl sm:text-2xl font-semibold text-gray-900">Stats</h1>
+          <a href="/" className="text-gray-500 hover:text-gray-800">Back to game</a>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex gap-1 bg-white rounded-full shadow p-1">
+            {RANGES.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setRange(option.value)}
+                className={`px-3 py-1 rounded-full text-xs font-medium ${
+                  option.value === range ? 'bg-gray-900 text-white' : 'text-gray-500 hover:text-gray-800'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {BET_ASSETS.length > 1 && (
+            <div className="flex gap-1 bg-white rounded-full shadow p-1">
+              {BET_ASSETS.map(option => (
+                <button
+                  key={option.symbol}
+                  onClick={() => setAsset(option.symbol)}
+                  className={`px-3 py-1 rounded-full text-xs font-medium ${
+                    option.symbol === asset ? 'bg-gray-900 text-white' : 'text-gray-500 hover:text-gray-800'
+                  }`}
+                >
+                  {option.symbol}
+                </button>
+              ))}
+            </div>
+          )}
+          <a
+            href={`/api/stats/timeseries?${query}&format=csv`}
+            className="text-xs text-gray-500 hover:text-gray-800 underline decoration-dotted"
+          >
+            Download CSV
+          </a>
+        </div>
+
+        {error && <p className="text-red-500">{error}</p>}
+
+        {!points ? (
+          !error && <p className="text-gray-400">Loading...</p>
+        ) : (
+          <>
+            {totals && (
+              <section className="bg-white rounded-3xl shadow p-5 grid grid-cols-2 sm:grid-cols-4 gap-4">
+                <div>
+                  <div className="text-gray-400 text-xs">Bets</div>
+                  <div className="text-base font-semibold">{totals.bets}</div>
+                </div>
+                <div>
+                  <div className="text-gray-400 text-xs">Volume</div>
+                  <div className="text-base font-semibold">{sol(totals.volume)}</div>
+                </div>
+                <div>
+                  <div className="text-gray-400 text-xs">House net</div>
+                  <div className={`text-base font-semibold ${totals.houseNet >= 0 ? 'text-green-600' : 'text-red-500'}`}>
+                    {sol(totals.houseNet)}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-gray-400 text-xs">Player win rate</div>
+                  <div className="text-base font-semibold">
+                    {totals.bets > 0 ? `${((totals.wins / totals.bets) * 100).toFixed(1)}%` : '-'}
+                  </div>
+                </div>
+              </section>
+            )}
+            <BarChart title="Volume" points={points} bucket={bucket} value={p => p.volume} format={sol} />
+            <BarChart title="House net" points={points} bucket={bucket} value={p => p.houseNet} format={sol} signed />
+            <BarChart title="Bets" points={points} bucket={bucket} value={p => p.bets} format={v => v.toString()} />
+            <BarChart
+              title="Player win rate"
+              points={points}
+              bucket={bucket}
+              value={p => p.winRate * 100}
+              format={v => `${v.toFixed(1)}%`}
+            />
+            <BarChart title="Distinct players" points={points} bucket={bucket} value={p => p.players} format={v => v.toString()} />
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
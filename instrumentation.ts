@@ -0,0 +1,13 @@
+// Runs once when the server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return
+
+  // Refuse to start when the RPC endpoints (and so the bank wallet) are on
+  // another cluster than NEXT_PUBLIC_SOLANA_CLUSTER
+  const { assertClusterMatches } = await import('./lib/solana')
+  await assertClusterMatches()
+
+  // Unlock the keystore (or reach the remote signer) before the first payout
+  const { getPayoutSigner } = await import('./lib/signer')
+  await getPayoutSigner()
+}
@@ -0,0 +1,72 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+
+const ADMIN_SECRET = process.env.ADMIN_SECRET || ''
+
+export const ADMIN_COOKIE = 'admin_session'
+const ADMIN_SESSION_MS = 12 * 60 * 60 * 1000
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a)
+  const bufB = Buffer.from(b)
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB)
+}
+
+function signSession(expiresAt: number): string {
+  return createHmac('sha256', ADMIN_SECRET).update(`admin:${expiresAt}`).digest('hex')
+}
+
+// Session cookie value for the /admin console: `<expiresAt>.<hmac>`
+function createSessionToken(): { token: string; expiresAt: number } {
+  const expiresAt = Date.now() + ADMIN_SESSION_MS
+  return { token: `${expiresAt}.${signSession(expiresAt)}`, expiresAt }
+}
+
+function isValidSessionToken(token: string): boolean {
+  const [expires, signature] = token.split('.')
+  const expiresAt = Number(expires)
+  if (!expiresAt || !signature || expiresAt < Date.now()) return false
+  return safeEqual(signature, signSession(expiresAt))
+}
+
+export function isAdminSecret(secret: unknown): boolean {
+  return !!ADMIN_SECRET && typeof secret === 'string' && safeEqual(secret, ADMIN_SECRET)
+}
+
+// Operator-only endpoints accept `Authorization: Bearer <ADMIN_SECRET>`
+// (scripts, schedulers) or the admin session cookie (the /admin console).
+// With no ADMIN_SECRET configured they are disabled entirely.
+export function isAdminRequest(request: NextRequest): boolean {
+  if (!ADMIN_SECRET) return false
+
+  const header = request.headers.get('authorization') || ''
+  const token = header.startsWith('Bearer ') ? header.slice(7) : ''
+  if (token && safeEqual(token, ADMIN_SECRET)) return true
+
+  const cookie = request.cookies.get(ADMIN_COOKIE)?.value
+  return !!cookie && isValidSessionToken(cookie)
+}
+
+export function unauthorized() {
+  return NextResponse.json(
+    { error: 'Unauthorized' },
+    { status: 401 }
+  )
+}
+
+export function setAdminSessionCookie(response: NextResponse): NextResponse {
+  const { token, expiresAt } = createSessionToken()
+  response.cookies.set(ADMIN_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/',
+    expires: new Date(expiresAt),
+  })
+  return response
+}
+
+export function clearAdminSessionCookie(response: NextResponse): NextResponse {
+  response.cookies.set(ADMIN_COOKIE, '', { path: '/', maxAge: 0 })
+  return response
+}
@@ -0,0 +1,99 @@
+import { PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js'
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token'
+
+// Currencies players can bet with. SOL is always available; SPL tokens are
+// configured with NEXT_PUBLIC_BET_ASSETS (shared by the game and the server), e.g.
+// [{"symbol":"USDC","mint":"EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v","decimals":6,"minBet":1,"maxBet":500}]
+export interface BetAsset {
+  symbol: string
+  // null for native SOL
+  mint: string | null
+  decimals: number
+  // Per-asset limits in whole tokens. SOL uses MIN_BET_SOL / MAX_BET_SOL.
+  minBet?: number
+  maxBet?: number
+}
+
+export const SOL_ASSET: BetAsset = { symbol: 'SOL', mint: null, decimals: 9 }
+
+function parseTokenAssets(): BetAsset[] {
+  let configured: any[]
+  try {
+    configured = JSON.parse(process.env.NEXT_PUBLIC_BET_ASSETS || '[]')
+  } catch {
+    console.warn('NEXT_PUBLIC_BET_ASSETS is not valid JSON, only SOL bets are enabled')
+    return []
+  }
+
+  return (Array.isArray(configured) ? configured : []).filter((asset) => {
+    try {
+      new PublicKey(asset.mint)
+    } catch {
+      console.warn('Ignoring bet asset with invalid mint:', asset?.symbol)
+      return false
+    }
+    const valid = typeof asset.symbol === 'string' &&
+      asset.symbol !== SOL_ASSET.symbol &&
+      Number.isInteger(asset.decimals)
+    if (!valid) console.warn('Ignoring invalid bet asset:', asset?.symbol)
+    return valid
+  })
+}
+
+export const BET_ASSETS: BetAsset[] = [SOL_ASSET, ...parseTokenAssets()]
+
+// Look up a configured asset by symbol; a missing symbol means SOL
+export function getBetAsset(symbol?: string | null): BetAsset | null {
+  if (!symbol) return SOL_ASSET
+  return BET_ASSETS.find(asset => asset.symbol === symbol) || null
+}
+
+// Whole-token amount in base units (lamports for SOL), rounded down.
+// The game and the server must agree on this exactly.
+export function toBaseUnits(amount: number, asset: BetAsset): number {
+  return Math.floor(amount * 10 ** asset.decimals)
+}
+
+export function fromBaseUnits(units: number, asset: BetAsset): number {
+  return units / 10 ** asset.decimals
+}
+
+// Round down to the asset's precision so a published limit is always placeable
+export function floorToAsset(amount: number, asset: BetAsset): number {
+  return fromBaseUnits(toBaseUnits(amount, asset), asset)
+}
+
+// Instructions moving `amount` of an asset between two wallets. Token
+// transfers go between associated token accounts; unless
+// `createRecipientAccount` is false, the recipient's account is created
+// (paid for by `payer`) if it does not exist yet.
+export function transferInstructions(
+  asset: BetAsset,
+  from: PublicKey,
+  to: PublicKey,
+  amount: number,
+  payer: PublicKey = from,
+  createRecipientAccount = true
+): TransactionInstruction[] {
+  if (!asset.mint) {
+    return [
+      SystemProgram.transfer({
+        fromPubkey: from,
+        toPubkey: to,
+        lamports: toBaseUnits(amount, asset),
+      }),
+    ]
+  }
+
+  const mint = new PublicKey(asset.mint)
+  const source = getAssociatedTokenAddressSync(mint, from)
+  const destination = getAssociatedTokenAddressSync(mint, to)
+
+  const transfer = createTransferCheckedInstruction(source, mint, destination, from, toBaseUnits(amount, asset), asset.decimals)
+  if (!createRecipientAccount) return [transfer]
+  return [createAssociatedTokenAccountIdempotentInstruction(payer, destination, to, mint), transfer]
+}
@@ -0,0 +1,63 @@
+// Solana cluster the whole app runs against, shared by the wallet provider,
+// the game and the server. Set NEXT_PUBLIC_SOLANA_CLUSTER to `mainnet-beta`
+// (default), `devnet` or `localnet` (solana-test-validator).
+
+export type SolanaCluster = 'mainnet-beta' | 'devnet' | 'localnet'
+
+function parseCluster(value: string | undefined): SolanaCluster {
+  switch ((value || '').toLowerCase()) {
+    case '':
+    case 'mainnet':
+    case 'mainnet-beta':
+      return 'mainnet-beta'
+    case 'devnet':
+      return 'devnet'
+    case 'localnet':
+    case 'localhost':
+      return 'localnet'
+    default:
+      console.warn(`Unknown NEXT_PUBLIC_SOLANA_CLUSTER "${value}", using mainnet-beta`)
+      return 'mainnet-beta'
+  }
+}
+
+export const SOLANA_CLUSTER = parseCluster(process.env.NEXT_PUBLIC_SOLANA_CLUSTER)
+
+export const CLUSTER_LABELS: Record<SolanaCluster, string> = {
+  'mainnet-beta': 'Mainnet',
+  devnet: 'Devnet',
+  localnet: 'Localnet',
+}
+
+// Public endpoints used when no RPC endpoint is configured
+export const CLUSTER_RPC_ENDPOINTS: Record<SolanaCluster, string[]> = {
+  'mainnet-beta': ['https://api.mainnet-beta.solana.com', 'https://rpc.ankr.com/solana'],
+  devnet: ['https://api.devnet.solana.com'],
+  localnet: ['http://127.0.0.1:8899'],
+}
+
+// Genesis hashes of the public clusters. A local validator gets a fresh one
+// on every reset, so localnet only has to differ from all of these.
+export const GENESIS_HASHES: Record<string, string> = {
+  'mainnet-beta': '5eykt4UsFv8P8NJdTREpY1vzqKqZKvdpKuc147dw2N9d',
+  devnet: 'EtWTRABZaYq6iMfeYKouRu166VU2xqa1wcaWoxPkrZBG',
+  testnet: '4uhcVJyU9pJkvQyS88uRDiswHXSCkY3zQawwpjk2NsNY',
+}
+
+// Test clusters hand out free SOL, so the game offers an airdrop
+export const AIRDROP_ENABLED = SOLANA_CLUSTER !== 'mainnet-beta'
+export const AIRDROP_SOL = 1
+
+// Cluster a genesis hash belongs to, 'localnet' for any unknown hash
+export function clusterForGenesisHash(genesisHash: string): string {
+  const match = Object.keys(GENESIS_HASHES).find(cluster => GENESIS_HASHES[cluster] === genesisHash)
+  return match || 'localnet'
+}
+
+export function explorerTxUrl(signature: string): string {
+  if (SOLANA_CLUSTER === 'devnet') return `https://solscan.io/tx/${signature}?cluster=devnet`
+  if (SOLANA_CLUSTER === 'localnet') {
+    return `https://explorer.solana.com/tx/${signature}?cluster=custom&customUrl=${encodeURIComponent(CLUSTER_RPC_ENDPOINTS.localnet[0])}`
+  }
+  return `https://solscan.io/tx/${signature}`
+}
@@ -0,0 +1,179 @@
+import { createHash, randomBytes } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase, supabaseAdmin } from '@/lib/supabase'
+import { getSessionWallet } from '@/lib/session'
+import { BetLimits, limitsFromLiquidity } from '@/lib/limits'
+import { SOL_ASSET } from '@/lib/assets'
+import { FairRoll } from '@/lib/fairness'
+import { Stats, defaultStats } from '@/lib/stats'
+
+// ============================================
+// DEMO MODE - Play money on the real game path
+// ============================================
+// Without a bank wallet (or with NEXT_PUBLIC_DEMO_MODE=true) /api/play takes
+// demo bets instead of deposits. They go through the same validation, bet
+// limits (against a virtual bank) and provably fair roll as real bets, but
+// settle against a virtual balance and are recorded in demo_history and
+// demo_stats, never in the real stats.
+//
+// A demo account is the signed-in wallet, or an anonymous session kept in a
+// cookie when no wallet is signed in. The cookie's "anon:<id>" value is a
+// secret: the account (and the public demo feed) only ever sees its hash.
+// ============================================
+
+// Same rule as the game uses to switch to demo mode
+export const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true' || !process.env.NEXT_PUBLIC_BANK_WALLET_ADDRESS
+
+// Play money a new (or reset) account starts with
+export const DEMO_START_BALANCE = Number(process.env.DEMO_START_BALANCE) || 10
+// Virtual bank the demo bet limits are computed from
+export const DEMO_BANK_BALANCE = Number(process.env.DEMO_BANK_BALANCE) || 1000
+
+const DEMO_COOKIE = 'demo_session'
+const DEMO_SESSION_MS = 30 * 24 * 60 * 60 * 1000
+const ANONYMOUS_ID = /^anon:[0-9a-f]{32}$/
+
+export interface DemoAccount {
+  accountId: string
+  balance: number
+  // True for cookie sessions without a wallet
+  anonymous: boolean
+}
+
+export interface DemoGameRecord {
+  accountId: string
+  betId: string
+  result: 'win' | 'loss'
+  amount: number
+  payout: number
+  tier: string
+  fairRoll: FairRoll
+}
+
+export interface DemoGameOutcome {
+  recorded: boolean
+  balance: number
+}
+
+// Public account id of an anonymous session. demo_history is readable by
+// anyone, so it must not reveal the cookie that opens the session.
+function anonymousAccountId(sessionId: string): string {
+  return `anon:${createHash('sha256').update(sessionId).digest('hex').slice(0, 32)}`
+}
+
+// Account for the request: the signed-in wallet, else the anonymous cookie
+// session. `newSessionId` is set when a cookie has to be issued.
+export function resolveDemoAccountId(request: NextRequest): { accountId: string; newSessionId: string | null } {
+  const wallet = getSessionWallet(request)
+  if (wallet) return { accountId: wallet, newSessionId: null }
+
+  const cookie = request.cookies.get(DEMO_COOKIE)?.value
+  if (cookie && ANONYMOUS_ID.test(cookie)) return { accountId: anonymousAccountId(cookie), newSessionId: null }
+
+  const sessionId = `anon:${randomBytes(16).toString('hex')}`
+  return { accountId: anonymousAccountId(sessionId), newSessionId: sessionId }
+}
+
+export function setDemoSessionCookie(response: NextResponse, sessionId: string | null): NextResponse {
+  if (!sessionId) return response
+  response.cookies.set(DEMO_COOKIE, sessionId, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: new Date(Date.now() + DEMO_SESSION_MS),
+  })
+  return response
+}
+
+// The account's balance, opening it with the starting balance on first use
+export async function getDemoAccount(accountId: string): Promise<DemoAccount> {
+  const { error: insertError } = await supabaseAdmin
+    .from('demo_accounts')
+    .upsert({ account_id: accountId, balance: DEMO_START_BALANCE }, { onConflict: 'account_id', ignoreDuplicates: true })
+
+  if (insertError) throw new Error(`Failed to open demo account: ${insertError.message}`)
+
+  const { data, error } = await supabaseAdmin
+    .from('demo_accounts')
+    .select('balance')
+    .eq('account_id', accountId)
+    .single()
+
+  if (error) throw new Error(`Failed to read demo account: ${error.message}`)
+  return { accountId, balance: Number(data.balance), anonymous: ANONYMOUS_ID.test(accountId) }
+}
+
+export async function resetDemoAccount(accountId: string): Promise<DemoAccount> {
+  const { error } = await supabaseAdmin
+    .from('demo_accounts')
+    .upsert({ account_id: accountId, balance: DEMO_START_BALANCE, updated_at: new Date().toISOString() })
+
+  if (error) throw new Error(`Failed to reset demo account: ${error.message}`)
+  return { accountId, balance: DEMO_START_BALANCE, anonymous: ANONYMOUS_ID.test(accountId) }
+}
+
+// Demo bets are SOL-denominated play money against the virtual bank
+export function getDemoBetLimits(multiplier = 2): BetLimits {
+  return {
+    ...limitsFromLiquidity(DEMO_BANK_BALANCE, 0, SOL_ASSET, multiplier),
+    walletExposureCap: null,
+  }
+}
+
+export function newDemoBetId(): string {
+  return `demo-${randomBytes(16).toString('hex')}`
+}
+
+// Settle a rolled demo bet against the account and record it (record_demo_game).
+// recorded = false means the balance could not cover the stake.
+export async function recordDemoGame(record: DemoGameRecord): Promise<DemoGameOutcome> {
+  const { data, error } = await supabaseAdmin.rpc('record_demo_game', {
+    p_account_id: record.accountId,
+    p_bet_id: record.betId,
+    p_result: record.result,
+    p_amount: record.amount,
+    p_payout: record.payout,
+    p_tier: record.tier,
+    p_win_chance: record.fairRoll.winChance,
+    p_roll: record.fairRoll.roll,
+    p_server_seed_hash: record.fairRoll.serverSeedHash,
+    p_client_seed: record.fairRoll.clientSeed,
+    p_nonce: record.fairRoll.nonce,
+  })
+
+  if (error) throw new Error(`Failed to record demo game: ${error.message}`)
+  return { recorded: !!data.recorded, balance: Number(data.balance) }
+}
+
+// Demo totals and recent demo bets, in the same shape as readStats
+export async function readDemoStats(): Promise<Stats> {
+  try {
+    const [{ data: statsData, error: statsError }, { data: historyData, error: historyError }] = await Promise.all([
+      supabase.from('demo_stats').select('*').eq('id', 1).maybeSingle(),
+      supabase.from('demo_history').select('*').order('timestamp', { ascending: false }).limit(100),
+    ])
+
+    if (statsError) console.error('Error reading demo stats:', statsError)
+    if (historyError) console.error('Error reading demo history:', historyError)
+
+    return {
+      totalBets: Number(statsData?.total_bets) || 0,
+      totalWagered: Number(statsData?.total_wagered) || 0,
+      wins: Number(statsData?.wins) || 0,
+      losses: Number(statsData?.losses) || 0,
+      gameHistory: (historyData || []).map((item: any) => ({
+        result: item.result,
+        amount: Number(item.amount),
+        asset: SOL_ASSET.symbol,
+        timestamp: new Date(item.timestamp).getTime(),
+        // Anonymous sessions have no wallet to show
+        playerWallet: ANONYMOUS_ID.test(item.account_id) ? undefined : item.account_id,
+      })),
+      assets: [],
+    }
+  } catch (error) {
+    console.error('Failed to read demo stats:', error)
+    return defaultStats
+  }
+}
@@ -0,0 +1,156 @@
+import { before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { Connection, Keypair, LAMPORTS_PER_SOL, PublicKey, TransactionInstruction } from '@solana/web3.js'
+import bs58 from 'bs58'
+
+// Settings are read when the modules are loaded, so they are set before the
+// dynamic imports below. No request reaches the database client.
+const escrowProgram = Keypair.generate().publicKey
+
+process.env.NEXT_PUBLIC_ESCROW_PROGRAM_ID = escrowProgram.toBase58()
+process.env.NEXT_PUBLIC_SUPABASE_URL = 'http://127.0.0.1:54321'
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'anon'
+
+let deposits: typeof import('@/lib/deposits')
+let escrow: typeof import('@/lib/escrow')
+
+before(async () => {
+  deposits = await import('@/lib/deposits')
+  escrow = await import('@/lib/escrow')
+})
+
+const player = Keypair.generate().publicKey
+const signature = bs58.encode(Buffer.alloc(64, 3))
+const STAKE = 0.1 * LAMPORTS_PER_SOL
+const PAYOUT = 0.2 * LAMPORTS_PER_SOL
+const COMMITMENT = 'ab'.repeat(32)
+
+function placeBet(betId: bigint): TransactionInstruction {
+  return escrow.placeBetInstruction({ player, betId, stake: STAKE, payout: PAYOUT, commitment: COMMITMENT })
+}
+
+// A landed transaction as getParsedTransaction returns it: the escrow
+// program's instructions are not parsed, only split into accounts and data
+function parsedTransaction(instructions: TransactionInstruction[], signers: PublicKey[]) {
+  const accountKeys = new Map<string, { pubkey: PublicKey; signer: boolean; writable: boolean }>()
+  for (const ix of instructions) {
+    for (const key of ix.keys) {
+      const signer = signers.some(s => s.equals(key.pubkey))
+      accountKeys.set(key.pubkey.toBase58(), { pubkey: key.pubkey, signer, writable: key.isWritable })
+    }
+  }
+
+  return {
+    meta: { err: null },
+    transaction: {
+      message: {
+        accountKeys: Array.from(accountKeys.values()),
+        instructions: instructions.map(ix => ({
+          programId: ix.programId,
+          accounts: ix.keys.map(key => key.pubkey),
+          data: bs58.encode(ix.data),
+        })),
+      },
+    },
+  }
+}
+
+function betAccountData(stake = STAKE, createdAt = Math.floor(Date.now() / 1000)): Buffer {
+  const numbers = Buffer.alloc(24)
+  numbers.writeBigUInt64LE(BigInt(1), 0)
+  numbers.writeBigUInt64LE(BigInt(stake), 8)
+  numbers.writeBigUInt64LE(BigInt(PAYOUT), 16)
+  const created = Buffer.alloc(8)
+  created.writeBigInt64LE(BigInt(createdAt))
+  return Buffer.concat([player.toBuffer(), numbers, Buffer.from(COMMITMENT, 'hex'), created, Buffer.from([255])])
+}
+
+// RPC stand-in serving one transaction and one open bet account
+function fakeConnection(tx: unknown, betData = betAccountData()): Connection {
+  return {
+    getParsedTransaction: async () => tx,
+    getAccountInfo: async () => ({ owner: escrowProgram, data: betData, lamports: STAKE, executable: false }),
+  } as unknown as Connection
+}
+
+describe('verifyEscrowBet', () => {
+  it('accepts the PlaceBet instruction that created the bet, signed by the player', async () => {
+    const bet = escrow.findBetAddress(player, BigInt(1))
+    const connection = fakeConnection(parsedTransaction([placeBet(BigInt(1))], [player]))
+
+    const verification = await deposits.verifyEscrowBet(connection, signature, player.toBase58(), 0.1, bet.toBase58())
+
+    assert.equal(verification.valid, true, verification.error)
+    assert.equal(verification.bet.stake, STAKE)
+  })
+
+  it('refuses another escrow instruction that merely lists an open bet', async () => {
+    const bet = escrow.findBetAddress(player, BigInt(1))
+    // Same accounts in the same places as PlaceBet, but another instruction
+    const foreign = escrow.reclaimInstruction(player, bet)
+    const connection = fakeConnection(parsedTransaction([foreign], [player]))
+
+    const verification = await deposits.verifyEscrowBet(connection, signature, player.toBase58(), 0.1, bet.toBase58())
+
+    assert.equal(verification.valid, false)
+    assert.equal(verification.error, 'Transaction did not place this escrow bet')
+  })
+
+  it('refuses an open bet appended to a PlaceBet for another bet account', async () => {
+    const oldBet = escrow.findBetAddress(player, BigInt(1))
+    // The program ignores the extra account, so this lands and leaves the old bet open
+    const newBet = placeBet(BigInt(2))
+    newBet.keys.push({ pubkey: oldBet, isSigner: false, isWritable: false })
+    const connection = fakeConnection(parsedTransaction([newBet], [player]))
+
+    const verification = await deposits.verifyEscrowBet(connection, signature, player.toBase58(), 0.1, oldBet.toBase58())
+
+    assert.equal(verification.valid, false)
+    assert.equal(verification.error, 'Transaction did not place this escrow bet')
+  })
+
+  it('refuses a PlaceBet the player did not sign', async () => {
+    const bet = escrow.findBetAddress(player, BigInt(1))
+    const connection = fakeConnection(parsedTransaction([placeBet(BigInt(1))], []))
+
+    const verification = await deposits.verifyEscrowBet(connection, signature, player.toBase58(), 0.1, bet.toBase58())
+
+    assert.equal(verification.valid, false)
+    assert.equal(verification.error, 'Transaction did not place this escrow bet')
+  })
+
+  it('refuses a stake that does not match the bet amount', async () => {
+    const bet = escrow.findBetAddress(player, BigInt(1))
+    const connection = fakeConnection(parsedTransaction([placeBet(BigInt(1))], [player]), betAccountData(STAKE / 2))
+
+    const verification = await deposits.verifyEscrowBet(connection, signature, player.toBase58(), 0.1, bet.toBase58())
+
+    assert.equal(verification.valid, false)
+    assert.equal(verification.error, 'Escrowed stake does not match bet amount')
+  })
+
+  it('refuses a transaction that failed on-chain', async () => {
+    const bet = escrow.findBetAddress(player, BigInt(1))
+    const tx = { ...parsedTransaction([placeBet(BigInt(1))], [player]), meta: { err: { InstructionError: [0, 'Custom'] } } }
+
+    const verification = await deposits.verifyEscrowBet(fakeConnection(tx), signature, player.toBase58(), 0.1, bet.toBase58())
+
+    assert.equal(verification.valid, false)
+    assert.equal(verification.error, 'Transaction failed on-chain')
+  })
+})
+
+describe('isStaleEscrowBet', () => {
+  const now = 1_800_000_000
+
+  it('rolls a bet with more than half its settle timeout left', () => {
+    const bet = escrow.decodeBet(player, betAccountData(STAKE, now - 100))
+    assert.equal(deposits.isStaleEscrowBet(bet, 300, now), false)
+  })
+
+  it('refuses a bet the player could soon reclaim', () => {
+    const bet = escrow.decodeBet(player, betAccountData(STAKE, now - 150))
+    assert.equal(deposits.isStaleEscrowBet(bet, 300, now), true)
+    assert.equal(deposits.isStaleEscrowBet(bet, 100, now), true)
+  })
+})
@@ -0,0 +1,267 @@
+import {
+  Connection,
+  SystemProgram,
+  Finality,
+  ParsedInstruction,
+  ParsedTransactionWithMeta,
+  PublicKey,
+} from '@solana/web3.js'
+import bs58 from 'bs58'
+import { BANK_WALLET_ADDRESS } from '@/lib/solana'
+import { getActiveSeed } from '@/lib/fairness'
+import { BetAsset, SOL_ASSET, fromBaseUnits, toBaseUnits } from '@/lib/assets'
+import { ESCROW_PROGRAM_ID, EscrowBet, escrowInstructionName, fetchBet, fetchHouse } from '@/lib/escrow'
+
+// On-chain checks of a player's deposit (or escrow bet) before /api/play rolls it
+
+// How long to wait for the deposit to reach the required commitment
+const VERIFY_TIMEOUT_MS = Number(process.env.VERIFY_TIMEOUT_MS) || 20000
+const VERIFY_POLL_INTERVAL_MS = 1500
+
+// Commitment the deposit must reach before we roll ('confirmed' or 'finalized')
+const VERIFY_COMMITMENT: Finality = process.env.VERIFY_COMMITMENT === 'finalized' ? 'finalized' : 'confirmed'
+
+// Time an escrow bet must have left before the player could reclaim it, so
+// the settle lands well inside the house's settle timeout. 0/unset = half the
+// settle timeout.
+const ESCROW_SETTLE_MARGIN_SECONDS = Number(process.env.ESCROW_SETTLE_MARGIN_SECONDS) || 0
+
+export interface DepositVerification {
+  valid: boolean
+  error?: string
+  actualAmount?: number
+  // The open bet account, for escrow bets
+  bet?: EscrowBet
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Fetch the parsed deposit transaction, polling until it is indexed at the
+// required commitment or the wait runs out
+async function fetchDepositTransaction(
+  connection: Connection,
+  signature: string
+): Promise<ParsedTransactionWithMeta | null> {
+  const deadline = Date.now() + VERIFY_TIMEOUT_MS
+
+  while (true) {
+    try {
+      const tx = await connection.getParsedTransaction(signature, {
+        commitment: VERIFY_COMMITMENT,
+        maxSupportedTransactionVersion: 0,
+      })
+      if (tx) return tx
+    } catch (error) {
+      // RPC hiccup - keep polling until the deadline
+      console.log('getParsedTransaction failed, retrying:', (error as Error).message)
+    }
+
+    if (Date.now() + VERIFY_POLL_INTERVAL_MS > deadline) return null
+    await sleep(VERIFY_POLL_INTERVAL_MS)
+  }
+}
+
+// Net change of an owner's token balance for one mint, in base units
+function tokenBalanceDelta(tx: ParsedTransactionWithMeta, owner: string, mint: string): number {
+  const sum = (balances: typeof tx.meta.preTokenBalances) => (balances || [])
+    .filter(balance => balance.owner === owner && balance.mint === mint)
+    .reduce((total, balance) => total + Number(balance.uiTokenAmount.amount), 0)
+
+  return sum(tx.meta.postTokenBalances) - sum(tx.meta.preTokenBalances)
+}
+
+// Verify the deposit on-chain. SOL bets must contain a SystemProgram transfer
+// of exactly the bet amount from the player to the bank wallet; token bets
+// must move exactly the bet amount of the mint from the player to the bank.
+export async function verifyTransaction(
+  connection: Connection,
+  signature: string,
+  expectedSender: string,
+  expectedAmount: number,
+  asset: BetAsset
+): Promise<DepositVerification> {
+  if (!BANK_WALLET_ADDRESS) {
+    return { valid: false, error: 'Bank wallet is not configured' }
+  }
+
+  const tx = await fetchDepositTransaction(connection, signature)
+
+  if (!tx) {
+    return { valid: false, error: `Transaction not ${VERIFY_COMMITMENT} in time, please retry` }
+  }
+
+  if (!tx.meta) {
+    return { valid: false, error: 'Transaction metadata unavailable' }
+  }
+
+  if (tx.meta.err) {
+    return { valid: false, error: 'Transaction failed on-chain' }
+  }
+
+  // Must match how CoinFlipGame builds the transfer
+  const expectedUnits = toBaseUnits(expectedAmount, asset)
+
+  if (asset.mint) {
+    // Token balances are keyed by owner, so this holds for any token account
+    // the bank owns, not only its associated one
+    const received = tokenBalanceDelta(tx, BANK_WALLET_ADDRESS, asset.mint)
+    const sent = -tokenBalanceDelta(tx, expectedSender, asset.mint)
+
+    if (received <= 0 || sent <= 0) {
+      return { valid: false, error: `No ${asset.symbol} transfer from player to bank found in transaction` }
+    }
+
+    if (received !== expectedUnits || sent !== expectedUnits) {
+      return {
+        valid: false,
+        error: 'Transferred amount does not match bet amount',
+        actualAmount: fromBaseUnits(received, asset),
+      }
+    }
+
+    console.log('Transaction verified:', {
+      signature: signature.slice(0, 20) + '...',
+      commitment: VERIFY_COMMITMENT,
+      asset: asset.symbol,
+      units: received,
+    })
+
+    return { valid: true, actualAmount: fromBaseUnits(received, asset) }
+  }
+
+  const transfer = tx.transaction.message.instructions.find((ix) => {
+    if (!('parsed' in ix) || !ix.programId.equals(SystemProgram.programId)) return false
+    const { type, info } = ix.parsed
+    return type === 'transfer' &&
+      info.source === expectedSender &&
+      info.destination === BANK_WALLET_ADDRESS
+  }) as ParsedInstruction | undefined
+
+  if (!transfer) {
+    return { valid: false, error: 'No transfer from player to bank found in transaction' }
+  }
+
+  const actualLamports = Number(transfer.parsed.info.lamports)
+  if (actualLamports !== expectedUnits) {
+    return {
+      valid: false,
+      error: 'Transferred amount does not match bet amount',
+      actualAmount: fromBaseUnits(actualLamports, asset),
+    }
+  }
+
+  console.log('Transaction verified:', {
+    signature: signature.slice(0, 20) + '...',
+    commitment: VERIFY_COMMITMENT,
+    lamports: actualLamports,
+  })
+
+  return { valid: true, actualAmount: fromBaseUnits(actualLamports, asset) }
+}
+
+// Whether the transaction has a PlaceBet instruction creating `escrowBet`,
+// signed by `player`. The program ignores extra accounts, so any other
+// instruction that merely lists the bet account proves nothing.
+function placesEscrowBet(tx: ParsedTransactionWithMeta, player: string, escrowBet: string): boolean {
+  const { accountKeys, instructions } = tx.transaction.message
+  const signed = accountKeys.some(key => key.signer && key.pubkey.toBase58() === player)
+  if (!signed) return false
+
+  return instructions.some(ix =>
+    ix.programId.equals(ESCROW_PROGRAM_ID!) &&
+    'data' in ix &&
+    escrowInstructionName({ data: Buffer.from(bs58.decode(ix.data)) }) === 'PlaceBet' &&
+    ix.accounts[0]?.toBase58() === player &&
+    ix.accounts[2]?.toBase58() === escrowBet
+  )
+}
+
+// Verify an escrowed SOL bet: the transaction must have placed the bet
+// account through the escrow program, and the account must still be open
+// with the player's stake locked in it
+export async function verifyEscrowBet(
+  connection: Connection,
+  signature: string,
+  expectedSender: string,
+  expectedAmount: number,
+  escrowBet: string
+): Promise<DepositVerification> {
+  const tx = await fetchDepositTransaction(connection, signature)
+
+  if (!tx) {
+    return { valid: false, error: `Transaction not ${VERIFY_COMMITMENT} in time, please retry` }
+  }
+
+  if (!tx.meta) {
+    return { valid: false, error: 'Transaction metadata unavailable' }
+  }
+
+  if (tx.meta.err) {
+    return { valid: false, error: 'Transaction failed on-chain' }
+  }
+
+  if (!placesEscrowBet(tx, expectedSender, escrowBet)) {
+    return { valid: false, error: 'Transaction did not place this escrow bet' }
+  }
+
+  const bet = await fetchBet(connection, new PublicKey(escrowBet), VERIFY_COMMITMENT)
+
+  if (!bet) {
+    return { valid: false, error: 'Escrow bet is no longer open' }
+  }
+
+  if (bet.player !== expectedSender) {
+    return { valid: false, error: 'Escrow bet belongs to another wallet' }
+  }
+
+  const actualAmount = fromBaseUnits(bet.stake, SOL_ASSET)
+  if (bet.stake !== toBaseUnits(expectedAmount, SOL_ASSET)) {
+    return { valid: false, error: 'Escrowed stake does not match bet amount', actualAmount }
+  }
+
+  console.log('Escrow bet verified:', {
+    signature: signature.slice(0, 20) + '...',
+    commitment: VERIFY_COMMITMENT,
+    bet: escrowBet,
+    lamports: bet.stake,
+  })
+
+  return { valid: true, actualAmount, bet }
+}
+
+// Whether a bet is too close to its settle timeout to be rolled: once the
+// player can reclaim it, a lost bet could be reclaimed before it is settled
+export function isStaleEscrowBet(bet: EscrowBet, settleTimeout: number, now = Date.now() / 1000): boolean {
+  const margin = ESCROW_SETTLE_MARGIN_SECONDS || settleTimeout / 2
+  return bet.createdAt + settleTimeout - margin <= now
+}
+
+// Terms the escrow program can not check itself: the bet must leave time to
+// settle, the locked payout must be the tier's, and the bet must be committed
+// to the seed it will be rolled with
+export async function checkEscrowTerms(
+  connection: Connection,
+  bet: EscrowBet,
+  playerWallet: string,
+  potentialWin: number
+): Promise<string | null> {
+  const house = await fetchHouse(connection)
+  if (!house) {
+    return 'Escrow house is not initialized'
+  }
+
+  if (isStaleEscrowBet(bet, house.settleTimeout)) {
+    return 'Escrow bet is too close to its settle timeout, place a new bet'
+  }
+
+  if (bet.payout !== toBaseUnits(potentialWin, SOL_ASSET)) {
+    return 'Escrowed payout does not match the selected tier'
+  }
+
+  const seed = await getActiveSeed(playerWallet)
+  if (bet.commitment !== seed.serverSeedHash) {
+    return 'Bet is committed to a different server seed'
+  }
+
+  return null
+}
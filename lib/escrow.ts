@@ -0,0 +1,292 @@
+import {
+  Connection,
+  Commitment,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+} from '@solana/web3.js'
+import { Buffer } from 'buffer'
+
+// Client bindings for the escrow program in programs/escrow. Instruction
+// layouts and account sizes must match programs/escrow/src.
+//
+// Escrow mode is on when NEXT_PUBLIC_ESCROW_PROGRAM_ID is set (shared by the
+// game and the server). SOL bets are then locked in a bet PDA instead of
+// being sent to the bank wallet; token bets keep using the bank wallet.
+
+function parseProgramId(): PublicKey | null {
+  const value = process.env.NEXT_PUBLIC_ESCROW_PROGRAM_ID
+  if (!value) return null
+  try {
+    return new PublicKey(value)
+  } catch {
+    console.warn('NEXT_PUBLIC_ESCROW_PROGRAM_ID is not a valid address, escrow mode is disabled')
+    return null
+  }
+}
+
+export const ESCROW_PROGRAM_ID = parseProgramId()
+export const ESCROW_ENABLED = !!ESCROW_PROGRAM_ID
+
+const BPF_LOADER_UPGRADEABLE_PROGRAM_ID = new PublicKey('BPFLoaderUpgradeab1e11111111111111111111111')
+
+const HOUSE_SEED = 'house'
+const BET_SEED = 'bet'
+
+export const HOUSE_ACCOUNT_SIZE = 32 + 8 + 1
+export const BET_ACCOUNT_SIZE = 32 + 8 + 8 + 8 + 32 + 8 + 1
+
+// Custom error codes from programs/escrow/src/error.rs
+export const ESCROW_ERRORS: Record<number, string> = {
+  0: 'Invalid instruction',
+  1: 'House already initialized',
+  2: 'Invalid house account',
+  3: 'Invalid bet account',
+  4: 'Unauthorized',
+  5: 'Invalid amount',
+  6: 'House liquidity too low for this payout',
+  7: 'Bet can not be reclaimed before the settle timeout',
+  8: 'Invalid program data account',
+}
+
+enum Tag {
+  InitializeHouse = 0,
+  PlaceBet = 1,
+  Settle = 2,
+  Cancel = 3,
+  Reclaim = 4,
+  Withdraw = 5,
+  SetAuthority = 6,
+}
+
+export interface EscrowHouse {
+  address: string
+  authority: string
+  // Seconds after placement a player may reclaim an unsettled bet
+  settleTimeout: number
+  // Lamports held, rent included
+  lamports: number
+}
+
+export interface EscrowBet {
+  address: string
+  player: string
+  betId: string
+  // Lamports locked by the player
+  stake: number
+  // Lamports paid to the player on a win, stake included
+  payout: number
+  // Hex SHA-256 of the server seed the bet is rolled against
+  commitment: string
+  // Unix seconds
+  createdAt: number
+}
+
+function programId(): PublicKey {
+  if (!ESCROW_PROGRAM_ID) throw new Error('Escrow program is not configured')
+  return ESCROW_PROGRAM_ID
+}
+
+function u64Bytes(value: number | bigint): Buffer {
+  const bytes = Buffer.alloc(8)
+  bytes.writeBigUInt64LE(BigInt(value))
+  return bytes
+}
+
+export function findHouseAddress(): PublicKey {
+  return PublicKey.findProgramAddressSync([Buffer.from(HOUSE_SEED)], programId())[0]
+}
+
+export function findBetAddress(player: PublicKey, betId: bigint): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from(BET_SEED), player.toBuffer(), u64Bytes(betId)],
+    programId()
+  )[0]
+}
+
+// Random id for a new bet; together with the player it derives the bet address
+export function newBetId(): bigint {
+  const bytes = crypto.getRandomValues(new Uint8Array(8))
+  return Buffer.from(bytes).readBigUInt64LE()
+}
+
+// The program's ProgramData account (upgradeable loader), which holds its upgrade authority
+export function findProgramDataAddress(): PublicKey {
+  return PublicKey.findProgramAddressSync([programId().toBuffer()], BPF_LOADER_UPGRADEABLE_PROGRAM_ID)[0]
+}
+
+// `authority` must be the program's upgrade authority
+export function initializeHouseInstruction(authority: PublicKey, settleTimeoutSeconds: number): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: programId(),
+    keys: [
+      { pubkey: authority, isSigner: true, isWritable: true },
+      { pubkey: findHouseAddress(), isSigner: false, isWritable: true },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: findProgramDataAddress(), isSigner: false, isWritable: false },
+    ],
+    data: Buffer.concat([Buffer.from([Tag.InitializeHouse]), u64Bytes(settleTimeoutSeconds)]),
+  })
+}
+
+export function placeBetInstruction(params: {
+  player: PublicKey
+  betId: bigint
+  stake: number
+  payout: number
+  // Hex SHA-256 of the player's active server seed
+  commitment: string
+}): TransactionInstruction {
+  const commitment = Buffer.from(params.commitment, 'hex')
+  if (commitment.length !== 32) throw new Error('Commitment must be a 32-byte hex hash')
+
+  return new TransactionInstruction({
+    programId: programId(),
+    keys: [
+      { pubkey: params.player, isSigner: true, isWritable: true },
+      { pubkey: findHouseAddress(), isSigner: false, isWritable: true },
+      { pubkey: findBetAddress(params.player, params.betId), isSigner: false, isWritable: true },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    ],
+    data: Buffer.concat([
+      Buffer.from([Tag.PlaceBet]),
+      u64Bytes(params.betId),
+      u64Bytes(params.stake),
+      u64Bytes(params.payout),
+      commitment,
+    ]),
+  })
+}
+
+function authorityKeys(authority: PublicKey, bet: PublicKey, player: PublicKey) {
+  return [
+    { pubkey: authority, isSigner: true, isWritable: false },
+    { pubkey: findHouseAddress(), isSigner: false, isWritable: true },
+    { pubkey: bet, isSigner: false, isWritable: true },
+    { pubkey: player, isSigner: false, isWritable: true },
+  ]
+}
+
+export function settleInstruction(
+  authority: PublicKey,
+  bet: PublicKey,
+  player: PublicKey,
+  playerWins: boolean
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: programId(),
+    keys: authorityKeys(authority, bet, player),
+    data: Buffer.from([Tag.Settle, playerWins ? 1 : 0]),
+  })
+}
+
+export function cancelInstruction(authority: PublicKey, bet: PublicKey, player: PublicKey): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: programId(),
+    keys: authorityKeys(authority, bet, player),
+    data: Buffer.from([Tag.Cancel]),
+  })
+}
+
+export function reclaimInstruction(player: PublicKey, bet: PublicKey): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: programId(),
+    keys: [
+      { pubkey: player, isSigner: true, isWritable: true },
+      { pubkey: findHouseAddress(), isSigner: false, isWritable: true },
+      { pubkey: bet, isSigner: false, isWritable: true },
+    ],
+    data: Buffer.from([Tag.Reclaim]),
+  })
+}
+
+export function withdrawInstruction(authority: PublicKey, destination: PublicKey, lamports: number): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: programId(),
+    keys: [
+      { pubkey: authority, isSigner: true, isWritable: false },
+      { pubkey: findHouseAddress(), isSigner: false, isWritable: true },
+      { pubkey: destination, isSigner: false, isWritable: true },
+    ],
+    data: Buffer.concat([Buffer.from([Tag.Withdraw]), u64Bytes(lamports)]),
+  })
+}
+
+export function setAuthorityInstruction(authority: PublicKey, newAuthority: PublicKey): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: programId(),
+    keys: [
+      { pubkey: authority, isSigner: true, isWritable: false },
+      { pubkey: findHouseAddress(), isSigner: false, isWritable: true },
+    ],
+    data: Buffer.concat([Buffer.from([Tag.SetAuthority]), newAuthority.toBuffer()]),
+  })
+}
+
+export type EscrowInstructionName = keyof typeof Tag
+
+// Name of an escrow instruction from its tag, null for an unknown tag
+export function escrowInstructionName(instruction: Pick<TransactionInstruction, 'data'>): EscrowInstructionName | null {
+  return (Tag[instruction.data[0]] as EscrowInstructionName) ?? null
+}
+
+// Key a SetAuthority instruction hands the house to
+export function escrowNewAuthority(instruction: TransactionInstruction): PublicKey {
+  return new PublicKey(instruction.data.subarray(1, 33))
+}
+
+// Lamports an instruction takes out of the house to a destination of the
+// authority's choosing: the amount for withdraw, 0 for anything else
+export function escrowWithdrawLamports(instruction: TransactionInstruction): number {
+  return instruction.data[0] === Tag.Withdraw ? Number(instruction.data.readBigUInt64LE(1)) : 0
+}
+
+export function decodeBet(address: PublicKey, data: Buffer): EscrowBet {
+  return {
+    address: address.toBase58(),
+    player: new PublicKey(data.subarray(0, 32)).toBase58(),
+    betId: data.readBigUInt64LE(32).toString(),
+    stake: Number(data.readBigUInt64LE(40)),
+    payout: Number(data.readBigUInt64LE(48)),
+    commitment: data.subarray(56, 88).toString('hex'),
+    createdAt: Number(data.readBigInt64LE(88)),
+  }
+}
+
+// An open bet, or null once it has been settled, cancelled or reclaimed
+export async function fetchBet(
+  connection: Connection,
+  address: PublicKey,
+  commitment: Commitment = 'confirmed'
+): Promise<EscrowBet | null> {
+  const account = await connection.getAccountInfo(address, commitment)
+  if (!account || !account.owner.equals(programId()) || account.data.length !== BET_ACCOUNT_SIZE) {
+    return null
+  }
+  return decodeBet(address, Buffer.from(account.data))
+}
+
+export async function fetchHouse(connection: Connection): Promise<EscrowHouse | null> {
+  const address = findHouseAddress()
+  const account = await connection.getAccountInfo(address)
+  if (!account || !account.owner.equals(programId()) || account.data.length !== HOUSE_ACCOUNT_SIZE) {
+    return null
+  }
+  const data = Buffer.from(account.data)
+  return {
+    address: address.toBase58(),
+    authority: new PublicKey(data.subarray(0, 32)).toBase58(),
+    settleTimeout: Number(data.readBigInt64LE(32)),
+    lamports: account.lamports,
+  }
+}
+
+// Turn a failed escrow transaction's error into a readable message
+export function describeEscrowError(error: any): string {
+  const match = String(error?.message || '').match(/custom program error: 0x([0-9a-f]+)/i)
+  if (match) {
+    const message = ESCROW_ERRORS[parseInt(match[1], 16)]
+    if (message) return message
+  }
+  return error?.message || 'Escrow transaction failed'
+}
@@ -0,0 +1,196 @@
+import { createHash, createHmac, randomBytes } from 'crypto'
+import { supabaseAdmin } from '@/lib/supabase'
+
+// ============================================
+// PROVABLY FAIR - Commit / Reveal
+// ============================================
+// Every wallet has an active server seed. Only its SHA-256 hash is
+// published until the player rotates the seed, at which point the seed
+// itself is revealed and a new one is committed.
+//
+// Each flip uses HMAC-SHA256(key = serverSeed, message = `${clientSeed}:${nonce}`).
+// The first 8 hex characters of the digest, divided by 2^32, give a roll
+// in [0, 1). The player wins if the roll is below the win chance of the
+// risk tier they bet on (0.5 for the default 2x tier).
+//
+// Anyone can recompute a flip from the revealed seed, their client seed
+// and the nonce, and check the seed against the hash shown before the bet.
+// ============================================
+
+// Win chance of bets rolled before risk tiers existed
+export const WIN_CHANCE = 0.5
+
+export interface ServerSeed {
+  id: number
+  playerWallet: string
+  serverSeedHash: string
+  // Only set once the seed has been revealed
+  serverSeed: string | null
+  nonce: number
+  createdAt: string
+  revealedAt: string | null
+}
+
+export interface FairRoll {
+  result: 'win' | 'loss'
+  roll: number
+  winChance: number
+  seedId: number
+  serverSeedHash: string
+  clientSeed: string
+  nonce: number
+}
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505'
+
+export function hashServerSeed(serverSeed: string): string {
+  return createHash('sha256').update(serverSeed).digest('hex')
+}
+
+export function computeRoll(serverSeed: string, clientSeed: string, nonce: number): number {
+  const digest = createHmac('sha256', serverSeed)
+    .update(`${clientSeed}:${nonce}`)
+    .digest('hex')
+  return parseInt(digest.slice(0, 8), 16) / 0x100000000
+}
+
+export function resultFromRoll(roll: number, winChance = WIN_CHANCE): 'win' | 'loss' {
+  return roll < winChance ? 'win' : 'loss'
+}
+
+function mapSeed(row: any): ServerSeed {
+  return {
+    id: row.id,
+    playerWallet: row.player_wallet,
+    serverSeedHash: row.server_seed_hash,
+    serverSeed: row.revealed_at ? row.server_seed : null,
+    nonce: Number(row.nonce),
+    createdAt: row.created_at,
+    revealedAt: row.revealed_at,
+  }
+}
+
+async function findActiveSeedRow(playerWallet: string): Promise<any | null> {
+  const { data, error } = await supabaseAdmin
+    .from('fairness_seeds')
+    .select('*')
+    .eq('player_wallet', playerWallet)
+    .is('revealed_at', null)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+// Fetch the wallet's active seed row, committing a new seed if it has none
+async function getActiveSeedRow(playerWallet: string): Promise<any> {
+  const existing = await findActiveSeedRow(playerWallet)
+  if (existing) return existing
+
+  const serverSeed = randomBytes(32).toString('hex')
+  const { data, error } = await supabaseAdmin
+    .from('fairness_seeds')
+    .insert({
+      player_wallet: playerWallet,
+      server_seed: serverSeed,
+      server_seed_hash: hashServerSeed(serverSeed),
+      nonce: 0,
+    })
+    .select()
+    .single()
+
+  if (!error) return data
+
+  // Another request committed a seed for this wallet first
+  if (error.code === UNIQUE_VIOLATION) {
+    const row = await findActiveSeedRow(playerWallet)
+    if (row) return row
+  }
+  throw error
+}
+
+export async function getActiveSeed(playerWallet: string): Promise<ServerSeed> {
+  return mapSeed(await getActiveSeedRow(playerWallet))
+}
+
+// The wallet's active seed without committing one, null if it has none yet
+export async function findActiveSeed(playerWallet: string): Promise<ServerSeed | null> {
+  const row = await findActiveSeedRow(playerWallet)
+  return row ? mapSeed(row) : null
+}
+
+export async function getSeedById(id: number): Promise<ServerSeed | null> {
+  const { data, error } = await supabaseAdmin
+    .from('fairness_seeds')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? mapSeed(data) : null
+}
+
+export async function listRevealedSeeds(playerWallet: string, limit = 10): Promise<ServerSeed[]> {
+  const { data, error } = await supabaseAdmin
+    .from('fairness_seeds')
+    .select('*')
+    .eq('player_wallet', playerWallet)
+    .not('revealed_at', 'is', null)
+    .order('revealed_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+  return (data || []).map(mapSeed)
+}
+
+// Reveal the active seed and commit a new one
+export async function rotateSeed(
+  playerWallet: string
+): Promise<{ revealed: ServerSeed | null; next: ServerSeed }> {
+  const { data, error } = await supabaseAdmin
+    .from('fairness_seeds')
+    .update({ revealed_at: new Date().toISOString() })
+    .eq('player_wallet', playerWallet)
+    .is('revealed_at', null)
+    .select()
+    .maybeSingle()
+
+  if (error) throw error
+
+  const next = await getActiveSeed(playerWallet)
+  return { revealed: data ? mapSeed(data) : null, next }
+}
+
+// Roll a flip against the wallet's active seed, consuming one nonce
+export async function rollForPlay(
+  playerWallet: string,
+  clientSeed: string,
+  winChance = WIN_CHANCE
+): Promise<FairRoll> {
+  // The seed can be rotated between reading it and claiming a nonce; retry once
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const seed = await getActiveSeedRow(playerWallet)
+
+    const { data: nonce, error } = await supabaseAdmin.rpc('next_fairness_nonce', {
+      p_seed_id: seed.id,
+    })
+
+    if (error) throw error
+    if (nonce === null || nonce === undefined) continue
+
+    const roll = computeRoll(seed.server_seed, clientSeed, Number(nonce))
+
+    return {
+      result: resultFromRoll(roll, winChance),
+      roll,
+      winChance,
+      seedId: seed.id,
+      serverSeedHash: seed.server_seed_hash,
+      clientSeed,
+      nonce: Number(nonce),
+    }
+  }
+
+  throw new Error('Could not claim a fairness nonce')
+}
@@ -0,0 +1,47 @@
+import { mock } from 'node:test'
+
+// Test stand-in for supabase-js queries. Every query on the client is
+// recorded with its builder calls, and each one that is awaited (directly or
+// through single/maybeSingle) resolves to the next queued response.
+
+export interface QueryResponse {
+  data?: any
+  error?: { code?: string; message: string } | null
+}
+
+export interface RecordedQuery {
+  table: string
+  // Builder calls in order, e.g. ['eq', 'status', 'sent']
+  calls: any[][]
+}
+
+export function fakeQueries(client: { from: (table: string) => any }, responses: QueryResponse[]): RecordedQuery[] {
+  const queries: RecordedQuery[] = []
+  const next = () => {
+    const { data = null, error = null } = responses.shift() || {}
+    return Promise.resolve({ data, error })
+  }
+
+  mock.method(client, 'from', (table: string) => {
+    const query: RecordedQuery = { table, calls: [] }
+    queries.push(query)
+
+    const builder: any = new Proxy({}, {
+      get(_, name: string) {
+        if (name === 'then') return (resolve: any, reject: any) => next().then(resolve, reject)
+        return (...args: any[]) => {
+          query.calls.push([name, ...args])
+          return name === 'single' || name === 'maybeSingle' ? next() : builder
+        }
+      },
+    })
+    return builder
+  })
+
+  return queries
+}
+
+// Arguments of the first `name` call on a query
+export function callOf(query: RecordedQuery, name: string): any[] | undefined {
+  return query.calls.find(call => call[0] === name)?.slice(1)
+}
@@ -0,0 +1,53 @@
+import { ComputeBudgetProgram, Connection, PublicKey, TransactionInstruction } from '@solana/web3.js'
+
+// Compute budget and priority fee for server-sent transactions (payouts and
+// treasury sweeps). The price is a percentile of the fees recently paid to
+// write the same accounts, capped so one transaction never pays more than
+// PAYOUT_PRIORITY_FEE_MAX_LAMPORTS in priority fees.
+
+// Unset uses the default; 0 is a valid setting
+function numberFromEnv(name: string, fallback: number): number {
+  return process.env[name] ? Number(process.env[name]) : fallback
+}
+
+const PAYOUT_COMPUTE_UNIT_LIMIT = Number(process.env.PAYOUT_COMPUTE_UNIT_LIMIT) || 200000
+const PAYOUT_PRIORITY_FEE_PERCENTILE = Math.min(100, Number(process.env.PAYOUT_PRIORITY_FEE_PERCENTILE) || 75)
+// micro-lamports per compute unit
+const PAYOUT_PRIORITY_FEE_MIN_MICROLAMPORTS = numberFromEnv('PAYOUT_PRIORITY_FEE_MIN_MICROLAMPORTS', 1000)
+// 0 = no priority fee
+const PAYOUT_PRIORITY_FEE_MAX_LAMPORTS = numberFromEnv('PAYOUT_PRIORITY_FEE_MAX_LAMPORTS', 100000)
+
+const MAX_MICROLAMPORTS = Math.floor(PAYOUT_PRIORITY_FEE_MAX_LAMPORTS * 1_000_000 / PAYOUT_COMPUTE_UNIT_LIMIT)
+
+// Price in micro-lamports per compute unit for a transaction writing
+// `writable`, from the fees paid in recent slots
+export async function estimatePriorityFee(connection: Connection, writable: PublicKey[]): Promise<number> {
+  if (MAX_MICROLAMPORTS <= 0) return 0
+
+  let fee = PAYOUT_PRIORITY_FEE_MIN_MICROLAMPORTS
+  try {
+    const recent = await connection.getRecentPrioritizationFees({ lockedWritableAccounts: writable })
+    const fees = recent.map(slot => slot.prioritizationFee).sort((a, b) => a - b)
+    if (fees.length) {
+      const index = Math.min(fees.length - 1, Math.floor(fees.length * PAYOUT_PRIORITY_FEE_PERCENTILE / 100))
+      fee = Math.max(fee, fees[index])
+    }
+  } catch (error) {
+    console.warn('Failed to read recent priority fees, using the minimum:', error)
+  }
+
+  return Math.min(fee, MAX_MICROLAMPORTS)
+}
+
+// Compute budget instructions to put in front of `instructions`
+export async function computeBudgetInstructions(
+  connection: Connection,
+  instructions: TransactionInstruction[]
+): Promise<TransactionInstruction[]> {
+  const writable = instructions.flatMap(ix => ix.keys.filter(key => key.isWritable).map(key => key.pubkey))
+  const microLamports = await estimatePriorityFee(connection, writable)
+
+  const budget = [ComputeBudgetProgram.setComputeUnitLimit({ units: PAYOUT_COMPUTE_UNIT_LIMIT })]
+  if (microLamports > 0) budget.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports }))
+  return budget
+}
@@ -0,0 +1,76 @@
+// Risk tiers players can pick from. Each tier wins when the fair roll is
+// below its win chance (reduced by the tier's house edge) and pays the bet
+// times its multiplier. Override with GAME_TIERS (JSON), e.g.
+// [{"id":"2x","winChance":0.5,"multiplier":2},{"id":"10x","winChance":0.1,"multiplier":10,"houseEdge":0.02}]
+export interface GameTier {
+  id: string
+  // Chance to win before the house edge, in (0, 1)
+  winChance: number
+  // Payout as a multiple of the bet, including the stake
+  multiplier: number
+  // Share of the win chance kept by the house, 0 = fair odds
+  houseEdge: number
+}
+
+const DEFAULT_TIERS: GameTier[] = [
+  { id: '2x', winChance: 0.5, multiplier: 2, houseEdge: 0 },
+  { id: '4x', winChance: 0.25, multiplier: 4, houseEdge: 0 },
+  { id: '10x', winChance: 0.1, multiplier: 10, houseEdge: 0 },
+]
+
+function parseTiers(): GameTier[] {
+  if (!process.env.GAME_TIERS) return DEFAULT_TIERS
+
+  let configured: any[]
+  try {
+    configured = JSON.parse(process.env.GAME_TIERS)
+  } catch {
+    console.warn('GAME_TIERS is not valid JSON, using the default tiers')
+    return DEFAULT_TIERS
+  }
+
+  const tiers = (Array.isArray(configured) ? configured : [])
+    .map(tier => ({
+      id: tier?.id,
+      winChance: Number(tier?.winChance),
+      multiplier: Number(tier?.multiplier),
+      houseEdge: Number(tier?.houseEdge) || 0,
+    }))
+    .filter((tier) => {
+      const valid = typeof tier.id === 'string' && tier.id.length > 0 && tier.id.length <= 16 &&
+        tier.winChance > 0 && tier.winChance < 1 &&
+        tier.multiplier > 1 &&
+        tier.houseEdge >= 0 && tier.houseEdge < 1
+      if (!valid) console.warn('Ignoring invalid game tier:', tier.id)
+      return valid
+    })
+
+  return tiers.length > 0 ? tiers : DEFAULT_TIERS
+}
+
+export const GAME_TIERS: GameTier[] = parseTiers()
+
+// The first configured tier is used for bets that do not name one
+export const DEFAULT_TIER = GAME_TIERS[0]
+
+// Look up a configured tier by id; a missing id means the default tier
+export function getGameTier(id?: string | null): GameTier | null {
+  if (!id) return DEFAULT_TIER
+  return GAME_TIERS.find(tier => tier.id === id) || null
+}
+
+// Roll threshold after the house edge - the player wins below it. Rounded
+// to the 8 decimals plays.win_chance stores, so verification rolls the same.
+export function effectiveWinChance(tier: GameTier): number {
+  return Math.round(tier.winChance * (1 - tier.houseEdge) * 1e8) / 1e8
+}
+
+// Tier as advertised by GET /api/play
+export function toTierResponse(tier: GameTier) {
+  return {
+    id: tier.id,
+    winChance: effectiveWinChance(tier),
+    multiplier: tier.multiplier,
+    houseEdge: tier.houseEdge,
+  }
+}
@@ -0,0 +1,79 @@
+import { supabaseAdmin } from '@/lib/supabase'
+
+// Leaderboards are served from player_daily_totals, which record_game keeps
+// up to date, so ranking never scans game_history.
+
+export type LeaderboardMetric = 'profit' | 'volume' | 'streak'
+export type LeaderboardPeriod = 'daily' | 'weekly' | 'monthly' | 'all'
+
+export const LEADERBOARD_METRICS: LeaderboardMetric[] = ['profit', 'volume', 'streak']
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['daily', 'weekly', 'monthly', 'all']
+
+export const MAX_LEADERBOARD_LIMIT = 100
+
+// Number of UTC days each period covers, today included
+const PERIOD_DAYS: Record<LeaderboardPeriod, number | null> = {
+  daily: 1,
+  weekly: 7,
+  monthly: 30,
+  all: null,
+}
+
+export interface LeaderboardEntry {
+  rank: number
+  playerWallet: string
+  bets: number
+  wagered: number
+  netProfit: number
+  wins: number
+  losses: number
+  bestWinStreak: number
+}
+
+// First UTC day (YYYY-MM-DD) included in a period, or null for all time
+export function periodStart(period: LeaderboardPeriod, now = new Date()): string | null {
+  const days = PERIOD_DAYS[period]
+  if (days === null) return null
+
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - (days - 1)))
+  return start.toISOString().slice(0, 10)
+}
+
+export async function getLeaderboard(
+  metric: LeaderboardMetric,
+  period: LeaderboardPeriod,
+  limit = 20,
+  asset = 'SOL'
+): Promise<LeaderboardEntry[]> {
+  const { data, error } = await supabaseAdmin.rpc('leaderboard', {
+    p_metric: metric,
+    p_since: periodStart(period),
+    p_limit: limit,
+    p_asset: asset,
+  })
+
+  if (error) throw error
+
+  return (data || []).map((row: any, i: number) => ({
+    rank: i + 1,
+    playerWallet: row.player_wallet,
+    bets: Number(row.bets) || 0,
+    wagered: Number(row.wagered) || 0,
+    netProfit: Number(row.net_profit) || 0,
+    wins: Number(row.wins) || 0,
+    losses: Number(row.losses) || 0,
+    bestWinStreak: Number(row.best_win_streak) || 0,
+  }))
+}
+
+// Backfill win streaks and player_daily_totals from game_history
+export async function rebuildPlayerTotals(): Promise<number> {
+  const { data, error } = await supabaseAdmin.rpc('rebuild_player_daily_totals')
+
+  if (error) {
+    console.error('Error rebuilding player totals:', error)
+    throw error
+  }
+
+  return Number(data) || 0
+}
@@ -0,0 +1,195 @@
+import { Connection, PublicKey } from '@solana/web3.js'
+import { getAssociatedTokenAddressSync } from '@solana/spl-token'
+import { supabaseAdmin } from '@/lib/supabase'
+import { BANK_WALLET_ADDRESS } from '@/lib/solana'
+import { getOutstandingLiabilities } from '@/lib/payouts'
+import { BetAsset, SOL_ASSET, floorToAsset } from '@/lib/assets'
+import { ESCROW_ENABLED } from '@/lib/escrow'
+import { RISK_PAUSE_REASON, RiskState, checkExposure, getRiskState, pauseOnBreach } from '@/lib/risk'
+import { TREASURY_EXPOSED_RESERVE_SOL, getHotBalance } from '@/lib/treasury'
+
+// Bet limits enforced by /api/play and published by GET /api/play.
+// SPL tokens take min/max bet from their NEXT_PUBLIC_BET_ASSETS entry.
+const MIN_BET_SOL = Number(process.env.MIN_BET_SOL) || 0.001
+// Absolute cap on a single bet, 0 = only the liquidity rule applies
+const MAX_BET_SOL = Number(process.env.MAX_BET_SOL) || 0
+// Max bet as a share of the bank's free liquidity (balance minus unpaid payouts)
+const MAX_BET_BANK_FRACTION = Number(process.env.MAX_BET_BANK_FRACTION) || 0.1
+// Max net winnings a single wallet may take from the bank per window, 0 = disabled
+const WALLET_EXPOSURE_CAP_SOL = Number(process.env.WALLET_EXPOSURE_CAP_SOL) || 0
+const WALLET_EXPOSURE_WINDOW_HOURS = Number(process.env.WALLET_EXPOSURE_WINDOW_HOURS) || 24
+
+export interface BetLimits {
+  asset: string
+  minBet: number
+  maxBet: number
+  maxBetFraction: number
+  bankBalance: number
+  // Cold treasury SOL included in bankBalance (SOL only)
+  exposedReserve: number
+  pendingPayouts: number
+  availableLiquidity: number
+  walletExposureCap: number | null
+  walletExposureWindowHours: number
+  // Bankroll risk state (SOL only), already applied to maxBet
+  risk: RiskState | null
+}
+
+export interface BetCheck {
+  ok: boolean
+  // Why the bet was refused, when ok is false
+  reason?: string
+  limits: BetLimits
+}
+
+// The bank's balance of an asset: the hot wallet's SOL (see lib/treasury),
+// its associated token account for SPL tokens (0 until that account exists)
+async function getBankBalance(connection: Connection, asset: BetAsset): Promise<number> {
+  if (!asset.mint) return getHotBalance(connection)
+
+  if (!BANK_WALLET_ADDRESS) return 0
+  const bank = new PublicKey(BANK_WALLET_ADDRESS)
+  const tokenAccount = getAssociatedTokenAddressSync(new PublicKey(asset.mint), bank)
+  try {
+    const { value } = await connection.getTokenAccountBalance(tokenAccount)
+    return Number(value.amount) / 10 ** asset.decimals
+  } catch (error: any) {
+    if (String(error.message).includes('could not find account')) return 0
+    throw error
+  }
+}
+
+// Current limits for an asset from the live bank balance (plus the exposed
+// cold reserve for SOL). `excludeDeposit` removes a deposit that has already
+// landed, so a bet is judged against the bank as it was before the player
+// sent it. Higher multipliers put more of the bank at risk per unit bet, so
+// the liquidity rule scales with `multiplier - 1` (the bank's net loss on a
+// win).
+export async function getBetLimits(
+  connection: Connection,
+  excludeDeposit = 0,
+  asset: BetAsset = SOL_ASSET,
+  multiplier = 2
+): Promise<BetLimits> {
+  const [balance, liabilities] = await Promise.all([
+    getBankBalance(connection, asset),
+    getOutstandingLiabilities(asset.symbol),
+  ])
+
+  const exposedReserve = asset.mint ? 0 : TREASURY_EXPOSED_RESERVE_SOL
+  const limits = limitsFromLiquidity(
+    balance + exposedReserve - excludeDeposit,
+    liabilities.pending + liabilities.sent + liabilities.failed,
+    asset,
+    multiplier
+  )
+  if (asset.mint) return limits
+
+  // The max bet shrinks with the bank's drawdown and reserve
+  const risk = await getRiskState(limits.bankBalance, limits.availableLiquidity)
+  return { ...limits, exposedReserve, maxBet: floorToAsset(limits.maxBet * risk.maxBetScale, asset), risk }
+}
+
+// Smallest bet taken in an asset. Smaller deposits are refunded like any
+// other bet that breaks the limits.
+export function minBetFor(asset: BetAsset): number {
+  return asset.minBet ?? (!asset.mint ? MIN_BET_SOL : 10 ** -asset.decimals)
+}
+
+// Limits for a bank of `bankBalance` with `pendingPayouts` still owed. Also
+// used by demo mode with its virtual bank.
+export function limitsFromLiquidity(
+  bankBalance: number,
+  pendingPayouts: number,
+  asset: BetAsset = SOL_ASSET,
+  multiplier = 2
+): BetLimits {
+  const availableLiquidity = Math.max(0, bankBalance - pendingPayouts)
+
+  const isSol = !asset.mint
+  const minBet = minBetFor(asset)
+  const maxBetCap = asset.maxBet ?? (isSol ? MAX_BET_SOL : 0)
+
+  let maxBet = availableLiquidity * MAX_BET_BANK_FRACTION / (multiplier - 1)
+  if (maxBetCap > 0) maxBet = Math.min(maxBet, maxBetCap)
+
+  return {
+    asset: asset.symbol,
+    minBet,
+    maxBet: floorToAsset(maxBet, asset),
+    maxBetFraction: MAX_BET_BANK_FRACTION,
+    bankBalance,
+    exposedReserve: 0,
+    pendingPayouts,
+    availableLiquidity,
+    // The exposure cap is denominated in SOL and only applies to SOL bets
+    walletExposureCap: isSol && WALLET_EXPOSURE_CAP_SOL > 0 ? WALLET_EXPOSURE_CAP_SOL : null,
+    walletExposureWindowHours: WALLET_EXPOSURE_WINDOW_HOURS,
+    risk: null,
+  }
+}
+
+// Net SOL a wallet has won from the bank within the exposure window
+export async function getWalletExposure(playerWallet: string): Promise<number> {
+  const since = new Date(Date.now() - WALLET_EXPOSURE_WINDOW_HOURS * 60 * 60 * 1000).toISOString()
+
+  const { data, error } = await supabaseAdmin
+    .from('game_history')
+    .select('amount, payout')
+    .eq('player_wallet', playerWallet)
+    .eq('asset', SOL_ASSET.symbol)
+    .gte('timestamp', since)
+
+  if (error) throw error
+
+  return (data || []).reduce(
+    (net, row: any) => net + (Number(row.payout) || 0) - Number(row.amount),
+    0
+  )
+}
+
+// Why a bet of `amount` breaks the min/max bet, or null if it does not
+export function checkBetSize(limits: BetLimits, amount: number): string | null {
+  if (amount < limits.minBet) return `Bet is below the minimum of ${limits.minBet} ${limits.asset}`
+  if (amount > limits.maxBet) return `Bet exceeds the current maximum of ${limits.maxBet} ${limits.asset}`
+  return null
+}
+
+// Check a verified deposit against the limits before it is rolled
+export async function checkBet(
+  connection: Connection,
+  playerWallet: string,
+  amount: number,
+  potentialWin: number,
+  asset: BetAsset = SOL_ASSET
+): Promise<BetCheck> {
+  // An escrowed bet never reaches the house; placing it locked the house's
+  // share of the payout instead, so that share is added back
+  const excludeDeposit = ESCROW_ENABLED && !asset.mint ? amount - potentialWin : amount
+  const limits = await getBetLimits(connection, excludeDeposit, asset, potentialWin / amount)
+
+  if (limits.risk) {
+    if (await pauseOnBreach(limits.risk)) {
+      return { ok: false, reason: `Bets paused: ${RISK_PAUSE_REASON}`, limits }
+    }
+
+    const exposureError = checkExposure(limits.risk, potentialWin - amount)
+    if (exposureError) return { ok: false, reason: exposureError, limits }
+  }
+
+  const reason = checkBetSize(limits, amount)
+  if (reason) return { ok: false, reason, limits }
+
+  if (limits.walletExposureCap !== null) {
+    const exposure = await getWalletExposure(playerWallet)
+    if (exposure + (potentialWin - amount) > limits.walletExposureCap) {
+      return {
+        ok: false,
+        reason: `Bet would exceed the ${limits.walletExposureCap} SOL per-wallet exposure cap for the last ${limits.walletExposureWindowHours}h`,
+        limits,
+      }
+    }
+  }
+
+  return { ok: true, limits }
+}
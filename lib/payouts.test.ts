@@ -0,0 +1,171 @@
+import { afterEach, before, describe, it, mock } from 'node:test'
+import assert from 'node:assert/strict'
+import { Connection, Keypair } from '@solana/web3.js'
+import bs58 from 'bs58'
+import { callOf, fakeQueries } from '@/lib/fakeSupabase'
+
+// The client is created when lib/supabase is loaded; no request reaches it
+process.env.NEXT_PUBLIC_SUPABASE_URL = 'http://127.0.0.1:54321'
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'anon'
+process.env.SUPABASE_SERVICE_ROLE_KEY = 'service'
+
+let payouts: typeof import('@/lib/payouts')
+let supabaseAdmin: typeof import('@/lib/supabase').supabaseAdmin
+
+before(async () => {
+  payouts = await import('@/lib/payouts')
+  supabaseAdmin = (await import('@/lib/supabase')).supabaseAdmin
+})
+
+afterEach(() => mock.restoreAll())
+
+const player = Keypair.generate().publicKey.toBase58()
+const depositSignature = bs58.encode(Buffer.alloc(64, 1))
+const payoutSignature = bs58.encode(Buffer.alloc(64, 2))
+
+function payoutRow(fields: Record<string, any> = {}) {
+  return {
+    id: 7,
+    play_signature: depositSignature,
+    player_wallet: player,
+    amount: '0.2',
+    asset: 'SOL',
+    kind: 'refund',
+    escrow_bet: null,
+    status: 'pending',
+    signature: null,
+    last_valid_block_height: null,
+    nonce_account: null,
+    nonce: null,
+    signed_transaction: null,
+    attempts: 0,
+    next_attempt_at: '2026-01-01T00:00:00Z',
+    last_error: null,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    confirmed_at: null,
+    ...fields,
+  }
+}
+
+function playRow(fields: Record<string, any> = {}) {
+  return {
+    signature: depositSignature,
+    player_wallet: player,
+    amount: '0.2',
+    asset: 'SOL',
+    status: 'refund_pending',
+    nonce: null,
+    payout_amount: null,
+    ...fields,
+  }
+}
+
+// A payout sent in a transaction that is still in flight and can still land
+const inFlight = payoutRow({
+  status: 'sent',
+  signature: payoutSignature,
+  last_valid_block_height: 200,
+  signed_transaction: Buffer.from('signed').toString('base64'),
+  attempts: 1,
+})
+
+function fakeConnection(methods: Record<string, (...args: any[]) => any>): Connection {
+  return methods as unknown as Connection
+}
+
+const inFlightConnection = () => fakeConnection({
+  getBlockHeight: async () => 100,
+  getSignatureStatuses: async () => ({ value: [null] }),
+  sendRawTransaction: async () => payoutSignature,
+})
+
+describe('processPayout', () => {
+  it('leaves a payout alone while another worker holds its lease', async () => {
+    const queries = fakeQueries(supabaseAdmin, [{ data: null }])
+
+    assert.equal(await payouts.processPayout(inFlightConnection(), 7), null)
+    assert.equal(queries.length, 1)
+    assert.deepEqual(callOf(queries[0], 'in'), ['status', ['pending', 'sent']])
+    assert.match(callOf(queries[0], 'or')[0], /^locked_until\.is\.null,locked_until\.lt\./)
+  })
+
+  it('saves a payout only while it still has the status it was read with', async () => {
+    const queries = fakeQueries(supabaseAdmin, [{ data: inFlight }, { data: inFlight }])
+
+    const payout = await payouts.processPayout(inFlightConnection(), 7)
+
+    assert.equal(payout.status, 'sent')
+    const save = queries[1]
+    assert.equal(callOf(save, 'update')[0].locked_until, null)
+    assert.deepEqual(save.calls.filter(call => call[0] === 'eq'), [
+      ['eq', 'id', 7],
+      ['eq', 'status', 'sent'],
+    ])
+  })
+
+  it('drops its result when the payout changed while it was processed', async () => {
+    // e.g. an operator marked it paid: the conditional save matches no row
+    const queries = fakeQueries(supabaseAdmin, [{ data: inFlight }, { data: null }])
+
+    assert.equal(await payouts.processPayout(inFlightConnection(), 7), null)
+    assert.equal(queries.length, 2)
+  })
+})
+
+describe('markPayoutPaid', () => {
+  const confirmed = () => fakeConnection({
+    getSignatureStatuses: async () => ({ value: [{ confirmationStatus: 'confirmed', err: null }] }),
+  })
+
+  it('refuses a malformed signature without touching the queue', async () => {
+    const queries = fakeQueries(supabaseAdmin, [])
+
+    await assert.rejects(payouts.markPayoutPaid(confirmed(), 7, 'not-a-signature'), (error: any) => error.invalidSignature)
+    assert.equal(queries.length, 0)
+  })
+
+  it('refuses a transaction that is not confirmed or failed', async () => {
+    const queries = fakeQueries(supabaseAdmin, [])
+
+    const processed = fakeConnection({
+      getSignatureStatuses: async () => ({ value: [{ confirmationStatus: 'processed', err: null }] }),
+    })
+    await assert.rejects(payouts.markPayoutPaid(processed, 7, payoutSignature), /not confirmed/)
+
+    const failed = fakeConnection({
+      getSignatureStatuses: async () => ({ value: [{ confirmationStatus: 'finalized', err: { InstructionError: [0, 'Custom'] } }] }),
+    })
+    await assert.rejects(payouts.markPayoutPaid(failed, 7, payoutSignature), /failed on-chain/)
+
+    assert.equal(queries.length, 0)
+  })
+
+  it('marks only pending or failed payouts that are not leased', async () => {
+    const queries = fakeQueries(supabaseAdmin, [
+      { data: payoutRow({ status: 'confirmed', signature: payoutSignature }) },
+      { data: playRow({ status: 'refunded', payout_signature: payoutSignature }) },
+    ])
+
+    const payout = await payouts.markPayoutPaid(confirmed(), 7, payoutSignature)
+
+    assert.equal(payout.status, 'confirmed')
+    assert.deepEqual(callOf(queries[0], 'in'), ['status', ['pending', 'failed']])
+    assert.equal(callOf(queries[0], 'update')[0].signature, payoutSignature)
+    assert.equal(callOf(queries[1], 'update')[0].status, 'refunded')
+  })
+
+  it('returns null for a payout a worker is sending', async () => {
+    fakeQueries(supabaseAdmin, [{ data: null }])
+
+    assert.equal(await payouts.markPayoutPaid(confirmed(), 7, payoutSignature), null)
+  })
+})
+
+describe('isRefundable', () => {
+  it('skips SOL refunds below the network fee', () => {
+    assert.equal(payouts.isRefundable(0.000001, 'SOL'), false)
+    assert.equal(payouts.isRefundable(0.000005, 'SOL'), true)
+    assert.equal(payouts.isRefundable(0.001, 'SOL'), true)
+  })
+})
@@ -0,0 +1,713 @@
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+} from '@solana/web3.js'
+import bs58 from 'bs58'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getBetAsset, toBaseUnits, transferInstructions } from '@/lib/assets'
+import { cancelInstruction, fetchHouse, settleInstruction } from '@/lib/escrow'
+import { BANK_WALLET_ADDRESS } from '@/lib/solana'
+import { computeBudgetInstructions } from '@/lib/fees'
+import { PayoutSigner, findSignerKey, getPayoutSigner, payoutKey } from '@/lib/signer'
+import { isValidSignature, updatePlay, PlayStatus, PlayUpdate } from '@/lib/plays'
+import { setHistoryPayoutSignature } from '@/lib/stats'
+
+// Lifecycle of a payout:
+// pending -> sent -> confirmed (sent transactions are rebroadcast until they land)
+// sent -> pending (blockhash expired or nonce advanced without it landing, or
+//   transaction failed; re-signed on next attempt)
+// pending -> failed (attempts exhausted, needs an operator)
+export type PayoutStatus = 'pending' | 'sent' | 'confirmed' | 'failed'
+
+// win: winnings for a won flip; refund: a deposit returned because it broke the bet limits;
+// loss: an escrow bet settled in the house's favour (nothing is paid to the player)
+export type PayoutKind = 'win' | 'refund' | 'loss'
+
+// Play status mirrored from each payout status
+const PLAY_STATUS: Record<PayoutKind, Record<PayoutStatus, PlayStatus>> = {
+  win: {
+    pending: 'payout_pending',
+    sent: 'payout_sent',
+    confirmed: 'payout_confirmed',
+    failed: 'payout_failed',
+  },
+  refund: {
+    pending: 'refund_pending',
+    sent: 'refund_pending',
+    confirmed: 'refunded',
+    failed: 'refund_failed',
+  },
+  loss: {
+    pending: 'rolled',
+    sent: 'rolled',
+    confirmed: 'settled',
+    failed: 'payout_failed',
+  },
+}
+
+export interface Payout {
+  id: number
+  playSignature: string
+  playerWallet: string
+  amount: number
+  // Paid in the same asset as the bet
+  asset: string
+  kind: PayoutKind
+  // Escrow bet account; set when the payout settles it instead of transferring from the bank
+  escrowBet: string | null
+  status: PayoutStatus
+  signature: string | null
+  lastValidBlockHeight: number | null
+  // Durable nonce the sent transaction uses instead of a recent blockhash
+  nonceAccount: string | null
+  nonce: string | null
+  // Sent transaction (base64), kept for rebroadcasting
+  signedTransaction: string | null
+  attempts: number
+  nextAttemptAt: string
+  lastError: string | null
+  createdAt: string
+  updatedAt: string
+  confirmedAt: string | null
+}
+
+// Send attempts before a payout is flagged for an operator
+const PAYOUT_MAX_ATTEMPTS = Number(process.env.PAYOUT_MAX_ATTEMPTS) || 8
+// Retry backoff: base * 2^(attempts - 1), capped
+const PAYOUT_BACKOFF_BASE_MS = 15000
+const PAYOUT_BACKOFF_MAX_MS = 60 * 60 * 1000
+// How soon to check on a sent transaction again after an RPC error
+const PAYOUT_CONFIRM_INTERVAL_MS = 5000
+// How often a sent transaction is rebroadcast until it lands
+const PAYOUT_REBROADCAST_INTERVAL_MS = 2000
+// How long one worker run keeps rebroadcasting in-flight payouts. Keep it
+// under the platform's function timeout.
+const PAYOUT_WORKER_BUDGET_MS = Number(process.env.PAYOUT_WORKER_BUDGET_MS) || 20000
+// Lease held by a worker while it processes a payout
+const PAYOUT_LOCK_MS = 60000
+// Wins still 'rolled' (or refunds never sent) after this long are re-queued
+const ORPHANED_PLAY_AGE_MS = 2 * 60 * 1000
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505'
+
+// Base fee of a one-signature transaction. A SOL refund below it would cost
+// the bank more than it returns.
+const REFUND_MIN_LAMPORTS = 5000
+
+// Durable nonce accounts (authority held by the payout signer). While set,
+// payouts are signed against a nonce instead of a recent blockhash, so a
+// re-signed payout and the transaction it replaces can never both land.
+function parseNonceAccounts(): PublicKey[] {
+  const value = process.env.PAYOUT_NONCE_ACCOUNTS
+  if (!value) return []
+  try {
+    return value.split(',').map(address => new PublicKey(address.trim()))
+  } catch {
+    console.warn('PAYOUT_NONCE_ACCOUNTS has an invalid address, payouts use recent blockhashes')
+    return []
+  }
+}
+
+const PAYOUT_NONCE_ACCOUNTS = parseNonceAccounts()
+
+function mapPayout(row: any): Payout {
+  return {
+    id: row.id,
+    playSignature: row.play_signature,
+    playerWallet: row.player_wallet,
+    amount: Number(row.amount),
+    asset: row.asset || 'SOL',
+    kind: row.kind || 'win',
+    escrowBet: row.escrow_bet ?? null,
+    status: row.status,
+    signature: row.signature,
+    lastValidBlockHeight: row.last_valid_block_height === null ? null : Number(row.last_valid_block_height),
+    nonceAccount: row.nonce_account ?? null,
+    nonce: row.nonce ?? null,
+    signedTransaction: row.signed_transaction ?? null,
+    attempts: row.attempts,
+    nextAttemptAt: row.next_attempt_at,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    confirmedAt: row.confirmed_at,
+  }
+}
+
+// Mirror a payout's state onto its play. Refunds keep the play's error,
+// which records why the deposit was refused.
+async function syncPlay(
+  payout: Pick<Payout, 'playSignature' | 'kind'>,
+  status: PayoutStatus,
+  update: Omit<PlayUpdate, 'status'> = {}
+): Promise<void> {
+  const { error, ...rest } = update
+  await updatePlay(payout.playSignature, {
+    ...rest,
+    ...(payout.kind === 'win' && error !== undefined && { error }),
+    status: PLAY_STATUS[payout.kind][status],
+  })
+}
+
+// Escrow payouts are retried without backing off: a bet left unsettled past
+// the house's settle timeout can be reclaimed by the player, lost or not
+function backoffMs(payout: Payout): number {
+  if (payout.escrowBet) return PAYOUT_BACKOFF_BASE_MS
+  return Math.min(PAYOUT_BACKOFF_BASE_MS * 2 ** Math.max(0, payout.attempts - 1), PAYOUT_BACKOFF_MAX_MS)
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+function inMs(ms: number): string {
+  return new Date(Date.now() + ms).toISOString()
+}
+
+export async function getPayoutForPlay(playSignature: string): Promise<Payout | null> {
+  const { data, error } = await supabaseAdmin
+    .from('payouts')
+    .select('*')
+    .eq('play_signature', playSignature)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? mapPayout(data) : null
+}
+
+export async function listPayoutsForWallet(playerWallet: string, limit = 20): Promise<Payout[]> {
+  const { data, error } = await supabaseAdmin
+    .from('payouts')
+    .select('*')
+    .eq('player_wallet', playerWallet)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+  return (data || []).map(mapPayout)
+}
+
+// Whether a refused deposit is worth refunding. Token refunds always are:
+// their fee is paid in SOL, not out of the refund.
+export function isRefundable(amount: number, asset = 'SOL'): boolean {
+  const betAsset = getBetAsset(asset)
+  if (!betAsset || betAsset.mint) return true
+  return toBaseUnits(amount, betAsset) >= REFUND_MIN_LAMPORTS
+}
+
+// Queue a payout (winnings or a refund, or an escrow settlement) for a play.
+// One payout per play: queuing twice returns the existing row.
+export async function createPayout(
+  playSignature: string,
+  playerWallet: string,
+  amount: number,
+  kind: PayoutKind = 'win',
+  asset = 'SOL',
+  escrowBet: string | null = null
+): Promise<Payout> {
+  const { data, error } = await supabaseAdmin
+    .from('payouts')
+    .insert({
+      play_signature: playSignature,
+      player_wallet: playerWallet,
+      amount,
+      asset,
+      kind,
+      escrow_bet: escrowBet,
+      status: 'pending',
+    })
+    .select()
+    .single()
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) {
+      const existing = await getPayoutForPlay(playSignature)
+      if (existing) return existing
+    }
+    throw error
+  }
+
+  await syncPlay({ playSignature, kind }, 'pending')
+
+  console.log('Payout queued:', { playSignature, playerWallet, amount, asset, kind, escrowBet })
+  return mapPayout(data)
+}
+
+// Take the processing lease on a payout so two workers never send it at once
+async function lockPayout(id: number): Promise<Payout | null> {
+  const now = new Date().toISOString()
+  const { data, error } = await supabaseAdmin
+    .from('payouts')
+    .update({ locked_until: inMs(PAYOUT_LOCK_MS) })
+    .eq('id', id)
+    .in('status', ['pending', 'sent'])
+    .or(`locked_until.is.null,locked_until.lt."${now}"`)
+    .select()
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? mapPayout(data) : null
+}
+
+// Write the payout's new state and release the lease. Only applies while
+// the row still has the status the worker read (`payout.status`), so an
+// operator action or another worker is never overwritten; throws with
+// `payoutChanged` otherwise.
+async function savePayout(payout: Payout, fields: Record<string, any>): Promise<Payout> {
+  const { data, error } = await supabaseAdmin
+    .from('payouts')
+    .update({
+      ...fields,
+      locked_until: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', payout.id)
+    .eq('status', payout.status)
+    .select()
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) {
+    throw Object.assign(new Error(`Payout ${payout.id} changed while it was being processed`), { payoutChanged: true })
+  }
+  return mapPayout(data)
+}
+
+// Record a failed attempt: retry with backoff, or flag for an operator
+async function failAttempt(
+  payout: Payout,
+  message: string,
+  fields: Record<string, any> = {}
+): Promise<Payout> {
+  if (payout.attempts >= PAYOUT_MAX_ATTEMPTS) {
+    console.error('PAYOUT FAILED - operator action required:', {
+      id: payout.id,
+      playSignature: payout.playSignature,
+      playerWallet: payout.playerWallet,
+      amount: payout.amount,
+      error: message,
+    })
+    await syncPlay(payout, 'failed', { error: message })
+    return savePayout(payout, { ...fields, status: 'failed', last_error: message })
+  }
+
+  console.log('Payout attempt failed, retrying later:', { id: payout.id, attempts: payout.attempts, error: message })
+  await syncPlay(payout, 'pending', { error: message })
+  return savePayout(payout, {
+    ...fields,
+    status: 'pending',
+    last_error: message,
+    next_attempt_at: inMs(backoffMs(payout)),
+  })
+}
+
+// Instructions paying out an escrow bet, signed by the house's authority
+function escrowInstructions(authority: PublicKey, payout: Payout) {
+  const bet = new PublicKey(payout.escrowBet!)
+  const player = new PublicKey(payout.playerWallet)
+
+  if (payout.kind === 'refund') {
+    return [cancelInstruction(authority, bet, player)]
+  }
+  return [settleInstruction(authority, bet, player, payout.kind === 'win')]
+}
+
+interface SignedPayout {
+  transaction: Transaction
+  // Set for blockhash transactions
+  lastValidBlockHeight: number | null
+  // Set for durable nonce transactions
+  nonceAccount: string | null
+  nonce: string | null
+}
+
+// Build and sign the payout transfer with a fresh blockhash, or the current
+// value of its durable nonce. A compute budget with a priority fee from
+// recent fees goes in front. Token payouts create the player's associated
+// token account if they have none. Escrow payouts are signed by whichever
+// signer key is the house authority, so the authority can be rotated without
+// stopping payouts.
+async function buildSignedPayout(
+  connection: Connection,
+  signer: PayoutSigner,
+  payout: Payout
+): Promise<SignedPayout> {
+  const asset = getBetAsset(payout.asset)
+  if (!asset) {
+    throw new Error(`Asset ${payout.asset} is no longer configured`)
+  }
+
+  const payer = payoutKey(signer, BANK_WALLET_ADDRESS)
+  let authority: PublicKey | null = null
+  if (payout.escrowBet) {
+    const house = await fetchHouse(connection)
+    authority = house && findSignerKey(signer, house.authority)
+    if (!authority) throw new Error('Escrow house authority is not a payout signer key')
+  }
+
+  const instructions = authority
+    ? escrowInstructions(authority, payout)
+    // A refunded token deposit came from the player's token account, so
+    // the bank never pays rent to create one for a refund
+    : transferInstructions(asset, payer, new PublicKey(payout.playerWallet), payout.amount, payer, payout.kind !== 'refund')
+
+  const transaction = new Transaction()
+  const signed: SignedPayout = { transaction, lastValidBlockHeight: null, nonceAccount: null, nonce: null }
+  let nonceAuthority: PublicKey | null = null
+
+  const nonceAccount = PAYOUT_NONCE_ACCOUNTS.length
+    ? PAYOUT_NONCE_ACCOUNTS[payout.id % PAYOUT_NONCE_ACCOUNTS.length]
+    : null
+  if (nonceAccount) {
+    const account = await connection.getNonce(nonceAccount, 'confirmed')
+    if (!account) throw new Error(`Nonce account ${nonceAccount.toBase58()} not found`)
+    nonceAuthority = findSignerKey(signer, account.authorizedPubkey.toBase58())
+    if (!nonceAuthority) throw new Error('Nonce authority is not a payout signer key')
+
+    // Advancing the nonce has to be the first instruction
+    transaction.add(SystemProgram.nonceAdvance({ noncePubkey: nonceAccount, authorizedPubkey: nonceAuthority }))
+    transaction.recentBlockhash = account.nonce
+    signed.nonceAccount = nonceAccount.toBase58()
+    signed.nonce = account.nonce
+  } else {
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed')
+    transaction.recentBlockhash = blockhash
+    signed.lastValidBlockHeight = lastValidBlockHeight
+  }
+
+  transaction.add(...await computeBudgetInstructions(connection, instructions), ...instructions)
+  transaction.feePayer = payer
+
+  const keys: PublicKey[] = []
+  for (const key of [payer, authority, nonceAuthority]) {
+    if (key && !keys.some(k => k.equals(key))) keys.push(key)
+  }
+  for (const key of keys) await signer.sign(transaction, key)
+
+  return signed
+}
+
+// Whether a sent payout's transaction can still land: its blockhash has not
+// expired, or its nonce has not advanced
+async function canStillLand(connection: Connection, payout: Payout): Promise<boolean> {
+  if (payout.nonceAccount) {
+    const account = await connection.getNonce(new PublicKey(payout.nonceAccount), 'confirmed')
+    return !!account && account.nonce === payout.nonce
+  }
+  if (payout.lastValidBlockHeight === null) return true
+  return (await connection.getBlockHeight('confirmed')) <= payout.lastValidBlockHeight
+}
+
+// Send the stored transaction again. Under load the cluster drops
+// transactions, and RPC nodes give up retrying them.
+async function rebroadcastPayout(connection: Connection, payout: Payout): Promise<void> {
+  if (!payout.signedTransaction) return
+  try {
+    await connection.sendRawTransaction(Buffer.from(payout.signedTransaction, 'base64'), {
+      skipPreflight: true,
+      maxRetries: 0,
+    })
+  } catch (error: any) {
+    console.warn('Payout rebroadcast failed:', { id: payout.id, error: error.message })
+  }
+}
+
+async function sendPayout(connection: Connection, payout: Payout): Promise<Payout> {
+  if (payout.attempts >= PAYOUT_MAX_ATTEMPTS) {
+    return failAttempt(payout, payout.lastError || 'Payout attempts exhausted')
+  }
+
+  const attempt: Payout = { ...payout, attempts: payout.attempts + 1 }
+
+  const signer = await getPayoutSigner()
+  if (!signer) {
+    return failAttempt(attempt, 'Payout signer not available', { attempts: attempt.attempts })
+  }
+
+  let signed: SignedPayout
+  try {
+    signed = await buildSignedPayout(connection, signer, payout)
+  } catch (error: any) {
+    // Nothing was broadcast, safe to retry from scratch
+    return failAttempt(attempt, error.message || 'Failed to build payout', { attempts: attempt.attempts })
+  }
+
+  const signature = bs58.encode(signed.transaction.signature!)
+  const serialized = signed.transaction.serialize()
+
+  // Record the signed transaction before broadcasting. If the send errors
+  // after reaching the network, the next pass finds this transaction and
+  // rebroadcasts it until it lands or expires instead of paying twice. If
+  // the row changed meanwhile (e.g. marked paid), this throws and nothing
+  // is broadcast.
+  const sent = await savePayout(payout, {
+    status: 'sent',
+    signature,
+    last_valid_block_height: signed.lastValidBlockHeight,
+    nonce_account: signed.nonceAccount,
+    nonce: signed.nonce,
+    signed_transaction: serialized.toString('base64'),
+    attempts: attempt.attempts,
+    last_error: null,
+    next_attempt_at: inMs(PAYOUT_REBROADCAST_INTERVAL_MS),
+  })
+  await syncPlay(payout, 'sent', { payoutSignature: signature, error: null })
+    .catch(error => console.error('Failed to mirror sent payout to play:', error))
+
+  try {
+    await connection.sendRawTransaction(serialized, {
+      skipPreflight: false,
+      preflightCommitment: 'confirmed',
+    })
+  } catch (error: any) {
+    console.error('Payout broadcast failed, rebroadcasting until it expires:', error)
+    return savePayout(sent, { last_error: error.message || 'Payout broadcast failed' })
+  }
+
+  console.log('Payout sent:', { id: payout.id, kind: payout.kind, to: payout.playerWallet, amount: payout.amount, asset: payout.asset, signature })
+  return sent
+}
+
+async function confirmPayout(payout: Payout): Promise<Payout> {
+  console.log('Payout confirmed:', { id: payout.id, signature: payout.signature })
+
+  await syncPlay(payout, 'confirmed', { payoutSignature: payout.signature!, error: null })
+  if (payout.kind === 'win') {
+    await setHistoryPayoutSignature(payout.playSignature, payout.signature!)
+      .catch(error => console.error('Failed to link payout to history:', error))
+  }
+
+  return savePayout(payout, {
+    status: 'confirmed',
+    last_error: null,
+    signed_transaction: null,
+    confirmed_at: new Date().toISOString(),
+  })
+}
+
+// Advance one payout: send it, check on (and rebroadcast) a sent
+// transaction, or re-sign it once it can no longer land
+export async function processPayout(connection: Connection, id: number): Promise<Payout | null> {
+  const payout = await lockPayout(id)
+  if (!payout) return null
+
+  // Awaited inside the try, so a payout that changed meanwhile is caught below
+  try {
+    if (payout.status === 'sent' && payout.signature) {
+      // Checked before the status, so a transaction landing in between is
+      // found by the status check rather than re-signed
+      const canLand = await canStillLand(connection, payout)
+
+      const { value } = await connection.getSignatureStatuses([payout.signature], {
+        searchTransactionHistory: true,
+      })
+      const status = value[0]
+
+      if (status?.err) {
+        return await failAttempt(payout, `Payout transaction failed: ${JSON.stringify(status.err)}`)
+      }
+
+      if (status?.confirmationStatus === 'confirmed' || status?.confirmationStatus === 'finalized') {
+        return await confirmPayout(payout)
+      }
+
+      // Still in flight - keep sending it, and only re-sign once it can no longer land
+      if (canLand) {
+        await rebroadcastPayout(connection, payout)
+        return await savePayout(payout, { next_attempt_at: inMs(PAYOUT_REBROADCAST_INTERVAL_MS) })
+      }
+
+      console.log(payout.nonceAccount ? 'Payout nonce advanced, re-signing:' : 'Payout blockhash expired, re-signing:', {
+        id: payout.id,
+        signature: payout.signature,
+      })
+    }
+
+    return await sendPayout(connection, payout)
+  } catch (error: any) {
+    if (error.payoutChanged) {
+      console.warn('Payout changed while being processed, leaving it:', { id })
+      return null
+    }
+
+    // RPC trouble while checking - keep the state and look again later
+    console.error('Payout processing error:', error)
+    return savePayout(payout, {
+      last_error: error.message || 'Payout processing error',
+      next_attempt_at: inMs(PAYOUT_CONFIRM_INTERVAL_MS),
+    }).catch((saveError: any) => {
+      if (saveError.payoutChanged) return null
+      throw saveError
+    })
+  }
+}
+
+// Queue payouts for wins and refunds (and escrow losses) that never got one
+// (e.g. the request died between deciding the play and queuing), so no win
+// is silently lost. Plays that already have a row are left out by the query
+// (escrow losses stay 'rolled' after their payout), oldest first so a backlog
+// drains instead of re-reading the same page.
+async function enqueueOrphanedPlays(): Promise<void> {
+  const { data, error } = await supabaseAdmin.rpc('orphaned_plays', {
+    p_before: new Date(Date.now() - ORPHANED_PLAY_AGE_MS).toISOString(),
+    p_limit: 50,
+  })
+
+  if (error) throw error
+
+  for (const play of data || []) {
+    const kind: PayoutKind = play.status === 'refund_pending' ? 'refund' : play.result === 'win' ? 'win' : 'loss'
+    const amount = kind === 'win' ? Number(play.payout_amount) : kind === 'refund' ? Number(play.amount) : 0
+    console.log('Queuing orphaned play:', { signature: play.signature, kind })
+    await createPayout(play.signature, play.player_wallet, amount, kind, play.asset || 'SOL', play.escrow_bet)
+  }
+}
+
+// Worker entry point: process every payout that is due, then keep passing
+// over the ones still in flight (rebroadcasting them) until they land or
+// PAYOUT_WORKER_BUDGET_MS runs out
+export async function processDuePayouts(connection: Connection, limit = 20): Promise<Payout[]> {
+  await enqueueOrphanedPlays()
+
+  const deadline = Date.now() + PAYOUT_WORKER_BUDGET_MS
+  const processed = new Map<number, Payout>()
+
+  while (true) {
+    const { data, error } = await supabaseAdmin
+      .from('payouts')
+      .select('id')
+      .in('status', ['pending', 'sent'])
+      .lte('next_attempt_at', new Date().toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(limit)
+
+    if (error) throw error
+
+    for (const { id } of data || []) {
+      const payout = await processPayout(connection, id)
+      if (payout) processed.set(payout.id, payout)
+    }
+
+    const inFlight = Array.from(processed.values()).some(payout => payout.status === 'sent')
+    if (!inFlight || Date.now() + PAYOUT_REBROADCAST_INTERVAL_MS > deadline) break
+    await sleep(PAYOUT_REBROADCAST_INTERVAL_MS)
+  }
+
+  return Array.from(processed.values())
+}
+
+export async function listPayouts(statuses: PayoutStatus[], limit = 100): Promise<Payout[]> {
+  const { data, error } = await supabaseAdmin
+    .from('payouts')
+    .select('*')
+    .in('status', statuses)
+    .order('created_at', { ascending: true })
+    .limit(limit)
+
+  if (error) throw error
+  return (data || []).map(mapPayout)
+}
+
+// Amount of an asset owed to players on payouts that have not been confirmed
+// yet. Escrow payouts are left out: their funds are already locked in the bet.
+export async function getOutstandingLiabilities(
+  asset = 'SOL'
+): Promise<Record<'pending' | 'sent' | 'failed', number>> {
+  const { data, error } = await supabaseAdmin
+    .from('payouts')
+    .select('status, amount')
+    .eq('asset', asset)
+    .is('escrow_bet', null)
+    .in('status', ['pending', 'sent', 'failed'])
+
+  if (error) throw error
+
+  const totals = { pending: 0, sent: 0, failed: 0 }
+  for (const row of data || []) {
+    totals[row.status as keyof typeof totals] += Number(row.amount)
+  }
+  return totals
+}
+
+// Operator action: put a failed (or stuck pending) payout back in the queue
+// with a fresh attempt budget. Sent payouts are left alone - they may land -
+// and so are payouts a worker holds the lease on. Returns null for both.
+export async function retryPayout(id: number): Promise<Payout | null> {
+  const now = new Date().toISOString()
+  const { data, error } = await supabaseAdmin
+    .from('payouts')
+    .update({
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+      locked_until: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .in('status', ['pending', 'failed'])
+    .or(`locked_until.is.null,locked_until.lt."${now}"`)
+    .select()
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return null
+
+  const payout = mapPayout(data)
+  await syncPlay(payout, 'pending')
+  console.log('Payout re-queued by operator:', { id })
+  return payout
+}
+
+function invalidPayoutSignature(message: string): Error {
+  return Object.assign(new Error(message), { invalidSignature: true })
+}
+
+// Operator action: record a payout that was settled outside the queue. The
+// signature must be a transaction confirmed on-chain without error; throws
+// with `invalidSignature` otherwise. Not while a worker holds its lease,
+// since it may be sending it right now.
+export async function markPayoutPaid(connection: Connection, id: number, signature: string): Promise<Payout | null> {
+  if (!isValidSignature(signature)) {
+    throw invalidPayoutSignature('Invalid payout transaction signature')
+  }
+
+  const { value } = await connection.getSignatureStatuses([signature], { searchTransactionHistory: true })
+  const status = value[0]
+  if (!status || (status.confirmationStatus !== 'confirmed' && status.confirmationStatus !== 'finalized')) {
+    throw invalidPayoutSignature('Payout transaction is not confirmed on-chain')
+  }
+  if (status.err) {
+    throw invalidPayoutSignature(`Payout transaction failed on-chain: ${JSON.stringify(status.err)}`)
+  }
+
+  const now = new Date().toISOString()
+  const { data, error } = await supabaseAdmin
+    .from('payouts')
+    .update({
+      status: 'confirmed',
+      signature,
+      last_error: null,
+      locked_until: null,
+      confirmed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .in('status', ['pending', 'failed'])
+    .or(`locked_until.is.null,locked_until.lt."${now}"`)
+    .select()
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return null
+
+  const payout = mapPayout(data)
+  await syncPlay(payout, 'confirmed', { payoutSignature: signature, error: null })
+  if (payout.kind === 'win') {
+    await setHistoryPayoutSignature(payout.playSignature, signature)
+      .catch(error => console.error('Failed to link payout to history:', error))
+  }
+
+  console.log('Payout marked paid by operator:', { id, signature })
+  return payout
+}
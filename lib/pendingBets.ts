@@ -0,0 +1,82 @@
+// Browser-side record of bets whose deposit has been sent but whose result
+// has not been shown yet. Stored in localStorage per wallet, keyed by
+// deposit signature, so a reload or wallet reconnect can finish settling them.
+
+// Play flow in CoinFlipGame:
+// idle -> preparing -> awaiting_signature -> confirming -> settling -> done | failed
+export type BetPhase =
+  | 'idle'
+  | 'preparing'
+  | 'awaiting_signature'
+  | 'confirming'
+  | 'settling'
+  | 'done'
+  | 'failed'
+
+export interface PendingBet {
+  signature: string
+  wallet: string
+  betAmount: number
+  // Bet currency symbol; bets saved before token support are SOL
+  asset?: string
+  // Risk tier id; bets saved before tiers existed use the default tier
+  tier?: string
+  // Escrow bet account, for bets locked in the escrow program
+  escrowBet?: string
+  clientSeed?: string
+  phase: BetPhase
+  createdAt: number
+}
+
+const STORAGE_PREFIX = 'don:pendingBets:'
+
+// Bets older than this are dropped - the server has long since settled or rejected them
+const PENDING_BET_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000
+
+function storageKey(wallet: string) {
+  return `${STORAGE_PREFIX}${wallet}`
+}
+
+function readAll(wallet: string): Record<string, PendingBet> {
+  if (typeof window === 'undefined') return {}
+  try {
+    return JSON.parse(localStorage.getItem(storageKey(wallet)) || '{}')
+  } catch {
+    return {}
+  }
+}
+
+function writeAll(wallet: string, bets: Record<string, PendingBet>) {
+  if (typeof window === 'undefined') return
+  if (Object.keys(bets).length === 0) {
+    localStorage.removeItem(storageKey(wallet))
+  } else {
+    localStorage.setItem(storageKey(wallet), JSON.stringify(bets))
+  }
+}
+
+export function listPendingBets(wallet: string): PendingBet[] {
+  const cutoff = Date.now() - PENDING_BET_MAX_AGE_MS
+  return Object.values(readAll(wallet))
+    .filter(bet => bet.createdAt >= cutoff)
+    .sort((a, b) => a.createdAt - b.createdAt)
+}
+
+export function savePendingBet(bet: PendingBet) {
+  const bets = readAll(bet.wallet)
+  bets[bet.signature] = bet
+  writeAll(bet.wallet, bets)
+}
+
+export function updatePendingBetPhase(wallet: string, signature: string, phase: BetPhase) {
+  const bets = readAll(wallet)
+  if (!bets[signature]) return
+  bets[signature] = { ...bets[signature], phase }
+  writeAll(wallet, bets)
+}
+
+export function removePendingBet(wallet: string, signature: string) {
+  const bets = readAll(wallet)
+  delete bets[signature]
+  writeAll(wallet, bets)
+}
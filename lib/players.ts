@@ -0,0 +1,95 @@
+import { supabaseAdmin } from '@/lib/supabase'
+import { GameHistoryItem } from '@/lib/stats'
+
+export interface PlayerStats {
+  totalBets: number
+  totalWagered: number
+  totalPayout: number
+  netProfit: number
+  wins: number
+  losses: number
+  winRate: number
+  biggestWin: number
+  longestWinStreak: number
+  longestLossStreak: number
+  firstBetAt: string | null
+  lastBetAt: string | null
+}
+
+export interface PlayerBet extends GameHistoryItem {
+  payout: number
+}
+
+export interface PlayerHistoryPage {
+  page: number
+  pageSize: number
+  total: number
+  items: PlayerBet[]
+}
+
+export const MAX_HISTORY_PAGE_SIZE = 100
+
+// Totals, streaks and biggest win for a wallet's bets in one asset, computed by player_stats
+export async function getPlayerStats(playerWallet: string, asset = 'SOL'): Promise<PlayerStats> {
+  const { data, error } = await supabaseAdmin.rpc('player_stats', {
+    p_player_wallet: playerWallet,
+    p_asset: asset,
+  })
+
+  if (error) throw error
+
+  const totalBets = Number(data.total_bets) || 0
+  const wins = Number(data.wins) || 0
+
+  return {
+    totalBets,
+    totalWagered: Number(data.total_wagered) || 0,
+    totalPayout: Number(data.total_payout) || 0,
+    netProfit: Number(data.net_profit) || 0,
+    wins,
+    losses: Number(data.losses) || 0,
+    winRate: totalBets > 0 ? wins / totalBets : 0,
+    biggestWin: Number(data.biggest_win) || 0,
+    longestWinStreak: Number(data.longest_win_streak) || 0,
+    longestLossStreak: Number(data.longest_loss_streak) || 0,
+    firstBetAt: data.first_bet_at,
+    lastBetAt: data.last_bet_at,
+  }
+}
+
+// One page of a wallet's settled bets in every asset, newest first (page is 1-based)
+export async function getPlayerHistory(
+  playerWallet: string,
+  page: number,
+  pageSize: number
+): Promise<PlayerHistoryPage> {
+  const from = (page - 1) * pageSize
+
+  const { data, error, count } = await supabaseAdmin
+    .from('game_history')
+    .select('*', { count: 'exact' })
+    .eq('player_wallet', playerWallet)
+    .order('timestamp', { ascending: false })
+    .order('id', { ascending: false })
+    .range(from, from + pageSize - 1)
+
+  if (error) throw error
+
+  return {
+    page,
+    pageSize,
+    total: count || 0,
+    items: (data || []).map((item: any) => ({
+      result: item.result,
+      amount: Number(item.amount),
+      asset: item.asset || 'SOL',
+      payout: item.payout === null
+        ? (item.result === 'win' ? Number(item.amount) * 2 : 0)
+        : Number(item.payout),
+      timestamp: new Date(item.timestamp).getTime(),
+      playerWallet: item.player_wallet,
+      depositSignature: item.deposit_signature || undefined,
+      payoutSignature: item.payout_signature || undefined,
+    })),
+  }
+}
@@ -0,0 +1,158 @@
+import { afterEach, before, describe, it, mock } from 'node:test'
+import assert from 'node:assert/strict'
+import { Keypair } from '@solana/web3.js'
+import bs58 from 'bs58'
+import { callOf, fakeQueries } from '@/lib/fakeSupabase'
+
+// The client is created when lib/supabase is loaded; no request reaches it
+process.env.NEXT_PUBLIC_SUPABASE_URL = 'http://127.0.0.1:54321'
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'anon'
+process.env.SUPABASE_SERVICE_ROLE_KEY = 'service'
+
+let plays: typeof import('@/lib/plays')
+let supabaseAdmin: typeof import('@/lib/supabase').supabaseAdmin
+
+before(async () => {
+  plays = await import('@/lib/plays')
+  supabaseAdmin = (await import('@/lib/supabase')).supabaseAdmin
+})
+
+afterEach(() => mock.restoreAll())
+
+const UNIQUE_VIOLATION = { code: '23505', message: 'duplicate key value violates unique constraint' }
+
+const signature = bs58.encode(Buffer.alloc(64, 7))
+const player = Keypair.generate().publicKey.toBase58()
+const escrowBet = Keypair.generate().publicKey.toBase58()
+
+function playRow(fields: Record<string, any> = {}) {
+  return {
+    signature,
+    player_wallet: player,
+    amount: '0.1',
+    asset: 'SOL',
+    result: null,
+    payout_amount: null,
+    payout_signature: null,
+    status: 'verifying',
+    error: null,
+    seed_id: null,
+    server_seed_hash: null,
+    client_seed: null,
+    nonce: null,
+    escrow_bet: null,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...fields,
+  }
+}
+
+describe('claimPlay', () => {
+  it('claims a new signature', async () => {
+    const queries = fakeQueries(supabaseAdmin, [{ data: playRow({ escrow_bet: escrowBet }) }])
+
+    const { claimed, play } = await plays.claimPlay(signature, player, 0.1, 'SOL', escrowBet)
+
+    assert.equal(claimed, true)
+    assert.equal(play.status, 'verifying')
+    assert.equal(play.escrowBet, escrowBet)
+    assert.equal(queries.length, 1)
+    assert.equal(callOf(queries[0], 'insert')[0].status, 'verifying')
+  })
+
+  it('returns the stored play for a signature claimed before', async () => {
+    const queries = fakeQueries(supabaseAdmin, [
+      { error: UNIQUE_VIOLATION },
+      { data: null },
+      { data: playRow({ status: 'settled', result: 'loss' }) },
+    ])
+
+    const { claimed, play } = await plays.claimPlay(signature, player, 0.1)
+
+    assert.equal(claimed, false)
+    assert.equal(play.status, 'settled')
+    assert.equal(queries.length, 3)
+  })
+
+  it('claims a rejected signature again, only while it is still rejected', async () => {
+    const queries = fakeQueries(supabaseAdmin, [
+      { error: UNIQUE_VIOLATION },
+      { data: playRow() },
+    ])
+
+    const { claimed } = await plays.claimPlay(signature, player, 0.1)
+
+    assert.equal(claimed, true)
+    const retry = queries[1]
+    assert.equal(callOf(retry, 'update')[0].status, 'verifying')
+    assert.deepEqual(retry.calls.filter(call => call[0] === 'eq'), [
+      ['eq', 'signature', signature],
+      ['eq', 'status', 'rejected'],
+    ])
+  })
+
+  it('refuses an escrow bet another signature has claimed', async () => {
+    fakeQueries(supabaseAdmin, [
+      { error: UNIQUE_VIOLATION },
+      { data: null },
+      { data: null },
+    ])
+
+    await assert.rejects(
+      plays.claimPlay(signature, player, 0.1, 'SOL', escrowBet),
+      (error: any) => error.escrowBetClaimed === true
+    )
+  })
+
+  it('refuses to move a rejected play onto a claimed escrow bet', async () => {
+    fakeQueries(supabaseAdmin, [
+      { error: UNIQUE_VIOLATION },
+      { error: UNIQUE_VIOLATION },
+    ])
+
+    await assert.rejects(
+      plays.claimPlay(signature, player, 0.1, 'SOL', escrowBet),
+      (error: any) => error.escrowBetClaimed === true
+    )
+  })
+
+  it('passes other database errors on', async () => {
+    fakeQueries(supabaseAdmin, [{ error: { code: '57014', message: 'canceling statement due to statement timeout' } }])
+
+    await assert.rejects(plays.claimPlay(signature, player, 0.1), { code: '57014' })
+  })
+})
+
+describe('toPlayResponse', () => {
+  it('reports a skipped refund as refused but not refunded', () => {
+    const skipped: import('@/lib/plays').Play = {
+      signature,
+      playerWallet: player,
+      amount: 0.000001,
+      asset: 'SOL',
+      result: null,
+      payoutAmount: null,
+      payoutSignature: null,
+      status: 'refund_skipped',
+      error: 'Bet is below the minimum of 0.001 SOL',
+      seedId: null,
+      serverSeedHash: null,
+      clientSeed: null,
+      nonce: null,
+      tier: null,
+      winChance: null,
+      multiplier: null,
+      escrowBet: null,
+      createdAt: '2026-01-01T00:00:00Z',
+      updatedAt: '2026-01-01T00:00:00Z',
+    }
+
+    const response: any = plays.toPlayResponse(skipped)
+
+    assert.ok(plays.isRefundStatus('refund_skipped'))
+    assert.equal(response.success, false)
+    assert.equal(response.refunded, false)
+    assert.equal(response.error, skipped.error)
+    assert.match(response.message, /not refunded/)
+  })
+})
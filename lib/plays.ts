@@ -0,0 +1,305 @@
+import bs58 from 'bs58'
+import { supabaseAdmin } from '@/lib/supabase'
+
+// Lifecycle of a deposit signature:
+// verifying -> rejected (verification failed, may be retried)
+// verifying -> settled (loss)
+// verifying -> rolled -> payout_pending -> payout_sent -> payout_confirmed (win)
+// verifying -> rolled -> settled (escrow loss, once the stake has moved to the house)
+// payout_failed once the payout queue gives up and an operator has to step in
+// verifying -> refund_pending -> refunded | refund_failed (deposit broke the bet limits)
+// verifying -> refund_skipped (refused deposit worth less than the refund's network fee)
+export type PlayStatus =
+  | 'verifying'
+  | 'rejected'
+  | 'rolled'
+  | 'settled'
+  | 'payout_pending'
+  | 'payout_sent'
+  | 'payout_confirmed'
+  | 'payout_failed'
+  | 'refund_pending'
+  | 'refunded'
+  | 'refund_failed'
+  | 'refund_skipped'
+
+export interface Play {
+  signature: string
+  playerWallet: string
+  amount: number
+  // Bet currency, 'SOL' or a configured SPL token symbol
+  asset: string
+  result: 'win' | 'loss' | null
+  payoutAmount: number | null
+  payoutSignature: string | null
+  status: PlayStatus
+  error: string | null
+  // Provably fair inputs, set when the flip is rolled
+  seedId: number | null
+  serverSeedHash: string | null
+  clientSeed: string | null
+  nonce: number | null
+  // Risk tier the bet was rolled with, and the terms it had at the time
+  tier: string | null
+  winChance: number | null
+  multiplier: number | null
+  // Escrow bet account when the bet was placed through the escrow program
+  escrowBet: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface PlayUpdate {
+  result?: 'win' | 'loss'
+  payoutAmount?: number
+  payoutSignature?: string
+  status?: PlayStatus
+  error?: string | null
+  seedId?: number
+  serverSeedHash?: string
+  clientSeed?: string
+  nonce?: number
+  tier?: string
+  winChance?: number
+  multiplier?: number
+}
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505'
+
+function mapPlay(row: any): Play {
+  return {
+    signature: row.signature,
+    playerWallet: row.player_wallet,
+    amount: Number(row.amount),
+    asset: row.asset || 'SOL',
+    result: row.result,
+    payoutAmount: row.payout_amount === null ? null : Number(row.payout_amount),
+    payoutSignature: row.payout_signature,
+    status: row.status,
+    error: row.error,
+    seedId: row.seed_id,
+    serverSeedHash: row.server_seed_hash,
+    clientSeed: row.client_seed,
+    nonce: row.nonce === null ? null : Number(row.nonce),
+    tier: row.tier ?? null,
+    winChance: row.win_chance == null ? null : Number(row.win_chance),
+    multiplier: row.multiplier == null ? null : Number(row.multiplier),
+    escrowBet: row.escrow_bet ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+// Transaction signatures are 64 bytes, base58 encoded
+export function isValidSignature(signature: unknown): signature is string {
+  if (typeof signature !== 'string' || signature.length > 88) return false
+  try {
+    return bs58.decode(signature).length === 64
+  } catch {
+    return false
+  }
+}
+
+export async function getPlay(signature: string): Promise<Play | null> {
+  const { data, error } = await supabaseAdmin
+    .from('plays')
+    .select('*')
+    .eq('signature', signature)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? mapPlay(data) : null
+}
+
+function escrowBetClaimed(): Error {
+  return Object.assign(new Error('This escrow bet has already been claimed'), { escrowBetClaimed: true })
+}
+
+// Claim a deposit signature for settlement. The unique constraint on
+// plays.signature makes the insert atomic: exactly one request gets
+// claimed: true, every other one gets the stored play back instead.
+// An escrow bet account can back only one play (idx_plays_escrow_bet):
+// claiming it under another signature throws with `escrowBetClaimed`.
+export async function claimPlay(
+  signature: string,
+  playerWallet: string,
+  amount: number,
+  asset = 'SOL',
+  escrowBet: string | null = null
+): Promise<{ claimed: boolean; play: Play }> {
+  const now = new Date().toISOString()
+
+  const { data, error } = await supabaseAdmin
+    .from('plays')
+    .insert({
+      signature,
+      player_wallet: playerWallet,
+      amount,
+      asset,
+      escrow_bet: escrowBet,
+      status: 'verifying',
+      created_at: now,
+      updated_at: now,
+    })
+    .select()
+    .single()
+
+  if (!error) {
+    return { claimed: true, play: mapPlay(data) }
+  }
+
+  if (error.code !== UNIQUE_VIOLATION) {
+    throw error
+  }
+
+  // A rejected deposit (e.g. not indexed in time) may be claimed again.
+  // The status filter keeps this atomic between concurrent retries.
+  const { data: retried, error: retryError } = await supabaseAdmin
+    .from('plays')
+    .update({
+      player_wallet: playerWallet,
+      amount,
+      asset,
+      escrow_bet: escrowBet,
+      status: 'verifying',
+      error: null,
+      updated_at: now,
+    })
+    .eq('signature', signature)
+    .eq('status', 'rejected')
+    .select()
+    .maybeSingle()
+
+  if (retryError) {
+    if (retryError.code === UNIQUE_VIOLATION) throw escrowBetClaimed()
+    throw retryError
+  }
+  if (retried) {
+    return { claimed: true, play: mapPlay(retried) }
+  }
+
+  // The insert conflicted on the escrow bet, not on the signature
+  const existing = await getPlay(signature)
+  if (!existing) {
+    if (escrowBet) throw escrowBetClaimed()
+    throw new Error('Play disappeared while claiming signature')
+  }
+  return { claimed: false, play: existing }
+}
+
+export async function updatePlay(signature: string, update: PlayUpdate): Promise<Play> {
+  const { data, error } = await supabaseAdmin
+    .from('plays')
+    .update({
+      ...(update.result !== undefined && { result: update.result }),
+      ...(update.payoutAmount !== undefined && { payout_amount: update.payoutAmount }),
+      ...(update.payoutSignature !== undefined && { payout_signature: update.payoutSignature }),
+      ...(update.status !== undefined && { status: update.status }),
+      ...(update.error !== undefined && { error: update.error }),
+      ...(update.seedId !== undefined && { seed_id: update.seedId }),
+      ...(update.serverSeedHash !== undefined && { server_seed_hash: update.serverSeedHash }),
+      ...(update.clientSeed !== undefined && { client_seed: update.clientSeed }),
+      ...(update.nonce !== undefined && { nonce: update.nonce }),
+      ...(update.tier !== undefined && { tier: update.tier }),
+      ...(update.winChance !== undefined && { win_chance: update.winChance }),
+      ...(update.multiplier !== undefined && { multiplier: update.multiplier }),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('signature', signature)
+    .select()
+    .single()
+
+  if (error) throw error
+  return mapPlay(data)
+}
+
+export function isRefundStatus(status: PlayStatus): boolean {
+  return status === 'refund_pending' || status === 'refunded' || status === 'refund_failed' || status === 'refund_skipped'
+}
+
+// Shape returned to the client for a settled (or replayed) play
+export function toPlayResponse(play: Play) {
+  if (play.status === 'verifying' || play.status === 'rejected') {
+    return {
+      success: false,
+      signature: play.signature,
+      status: play.status,
+      result: null,
+      betAmount: play.amount,
+      asset: play.asset,
+      ...(play.status === 'rejected' && { error: play.error || 'Transaction verification failed' }),
+    }
+  }
+
+  if (isRefundStatus(play.status)) {
+    return {
+      success: false,
+      signature: play.signature,
+      status: play.status,
+      result: null,
+      betAmount: play.amount,
+      asset: play.asset,
+      refunded: play.status !== 'refund_skipped',
+      payoutSignature: play.payoutSignature || undefined,
+      error: play.error || 'Bet refused',
+      message: play.status === 'refund_failed'
+        ? 'Your deposit will be refunded manually.'
+        : play.status === 'refund_skipped'
+          ? 'Your deposit is worth less than the network fee to return it and is not refunded.'
+          : 'Your deposit is being refunded.',
+    }
+  }
+
+  return {
+    success: true,
+    signature: play.signature,
+    status: play.status,
+    result: play.result,
+    betAmount: play.amount,
+    asset: play.asset,
+    escrowBet: play.escrowBet || undefined,
+    tier: play.tier || undefined,
+    multiplier: play.multiplier || undefined,
+    potentialWin: play.result === 'win' ? play.payoutAmount || 0 : 0,
+    payoutSignature: play.payoutSignature || undefined,
+    ...(play.serverSeedHash && {
+      fairness: {
+        serverSeedHash: play.serverSeedHash,
+        clientSeed: play.clientSeed,
+        nonce: play.nonce,
+        winChance: play.winChance,
+      },
+    }),
+    ...(play.result === 'win' && (play.status === 'rolled' || play.status === 'payout_pending') && {
+      payoutPending: true,
+      message: 'You won! Your payout is queued and will be retried automatically.',
+    }),
+    ...(play.result === 'win' && play.status === 'payout_failed' && {
+      payoutPending: true,
+      message: 'You won! Payout will be processed manually.',
+    }),
+  }
+}
+
+// Operator search over the ledger, newest first
+export async function searchPlays(filters: {
+  wallet?: string
+  signature?: string
+  status?: PlayStatus
+  limit?: number
+}): Promise<Play[]> {
+  let query = supabaseAdmin
+    .from('plays')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(filters.limit || 50)
+
+  if (filters.wallet) query = query.eq('player_wallet', filters.wallet)
+  if (filters.signature) query = query.or(`signature.eq.${filters.signature},payout_signature.eq.${filters.signature}`)
+  if (filters.status) query = query.eq('status', filters.status)
+
+  const { data, error } = await query
+  if (error) throw error
+  return (data || []).map(mapPlay)
+}
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+
+// ============================================
+// RATE LIMITING - Fixed windows per IP or wallet
+// ============================================
+// Every rule counts hits per key (client IP or wallet) in fixed windows.
+// Counters live in a pluggable store: in memory (default, per server
+// instance) or in the database (RATE_LIMIT_STORE=database, shared by every
+// instance, needs the rate_limit_hit function from supabase-setup.sql).
+//
+// If the store fails, requests are let through - rate limiting must never
+// take the game down.
+// ============================================
+
+export interface RateLimitRule {
+  name: string
+  // Hits allowed per window, 0 = unlimited
+  limit: number
+  windowMs: number
+}
+
+export interface RateLimitHit {
+  count: number
+  // Epoch ms when the current window ends
+  resetAt: number
+}
+
+export interface RateLimitStore {
+  // Count one hit for `key` and return the count in the current window
+  hit(key: string, windowMs: number): Promise<RateLimitHit>
+}
+
+const WINDOW_MS = (Number(process.env.RATE_LIMIT_WINDOW_SECONDS) || 60) * 1000
+
+// Unset uses the default; 0 disables the rule
+function limitFromEnv(name: string, fallback: number): number {
+  return process.env[name] ? Number(process.env[name]) : fallback
+}
+
+export const RATE_LIMITS: Record<'playPerIp' | 'playPerWallet' | 'readPerIp' | 'adminLoginPerIp', RateLimitRule> = {
+  // POST /api/play per client IP and per player wallet
+  playPerIp: { name: 'play:ip', limit: limitFromEnv('RATE_LIMIT_PLAY_PER_IP', 30), windowMs: WINDOW_MS },
+  playPerWallet: { name: 'play:wallet', limit: limitFromEnv('RATE_LIMIT_PLAY_PER_WALLET', 12), windowMs: WINDOW_MS },
+  // GET /api/play, GET /api/play/<signature>, GET /api/stats, GET /api/fairness, GET /api/fairness/verify
+  // and POST /api/auth/nonce per client IP
+  readPerIp: { name: 'read:ip', limit: limitFromEnv('RATE_LIMIT_READ_PER_IP', 120), windowMs: WINDOW_MS },
+  // POST /api/admin/session (admin secret logins) per client IP
+  adminLoginPerIp: { name: 'admin-login:ip', limit: limitFromEnv('RATE_LIMIT_ADMIN_LOGIN_PER_IP', 5), windowMs: WINDOW_MS },
+}
+
+// Evict expired counters once the map grows past this many keys
+const MEMORY_STORE_SWEEP_SIZE = 10000
+
+export function createMemoryStore(): RateLimitStore {
+  const counters = new Map<string, RateLimitHit>()
+
+  return {
+    async hit(key, windowMs) {
+      const now = Date.now()
+
+      if (counters.size > MEMORY_STORE_SWEEP_SIZE) {
+        counters.forEach((counter, counterKey) => {
+          if (counter.resetAt <= now) counters.delete(counterKey)
+        })
+      }
+
+      const current = counters.get(key)
+      const counter = current && current.resetAt > now
+        ? { count: current.count + 1, resetAt: current.resetAt }
+        : { count: 1, resetAt: now + windowMs }
+      counters.set(key, counter)
+      return counter
+    },
+  }
+}
+
+export function createDatabaseStore(): RateLimitStore {
+  return {
+    async hit(key, windowMs) {
+      const { data, error } = await supabaseAdmin.rpc('rate_limit_hit', {
+        p_key: key,
+        p_window_ms: windowMs,
+      })
+
+      if (error) throw new Error(`Failed to count rate limit hit: ${error.message}`)
+
+      const row = Array.isArray(data) ? data[0] : data
+      return { count: Number(row.hits), resetAt: new Date(row.resets_at).getTime() }
+    },
+  }
+}
+
+const store: RateLimitStore = process.env.RATE_LIMIT_STORE === 'database'
+  ? createDatabaseStore()
+  : createMemoryStore()
+
+// Client IP as seen by the platform. Netlify's connection header and
+// request.ip (Vercel) can not be set by the client. Clients can put anything
+// in x-forwarded-for, so only its right-most entry - added by the proxy in
+// front of the app - is used.
+export function getClientIp(request: NextRequest): string {
+  const connectionIp = request.headers.get('x-nf-client-connection-ip') || request.ip
+  if (connectionIp) return connectionIp
+
+  const forwarded = request.headers.get('x-forwarded-for')
+  const proxyHop = forwarded?.split(',').pop()?.trim()
+  return proxyHop || request.headers.get('x-real-ip') || 'unknown'
+}
+
+// null if the request is within `rule` for `key`, otherwise the 429 to return
+export async function rateLimit(
+  request: NextRequest,
+  rule: RateLimitRule,
+  key: string
+): Promise<NextResponse | null> {
+  if (!(rule.limit > 0)) return null
+
+  let hit: RateLimitHit
+  try {
+    hit = await store.hit(`${rule.name}:${key}`, rule.windowMs)
+  } catch (error) {
+    console.error('Rate limit store unavailable, allowing request:', error)
+    return null
+  }
+
+  if (hit.count <= rule.limit) return null
+
+  const retryAfter = Math.max(1, Math.ceil((hit.resetAt - Date.now()) / 1000))
+  console.warn('Rate limited:', {
+    rule: rule.name,
+    key,
+    ip: getClientIp(request),
+    path: request.nextUrl.pathname,
+    count: hit.count,
+    retryAfter,
+  })
+
+  return NextResponse.json(
+    { error: 'Too many requests, please slow down', retryAfter },
+    { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+  )
+}
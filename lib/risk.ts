@@ -0,0 +1,115 @@
+import { supabaseAdmin } from '@/lib/supabase'
+import { getBettingSettings, setBettingPaused } from '@/lib/settings'
+
+// ============================================
+// RISK ENGINE - Bankroll protection for SOL bets
+// ============================================
+// Every SOL bet is checked against the house's results over a rolling
+// window (risk_window in supabase-setup.sql):
+// - Drawdown: the house's net loss over the window as a share of the bank
+//   at its start. The max bet shrinks linearly as it grows and betting is
+//   paused once it reaches RISK_MAX_DRAWDOWN_FRACTION.
+// - Reserve: liquidity below RISK_MIN_RESERVE_SOL is never bet against,
+//   and betting is paused once free liquidity falls to it.
+// - Exposure: the most the house can lose on the bets taken in the window.
+//   Bets past RISK_MAX_WINDOW_EXPOSURE_SOL are refused.
+//
+// Auto-pauses use the operator pause switch, so an operator resumes betting
+// (after topping up the bank or once the window has moved on).
+// ============================================
+
+// Unset uses the default; 0 disables the threshold
+function thresholdFromEnv(name: string, fallback: number): number | null {
+  const value = process.env[name] ? Number(process.env[name]) : fallback
+  return value > 0 ? value : null
+}
+
+const RISK_WINDOW_HOURS = Number(process.env.RISK_WINDOW_HOURS) || 24
+const RISK_MAX_DRAWDOWN_FRACTION = thresholdFromEnv('RISK_MAX_DRAWDOWN_FRACTION', 0.25)
+const RISK_MIN_RESERVE_SOL = thresholdFromEnv('RISK_MIN_RESERVE_SOL', 0)
+const RISK_MAX_WINDOW_EXPOSURE_SOL = thresholdFromEnv('RISK_MAX_WINDOW_EXPOSURE_SOL', 0)
+
+// What players see while the risk engine has betting paused
+export const RISK_PAUSE_REASON = 'bank rebalancing'
+
+export interface RiskState {
+  windowHours: number
+  bets: number
+  wagered: number
+  paidOut: number
+  // House profit (negative for a loss) over the window
+  houseProfit: number
+  // Window loss as a share of the bank at the start of the window
+  drawdown: number
+  maxDrawdown: number | null
+  // Net amount the house could lose on the bets taken in the window
+  exposure: number
+  maxExposure: number | null
+  minReserve: number | null
+  // Share of the normal max bet still offered, 0-1
+  maxBetScale: number
+  // Why betting has to pause, null while within the thresholds
+  breach: string | null
+}
+
+// Risk state of the SOL bank, given its balance and free liquidity
+// (balance minus unpaid payouts)
+export async function getRiskState(bankBalance: number, availableLiquidity: number): Promise<RiskState> {
+  const since = new Date(Date.now() - RISK_WINDOW_HOURS * 60 * 60 * 1000).toISOString()
+
+  const { data, error } = await supabaseAdmin.rpc('risk_window', { p_since: since, p_asset: 'SOL' })
+  if (error) throw new Error(`Failed to read risk window: ${error.message}`)
+
+  const row = (Array.isArray(data) ? data[0] : data) || {}
+  const wagered = Number(row.wagered) || 0
+  const paidOut = Number(row.paid_out) || 0
+  const houseProfit = wagered - paidOut
+  // The bank held the lost amount at the start of the window
+  const drawdown = houseProfit < 0 ? -houseProfit / Math.max(bankBalance - houseProfit, Number.EPSILON) : 0
+
+  const drawdownScale = RISK_MAX_DRAWDOWN_FRACTION ? Math.max(0, 1 - drawdown / RISK_MAX_DRAWDOWN_FRACTION) : 1
+  const reserveScale = RISK_MIN_RESERVE_SOL && availableLiquidity > 0
+    ? Math.max(0, availableLiquidity - RISK_MIN_RESERVE_SOL) / availableLiquidity
+    : 1
+
+  let breach: string | null = null
+  if (RISK_MAX_DRAWDOWN_FRACTION && drawdown >= RISK_MAX_DRAWDOWN_FRACTION) {
+    breach = `${(drawdown * 100).toFixed(1)}% drawdown in the last ${RISK_WINDOW_HOURS}h (limit ${RISK_MAX_DRAWDOWN_FRACTION * 100}%)`
+  } else if (RISK_MIN_RESERVE_SOL && availableLiquidity <= RISK_MIN_RESERVE_SOL) {
+    breach = `Free liquidity ${availableLiquidity.toFixed(4)} SOL is at or below the ${RISK_MIN_RESERVE_SOL} SOL reserve`
+  }
+
+  return {
+    windowHours: RISK_WINDOW_HOURS,
+    bets: Number(row.bets) || 0,
+    wagered,
+    paidOut,
+    houseProfit,
+    drawdown,
+    maxDrawdown: RISK_MAX_DRAWDOWN_FRACTION,
+    exposure: Number(row.exposure) || 0,
+    maxExposure: RISK_MAX_WINDOW_EXPOSURE_SOL,
+    minReserve: RISK_MIN_RESERVE_SOL,
+    maxBetScale: breach ? 0 : Math.min(drawdownScale, reserveScale),
+    breach,
+  }
+}
+
+// Why a bet adding `netRisk` (payout minus stake) to the window's exposure
+// is refused, or null if it fits
+export function checkExposure(risk: RiskState, netRisk: number): string | null {
+  if (risk.maxExposure === null || risk.exposure + netRisk <= risk.maxExposure) return null
+  return `Bet would exceed the ${risk.maxExposure} SOL house exposure limit for the last ${risk.windowHours}h`
+}
+
+// Pause betting if the risk state breaches a threshold. Returns whether it did.
+export async function pauseOnBreach(risk: RiskState): Promise<boolean> {
+  if (!risk.breach) return false
+
+  const betting = await getBettingSettings()
+  if (!betting.paused) {
+    console.error('Risk threshold crossed, pausing bets:', risk.breach)
+    await setBettingPaused(true, RISK_PAUSE_REASON)
+  }
+  return true
+}
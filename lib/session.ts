@@ -0,0 +1,175 @@
+import { createHmac, createPublicKey, randomBytes, timingSafeEqual, verify } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { PublicKey } from '@solana/web3.js'
+import bs58 from 'bs58'
+import { supabaseAdmin } from '@/lib/supabase'
+
+// ============================================
+// SIGN-IN WITH SOLANA - Wallet sessions
+// ============================================
+// 1. The client asks for a nonce (POST /api/auth/nonce). The server stores
+//    it with the exact message the wallet has to sign.
+// 2. The wallet signs the message (wallet adapter `signMessage`) and the
+//    client posts the signature (POST /api/auth/session).
+// 3. The server checks the ed25519 signature against the stored message,
+//    burns the nonce and sets an HMAC-signed session cookie for the wallet.
+//
+// Routes that act for a wallet compare it with the session's wallet.
+// ============================================
+
+const SESSION_SECRET = process.env.SESSION_SECRET || ''
+
+export const WALLET_SESSION_COOKIE = 'wallet_session'
+const WALLET_SESSION_MS = 24 * 60 * 60 * 1000
+const NONCE_TTL_MS = 5 * 60 * 1000
+
+// DER prefix of an ed25519 SubjectPublicKeyInfo; the raw 32-byte key follows
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex')
+
+export const SIGN_IN_ENABLED = !!SESSION_SECRET
+
+export interface SignInChallenge {
+  nonce: string
+  message: string
+  expiresAt: string
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a)
+  const bufB = Buffer.from(b)
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB)
+}
+
+function signSession(wallet: string, expiresAt: number): string {
+  return createHmac('sha256', SESSION_SECRET).update(`wallet:${wallet}:${expiresAt}`).digest('hex')
+}
+
+// Plain-text sign-in message, laid out like a Sign-In With Solana request
+function buildSignInMessage(origin: string, wallet: string, nonce: string, issuedAt: Date, expiresAt: Date): string {
+  return [
+    `${new URL(origin).host} wants you to sign in with your Solana account:`,
+    wallet,
+    '',
+    'Sign in to Double or Nothing. This does not send a transaction or cost any fees.',
+    '',
+    `URI: ${origin}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt.toISOString()}`,
+    `Expiration Time: ${expiresAt.toISOString()}`,
+  ].join('\n')
+}
+
+// Issue a single-use nonce and the message the wallet must sign with it
+export async function createSignInChallenge(wallet: string, origin: string): Promise<SignInChallenge> {
+  const nonce = randomBytes(16).toString('hex')
+  const issuedAt = new Date()
+  const expiresAt = new Date(issuedAt.getTime() + NONCE_TTL_MS)
+  const message = buildSignInMessage(origin, wallet, nonce, issuedAt, expiresAt)
+
+  // Expired nonces can never be used again; clear them out as new ones are issued
+  const { error: purgeError } = await supabaseAdmin
+    .from('sign_in_nonces')
+    .delete()
+    .lt('expires_at', issuedAt.toISOString())
+  if (purgeError) console.error('Failed to purge expired sign-in nonces:', purgeError)
+
+  const { error } = await supabaseAdmin
+    .from('sign_in_nonces')
+    .insert({
+      nonce,
+      player_wallet: wallet,
+      message,
+      expires_at: expiresAt.toISOString(),
+    })
+
+  if (error) throw new Error(`Failed to create sign-in nonce: ${error.message}`)
+
+  return { nonce, message, expiresAt: expiresAt.toISOString() }
+}
+
+// Mark the nonce used and return its message, or null if it is unknown,
+// expired, already used or was issued to another wallet
+async function consumeNonce(wallet: string, nonce: string): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from('sign_in_nonces')
+    .update({ used_at: new Date().toISOString() })
+    .eq('nonce', nonce)
+    .eq('player_wallet', wallet)
+    .is('used_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .select('message')
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to consume sign-in nonce: ${error.message}`)
+  return data?.message ?? null
+}
+
+function isValidSignature(wallet: string, message: string, signature: string): boolean {
+  try {
+    const key = createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, new PublicKey(wallet).toBuffer()]),
+      format: 'der',
+      type: 'spki',
+    })
+    return verify(null, Buffer.from(message), key, bs58.decode(signature))
+  } catch {
+    return false
+  }
+}
+
+// Check a signed sign-in message (base58 signature). Burns the nonce either way.
+export async function verifySignIn(wallet: string, nonce: string, signature: string): Promise<boolean> {
+  const message = await consumeNonce(wallet, nonce)
+  return !!message && isValidSignature(wallet, message, signature)
+}
+
+// Wallet of the request's session cookie (`<wallet>.<expiresAt>.<hmac>`), if valid
+export function getSessionWallet(request: NextRequest): string | null {
+  if (!SESSION_SECRET) return null
+
+  const cookie = request.cookies.get(WALLET_SESSION_COOKIE)?.value
+  if (!cookie) return null
+
+  const [wallet, expires, signature] = cookie.split('.')
+  const expiresAt = Number(expires)
+  if (!wallet || !expiresAt || !signature || expiresAt < Date.now()) return null
+  return safeEqual(signature, signSession(wallet, expiresAt)) ? wallet : null
+}
+
+// null if the request is signed in as `wallet`, otherwise the error response to return
+export function requireWalletSession(request: NextRequest, wallet: string): NextResponse | null {
+  const sessionWallet = getSessionWallet(request)
+
+  if (!sessionWallet) {
+    console.warn('Rejected request without wallet session:', { wallet, path: request.nextUrl.pathname })
+    return NextResponse.json(
+      { error: 'Sign in with your wallet first', signInRequired: true },
+      { status: 401 }
+    )
+  }
+  if (sessionWallet !== wallet) {
+    console.warn('Rejected request for another wallet:', { wallet, sessionWallet, path: request.nextUrl.pathname })
+    return NextResponse.json(
+      { error: 'Signed in with a different wallet', signInRequired: true },
+      { status: 403 }
+    )
+  }
+  return null
+}
+
+export function setWalletSessionCookie(response: NextResponse, wallet: string): NextResponse {
+  const expiresAt = Date.now() + WALLET_SESSION_MS
+  response.cookies.set(WALLET_SESSION_COOKIE, `${wallet}.${expiresAt}.${signSession(wallet, expiresAt)}`, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/',
+    expires: new Date(expiresAt),
+  })
+  return response
+}
+
+export function clearWalletSessionCookie(response: NextResponse): NextResponse {
+  response.cookies.set(WALLET_SESSION_COOKIE, '', { path: '/', maxAge: 0 })
+  return response
+}
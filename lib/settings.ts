@@ -0,0 +1,50 @@
+import { supabaseAdmin } from '@/lib/supabase'
+
+// Operator-controlled switches, stored as key/value rows in app_settings
+export interface BettingSettings {
+  paused: boolean
+  reason: string | null
+  updatedAt: string | null
+}
+
+const BETTING_KEY = 'betting'
+
+const defaultBettingSettings: BettingSettings = {
+  paused: false,
+  reason: null,
+  updatedAt: null,
+}
+
+export async function getBettingSettings(): Promise<BettingSettings> {
+  const { data, error } = await supabaseAdmin
+    .from('app_settings')
+    .select('value, updated_at')
+    .eq('key', BETTING_KEY)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return defaultBettingSettings
+
+  return {
+    paused: !!data.value?.paused,
+    reason: data.value?.reason || null,
+    updatedAt: data.updated_at,
+  }
+}
+
+export async function setBettingPaused(paused: boolean, reason: string | null = null): Promise<BettingSettings> {
+  const updatedAt = new Date().toISOString()
+
+  const { error } = await supabaseAdmin
+    .from('app_settings')
+    .upsert({
+      key: BETTING_KEY,
+      value: { paused, reason: paused ? reason : null },
+      updated_at: updatedAt,
+    })
+
+  if (error) throw error
+
+  console.log(paused ? 'Betting paused:' : 'Betting resumed', paused ? reason : '')
+  return { paused, reason: paused ? reason : null, updatedAt }
+}
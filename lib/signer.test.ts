@@ -0,0 +1,243 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { spawn, spawnSync, ChildProcess } from 'child_process'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import {
+  ComputeBudgetProgram,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+} from '@solana/web3.js'
+import { createTransferCheckedInstruction } from '@solana/spl-token'
+import bs58 from 'bs58'
+
+// The signer reads its settings when it is loaded, so they are set before
+// the dynamic imports below
+const bank = Keypair.generate()
+const rotated = Keypair.generate()
+const stranger = Keypair.generate()
+const escrowProgram = Keypair.generate().publicKey
+
+process.env.BANK_PRIVATE_KEY = bs58.encode(bank.secretKey)
+process.env.BANK_PRIVATE_KEY_2 = JSON.stringify(Array.from(rotated.secretKey))
+process.env.BANK_PRIVATE_KEY_3 = ''
+process.env.SIGNER_MAX_SPEND_SOL = '1'
+process.env.NEXT_PUBLIC_ESCROW_PROGRAM_ID = escrowProgram.toBase58()
+
+let signerLib: typeof import('@/lib/signer')
+let escrow: typeof import('@/lib/escrow')
+
+before(async () => {
+  signerLib = await import('@/lib/signer')
+  escrow = await import('@/lib/escrow')
+})
+
+function transaction(feePayer: PublicKey, ...instructions: TransactionInstruction[]): Transaction {
+  const tx = new Transaction().add(...instructions)
+  tx.recentBlockhash = bs58.encode(Buffer.alloc(32, 1))
+  tx.feePayer = feePayer
+  return tx
+}
+
+function transfer(from: PublicKey, sol: number): TransactionInstruction {
+  return SystemProgram.transfer({ fromPubkey: from, toPubkey: stranger.publicKey, lamports: sol * LAMPORTS_PER_SOL })
+}
+
+describe('spend policy', () => {
+  it('signs a SOL transfer within the limit', async () => {
+    const signer = signerLib.createLocalSigner()
+    const tx = transaction(bank.publicKey, transfer(bank.publicKey, 0.5))
+    await signer.sign(tx, bank.publicKey)
+    assert.ok(tx.verifySignatures())
+  })
+
+  it('holds every configured key, the active key first', () => {
+    const signer = signerLib.createLocalSigner()
+    assert.deepEqual(signer.publicKeys.map(k => k.toBase58()), [bank.publicKey.toBase58(), rotated.publicKey.toBase58()])
+  })
+
+  it('refuses keys it does not hold', async () => {
+    const signer = signerLib.createLocalSigner()
+    const tx = transaction(stranger.publicKey, transfer(stranger.publicKey, 0.1))
+    await assert.rejects(signer.sign(tx, stranger.publicKey), /does not hold key/)
+  })
+
+  it('adds up transfers from all of its keys against the limit', async () => {
+    const signer = signerLib.createLocalSigner()
+    const tx = transaction(bank.publicKey, transfer(bank.publicKey, 0.6), transfer(rotated.publicKey, 0.6))
+    await assert.rejects(signer.sign(tx, bank.publicKey), /1 SOL limit/)
+  })
+
+  it('does not count transfers from other keys', async () => {
+    const signer = signerLib.createLocalSigner()
+    const tx = transaction(bank.publicKey, transfer(stranger.publicKey, 5), transfer(bank.publicKey, 0.5))
+    await signer.sign(tx, bank.publicKey)
+  })
+
+  it('counts the priority fee paid by its keys', async () => {
+    const signer = signerLib.createLocalSigner()
+    const tx = transaction(
+      bank.publicKey,
+      ComputeBudgetProgram.setComputeUnitLimit({ units: 200000 }),
+      // 200000 units at 1 lamport each: 0.0002 SOL on top of the transfer
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1000000 }),
+      transfer(bank.publicKey, 0.9999)
+    )
+    await assert.rejects(signer.sign(tx, bank.publicKey), /1 SOL limit/)
+  })
+
+  it('refuses system instructions other than transfers and nonce advances', async () => {
+    const signer = signerLib.createLocalSigner()
+    const tx = transaction(bank.publicKey, SystemProgram.assign({ accountPubkey: bank.publicKey, programId: escrowProgram }))
+    await assert.rejects(signer.sign(tx, bank.publicKey), /only SOL transfers and nonce advances/)
+  })
+
+  it('refuses unknown programs', async () => {
+    const signer = signerLib.createLocalSigner()
+    const unknown = new TransactionInstruction({ programId: stranger.publicKey, keys: [], data: Buffer.alloc(0) })
+    await assert.rejects(signer.sign(transaction(bank.publicKey, unknown), bank.publicKey), /is not allowed/)
+  })
+
+  it('refuses transfers of mints that are not bet assets', async () => {
+    const signer = signerLib.createLocalSigner()
+    const mint = Keypair.generate().publicKey
+    const ix = createTransferCheckedInstruction(
+      Keypair.generate().publicKey,
+      mint,
+      Keypair.generate().publicKey,
+      bank.publicKey,
+      1000,
+      6
+    )
+    await assert.rejects(signer.sign(transaction(bank.publicKey, ix), bank.publicKey), /transfers of mint/)
+  })
+})
+
+describe('escrow policy', () => {
+  const bet = Keypair.generate().publicKey
+  const player = Keypair.generate().publicKey
+
+  it('signs settle and cancel', async () => {
+    const signer = signerLib.createLocalSigner()
+    await signer.sign(transaction(bank.publicKey, escrow.settleInstruction(bank.publicKey, bet, player, true)), bank.publicKey)
+    await signer.sign(transaction(bank.publicKey, escrow.cancelInstruction(bank.publicKey, bet, player)), bank.publicKey)
+  })
+
+  it('counts withdrawals against the limit', async () => {
+    const signer = signerLib.createLocalSigner()
+    const within = escrow.withdrawInstruction(bank.publicKey, stranger.publicKey, 0.5 * LAMPORTS_PER_SOL)
+    await signer.sign(transaction(bank.publicKey, within), bank.publicKey)
+
+    const over = escrow.withdrawInstruction(bank.publicKey, stranger.publicKey, 2 * LAMPORTS_PER_SOL)
+    await assert.rejects(signer.sign(transaction(bank.publicKey, over), bank.publicKey), /1 SOL limit/)
+  })
+
+  it('only hands the house authority to its own keys', async () => {
+    const signer = signerLib.createLocalSigner()
+    const rotate = escrow.setAuthorityInstruction(bank.publicKey, rotated.publicKey)
+    await signer.sign(transaction(bank.publicKey, rotate), bank.publicKey)
+
+    const handOver = escrow.setAuthorityInstruction(bank.publicKey, stranger.publicKey)
+    await assert.rejects(signer.sign(transaction(bank.publicKey, handOver), bank.publicKey), /SetAuthority is not allowed/)
+  })
+
+  it('only initializes the house with its own key as authority', async () => {
+    const signer = signerLib.createLocalSigner()
+    await signer.sign(transaction(bank.publicKey, escrow.initializeHouseInstruction(bank.publicKey, 300)), bank.publicKey)
+
+    const foreign = escrow.initializeHouseInstruction(stranger.publicKey, 300)
+    await assert.rejects(signer.sign(transaction(bank.publicKey, foreign), bank.publicKey), /InitializeHouse is not allowed/)
+  })
+
+  it('refuses player instructions and unknown tags', async () => {
+    const signer = signerLib.createLocalSigner()
+    const reclaim = escrow.reclaimInstruction(bank.publicKey, bet)
+    await assert.rejects(signer.sign(transaction(bank.publicKey, reclaim), bank.publicKey), /Reclaim is not allowed/)
+
+    const unknown = new TransactionInstruction({ programId: escrowProgram, keys: [], data: Buffer.from([250]) })
+    await assert.rejects(signer.sign(transaction(bank.publicKey, unknown), bank.publicKey), /unknown is not allowed/)
+  })
+})
+
+// Secret keys as the scripts read them on stdin, the active key first
+const KEYS_INPUT = `${bs58.encode(bank.secretKey)}\n${JSON.stringify(Array.from(rotated.secretKey))}\n`
+
+describe('keystore', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'keystore-'))
+  const path = join(dir, 'bank.keystore')
+
+  before(() => {
+    const result = spawnSync(process.execPath, ['scripts/create-keystore.mjs', path], {
+      input: KEYS_INPUT,
+      env: { ...process.env, SIGNER_KEYSTORE_PASSPHRASE: 'correct horse' },
+      encoding: 'utf8',
+    })
+    assert.equal(result.status, 0, result.stderr)
+  })
+
+  after(() => rmSync(dir, { recursive: true, force: true }))
+
+  it('opens with the passphrase and keeps the key order', async () => {
+    const signer = signerLib.openKeystoreSigner(path, 'correct horse')
+    assert.equal(signer.kind, 'keystore')
+    assert.deepEqual(signer.publicKeys.map(k => k.toBase58()), [bank.publicKey.toBase58(), rotated.publicKey.toBase58()])
+
+    const tx = transaction(rotated.publicKey, transfer(rotated.publicKey, 0.1))
+    await signer.sign(tx, rotated.publicKey)
+    assert.ok(tx.verifySignatures())
+  })
+
+  it('refuses a wrong passphrase', () => {
+    assert.throws(() => signerLib.openKeystoreSigner(path, 'wrong'), /Failed to unlock keystore/)
+  })
+})
+
+describe('remote signer', () => {
+  const token = 'test-token'
+  let server: ChildProcess
+  let url: string
+
+  before(async () => {
+    server = spawn(process.execPath, ['scripts/remote-signer.mjs'], {
+      env: { ...process.env, SIGNER_REMOTE_TOKEN: token, PORT: '0' },
+      stdio: ['pipe', 'pipe', 'inherit'],
+    })
+    server.stdin!.end(KEYS_INPUT)
+    url = await new Promise<string>((resolve, reject) => {
+      server.stdout!.on('data', (chunk: Buffer) => {
+        const match = chunk.toString().match(/listening on (\S+)/)
+        if (match) resolve(match[1])
+      })
+      server.on('exit', code => reject(new Error(`Remote signer exited with ${code}`)))
+    })
+  })
+
+  after(() => {
+    server.kill()
+  })
+
+  it('signs through the signing service', async () => {
+    const signer = await signerLib.connectRemoteSigner(url, token)
+    assert.deepEqual(signer.publicKeys.map(k => k.toBase58()), [bank.publicKey.toBase58(), rotated.publicKey.toBase58()])
+
+    const tx = transaction(bank.publicKey, transfer(bank.publicKey, 0.1))
+    await signer.sign(tx, bank.publicKey)
+    assert.ok(tx.verifySignatures())
+  })
+
+  it('applies the spend policy before asking the service', async () => {
+    const signer = await signerLib.connectRemoteSigner(url, token)
+    const tx = transaction(bank.publicKey, transfer(bank.publicKey, 2))
+    await assert.rejects(signer.sign(tx, bank.publicKey), /1 SOL limit/)
+    assert.equal(tx.signature, null)
+  })
+
+  it('is refused without the token', async () => {
+    await assert.rejects(signerLib.connectRemoteSigner(url, 'wrong'), /Remote signer: Unauthorized/)
+  })
+})
@@ -0,0 +1,358 @@
+import { createDecipheriv, scryptSync } from 'crypto'
+import { readFileSync } from 'fs'
+import {
+  ComputeBudgetInstruction,
+  ComputeBudgetProgram,
+  Keypair,
+  PublicKey,
+  SystemInstruction,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+} from '@solana/web3.js'
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  decodeInstruction,
+  isTransferCheckedInstruction,
+} from '@solana/spl-token'
+import bs58 from 'bs58'
+import { BET_ASSETS, SOL_ASSET, toBaseUnits } from '@/lib/assets'
+import { ESCROW_PROGRAM_ID, escrowInstructionName, escrowNewAuthority, escrowWithdrawLamports } from '@/lib/escrow'
+
+// ============================================
+// PAYOUT SIGNER - The only path to the bank's keys
+// ============================================
+// Payouts and operator transactions are signed through a PayoutSigner.
+// PAYOUT_SIGNER picks the backend:
+// - local (default): BANK_PRIVATE_KEY (and BANK_PRIVATE_KEY_2/_3 while
+//   rotating), base58 or solana-keygen JSON, parsed once
+// - keystore: an encrypted keystore file (scripts/create-keystore.mjs),
+//   unlocked with SIGNER_KEYSTORE_PASSPHRASE when the server starts
+// - remote: a signing service over HTTP (SIGNER_REMOTE_URL)
+//
+// A signer can hold several keys. The first is the active key; the others
+// stay usable while funds and the escrow authority move to the new key.
+//
+// Before signing, every signer checks the transaction against its policy:
+// only known instructions, and no more than the per-transaction spend limit
+// leaving its keys (priority fees included).
+// ============================================
+
+export type SignerKind = 'local' | 'keystore' | 'remote'
+
+export interface PayoutSigner {
+  kind: SignerKind
+  // Signing keys, the active key first
+  publicKeys: PublicKey[]
+  // Add `key`'s signature to a transaction that already has its blockhash
+  // and fee payer. Throws if the key is unknown or the policy refuses it.
+  sign(transaction: Transaction, key: PublicKey): Promise<void>
+}
+
+// Per-transaction spend limits, 0/unset = no limit. Token limits are in whole
+// tokens by symbol, e.g. {"USDC":1000}.
+const SIGNER_MAX_SPEND_SOL = Number(process.env.SIGNER_MAX_SPEND_SOL) || 0
+
+// null if the setting is malformed - token transfers are then refused
+function parseTokenSpendLimits(): Record<string, number> | null {
+  const raw = process.env.SIGNER_MAX_SPEND_TOKENS
+  if (!raw) return {}
+  try {
+    return JSON.parse(raw)
+  } catch {
+    console.error('SIGNER_MAX_SPEND_TOKENS is not valid JSON, token transfers are refused')
+    return null
+  }
+}
+
+const TOKEN_SPEND_LIMITS = parseTokenSpendLimits()
+
+const REMOTE_SIGNER_TIMEOUT_MS = 10000
+// How long a failed signer load is cached before it is tried again
+const SIGNER_RETRY_MS = Number(process.env.SIGNER_RETRY_MS) || 30000
+
+// Compute units a transaction may use when it does not set a limit
+const DEFAULT_COMPUTE_UNIT_LIMIT = 1400000
+
+// A secret key in base58 (Phantom export) or JSON array (solana-keygen) form
+function parseSecretKey(secret: string): Keypair {
+  try {
+    return Keypair.fromSecretKey(bs58.decode(secret))
+  } catch {
+    return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(secret)))
+  }
+}
+
+// Amounts a transaction moves out of the signer's keys, keyed by 'SOL' or
+// token mint, in base units. Throws for instructions outside the policy.
+function spendOf(transaction: Transaction, keys: PublicKey[]): Map<string, bigint> {
+  const own = (key: PublicKey) => keys.some(k => k.equals(key))
+  const spend = new Map<string, bigint>()
+  const add = (asset: string, amount: bigint) => spend.set(asset, (spend.get(asset) || BigInt(0)) + amount)
+
+  let computeUnits = BigInt(0)
+  let microLamports = BigInt(0)
+
+  transaction.instructions.forEach((ix: TransactionInstruction) => {
+    if (ix.programId.equals(SystemProgram.programId)) {
+      const type = SystemInstruction.decodeInstructionType(ix)
+      // Advancing a durable nonce moves no funds
+      if (type === 'AdvanceNonceAccount') return
+      if (type !== 'Transfer') {
+        throw new Error('Signer policy: only SOL transfers and nonce advances are allowed from the system program')
+      }
+      const { fromPubkey, lamports } = SystemInstruction.decodeTransfer(ix)
+      if (own(fromPubkey)) add('SOL', BigInt(lamports))
+      return
+    }
+
+    // The priority fee is paid by the fee payer and counted below
+    if (ix.programId.equals(ComputeBudgetProgram.programId)) {
+      const type = ComputeBudgetInstruction.decodeInstructionType(ix)
+      if (type === 'SetComputeUnitLimit') {
+        computeUnits = BigInt(ComputeBudgetInstruction.decodeSetComputeUnitLimit(ix).units)
+      } else if (type === 'SetComputeUnitPrice') {
+        microLamports = BigInt(ComputeBudgetInstruction.decodeSetComputeUnitPrice(ix).microLamports)
+      } else {
+        throw new Error(`Signer policy: compute budget instruction ${type} is not allowed`)
+      }
+      return
+    }
+
+    if (ix.programId.equals(TOKEN_PROGRAM_ID)) {
+      const decoded = decodeInstruction(ix)
+      if (!isTransferCheckedInstruction(decoded)) {
+        throw new Error('Signer policy: only checked token transfers are allowed')
+      }
+      if (own(decoded.keys.owner.pubkey)) add(decoded.keys.mint.pubkey.toBase58(), decoded.data.amount)
+      return
+    }
+
+    // Creating a player's token account only costs rent
+    if (ix.programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID)) return
+
+    // Settle and cancel only release what the player escrowed (bounded by
+    // the bet account); withdraw moves house liquidity and counts as spend.
+    // The house authority can only be set to (or created as) a key this
+    // signer holds, so it can be rotated but never handed to anyone else.
+    if (ESCROW_PROGRAM_ID && ix.programId.equals(ESCROW_PROGRAM_ID)) {
+      const name = escrowInstructionName(ix)
+      if (name === 'Settle' || name === 'Cancel') return
+      if (name === 'Withdraw') {
+        add('SOL', BigInt(escrowWithdrawLamports(ix)))
+        return
+      }
+      if (name === 'SetAuthority' && own(escrowNewAuthority(ix))) return
+      if (name === 'InitializeHouse' && own(ix.keys[0].pubkey)) return
+      throw new Error(`Signer policy: escrow instruction ${name || 'unknown'} is not allowed`)
+    }
+
+    throw new Error(`Signer policy: program ${ix.programId.toBase58()} is not allowed`)
+  })
+
+  if (microLamports > BigInt(0) && transaction.feePayer && own(transaction.feePayer)) {
+    const units = computeUnits || BigInt(DEFAULT_COMPUTE_UNIT_LIMIT)
+    add('SOL', (units * microLamports + BigInt(999999)) / BigInt(1000000))
+  }
+
+  return spend
+}
+
+// Throws if the transaction breaks the policy or a spend limit
+function checkSpendPolicy(transaction: Transaction, keys: PublicKey[]): void {
+  spendOf(transaction, keys).forEach((amount, asset) => {
+    if (amount === BigInt(0)) return
+
+    if (asset === 'SOL') {
+      if (SIGNER_MAX_SPEND_SOL > 0 && amount > BigInt(toBaseUnits(SIGNER_MAX_SPEND_SOL, SOL_ASSET))) {
+        throw new Error(`Signer policy: transaction spends more than the ${SIGNER_MAX_SPEND_SOL} SOL limit`)
+      }
+      return
+    }
+
+    const token = BET_ASSETS.find(a => a.mint === asset)
+    if (!token || !TOKEN_SPEND_LIMITS) {
+      throw new Error(`Signer policy: transfers of mint ${asset} are not allowed`)
+    }
+    const limit = Number(TOKEN_SPEND_LIMITS[token.symbol]) || 0
+    if (limit > 0 && amount > BigInt(toBaseUnits(limit, token))) {
+      throw new Error(`Signer policy: transaction spends more than the ${limit} ${token.symbol} limit`)
+    }
+  })
+}
+
+// Wrap a backend's raw signing with the key check and the spend policy
+function withPolicy(
+  kind: SignerKind,
+  publicKeys: PublicKey[],
+  signWith: (transaction: Transaction, key: PublicKey) => Promise<void>
+): PayoutSigner {
+  if (publicKeys.length === 0) throw new Error(`${kind} signer has no keys`)
+
+  return {
+    kind,
+    publicKeys,
+    async sign(transaction, key) {
+      if (!publicKeys.some(k => k.equals(key))) {
+        throw new Error(`Signer does not hold key ${key.toBase58()}`)
+      }
+      checkSpendPolicy(transaction, publicKeys)
+      await signWith(transaction, key)
+    },
+  }
+}
+
+function keypairSigner(kind: SignerKind, keypairs: Keypair[]): PayoutSigner {
+  return withPolicy(kind, keypairs.map(k => k.publicKey), async (transaction, key) => {
+    transaction.partialSign(keypairs.find(k => k.publicKey.equals(key))!)
+  })
+}
+
+// Keys from BANK_PRIVATE_KEY, BANK_PRIVATE_KEY_2 and BANK_PRIVATE_KEY_3
+export function createLocalSigner(): PayoutSigner {
+  const secrets = [
+    process.env.BANK_PRIVATE_KEY,
+    process.env.BANK_PRIVATE_KEY_2,
+    process.env.BANK_PRIVATE_KEY_3,
+  ].filter(Boolean) as string[]
+
+  if (secrets.length === 0) throw new Error('BANK_PRIVATE_KEY not set in environment variables')
+
+  return keypairSigner('local', secrets.map((secret, i) => {
+    try {
+      return parseSecretKey(secret)
+    } catch {
+      throw new Error(`Failed to parse BANK_PRIVATE_KEY${i === 0 ? '' : `_${i + 1}`}`)
+    }
+  }))
+}
+
+// Keystore file written by scripts/create-keystore.mjs: scrypt-derived key,
+// AES-256-GCM over a JSON array of secret keys (active key first)
+export function openKeystoreSigner(path: string, passphrase: string): PayoutSigner {
+  const keystore = JSON.parse(readFileSync(path, 'utf8'))
+  if (keystore.version !== 1 || keystore.kdf !== 'scrypt' || keystore.cipher !== 'aes-256-gcm') {
+    throw new Error('Unsupported keystore format')
+  }
+
+  const { n, r, p } = keystore.kdfParams
+  const key = scryptSync(passphrase, Buffer.from(keystore.salt, 'hex'), 32, { N: n, r, p, maxmem: 256 * n * r })
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(keystore.iv, 'hex'))
+  decipher.setAuthTag(Buffer.from(keystore.tag, 'hex'))
+
+  let secrets: string[]
+  try {
+    const plaintext = Buffer.concat([decipher.update(Buffer.from(keystore.ciphertext, 'hex')), decipher.final()])
+    secrets = JSON.parse(plaintext.toString('utf8'))
+  } catch {
+    throw new Error('Failed to unlock keystore (wrong passphrase or corrupted file)')
+  }
+
+  return keypairSigner('keystore', secrets.map(parseSecretKey))
+}
+
+async function remoteRequest(url: string, token: string, init: RequestInit = {}): Promise<any> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), REMOTE_SIGNER_TIMEOUT_MS)
+
+  try {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      signal: controller.signal,
+    })
+    const data = await response.json().catch(() => ({}))
+    if (!response.ok) throw new Error(`Remote signer: ${data.error || response.statusText}`)
+    return data
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+// Signing service protocol:
+// GET  <url>/keys -> { publicKeys: [base58, ...] } (active key first)
+// POST <url>/sign { publicKey, message: base64 } -> { signature: base58 }
+// The service is expected to apply its own policy as well.
+export async function connectRemoteSigner(url: string, token: string): Promise<PayoutSigner> {
+  const base = url.replace(/\/$/, '')
+  const { publicKeys } = await remoteRequest(`${base}/keys`, token)
+  if (!Array.isArray(publicKeys)) throw new Error('Remote signer returned no keys')
+
+  return withPolicy('remote', publicKeys.map((key: string) => new PublicKey(key)), async (transaction, key) => {
+    const { signature } = await remoteRequest(`${base}/sign`, token, {
+      method: 'POST',
+      body: JSON.stringify({
+        publicKey: key.toBase58(),
+        message: transaction.serializeMessage().toString('base64'),
+      }),
+    })
+    transaction.addSignature(key, Buffer.from(bs58.decode(signature)))
+    if (!transaction.verifySignatures(false)) throw new Error('Remote signer returned an invalid signature')
+  })
+}
+
+async function loadPayoutSigner(): Promise<PayoutSigner> {
+  const kind = process.env.PAYOUT_SIGNER || 'local'
+
+  if (kind === 'local') return createLocalSigner()
+
+  if (kind === 'keystore') {
+    const path = process.env.SIGNER_KEYSTORE_PATH
+    const passphrase = process.env.SIGNER_KEYSTORE_PASSPHRASE
+    if (!path || !passphrase) throw new Error('SIGNER_KEYSTORE_PATH and SIGNER_KEYSTORE_PASSPHRASE are required')
+    return openKeystoreSigner(path, passphrase)
+  }
+
+  if (kind === 'remote') {
+    const url = process.env.SIGNER_REMOTE_URL
+    if (!url) throw new Error('SIGNER_REMOTE_URL is required')
+    return connectRemoteSigner(url, process.env.SIGNER_REMOTE_TOKEN || '')
+  }
+
+  throw new Error(`Unknown PAYOUT_SIGNER "${kind}"`)
+}
+
+let signerPromise: Promise<PayoutSigner | null> | null = null
+// Set while a failed load is cached: when the signer may be loaded again
+let signerRetryAt = 0
+
+// The configured signer, loaded once (at startup, see instrumentation.ts).
+// null if it is not configured or failed to load; payouts then wait. A
+// failure is cached for SIGNER_RETRY_MS, so callers (including the public
+// GET /api/play) never turn a signer outage into a stream of requests to it.
+export function getPayoutSigner(): Promise<PayoutSigner | null> {
+  if (signerPromise && signerRetryAt && Date.now() >= signerRetryAt) {
+    signerPromise = null
+    signerRetryAt = 0
+  }
+
+  if (!signerPromise) {
+    signerPromise = loadPayoutSigner()
+      .then((signer) => {
+        console.log('Payout signer ready:', { kind: signer.kind, keys: signer.publicKeys.map(k => k.toBase58()) })
+        return signer
+      })
+      .catch((error) => {
+        console.error('Payout signer not available:', error.message)
+        // A remote signer may come back - try again once the backoff is over
+        signerRetryAt = Date.now() + SIGNER_RETRY_MS
+        return null
+      })
+  }
+  return signerPromise
+}
+
+// Key that pays out from the bank: the bank wallet's key if the signer holds
+// it, otherwise the active key
+export function payoutKey(signer: PayoutSigner, bankWallet: string): PublicKey {
+  return signer.publicKeys.find(k => k.toBase58() === bankWallet) || signer.publicKeys[0]
+}
+
+// The signer's key for an address (e.g. the escrow house authority), if it holds it
+export function findSignerKey(signer: PayoutSigner, address: string): PublicKey | null {
+  return signer.publicKeys.find(k => k.toBase58() === address) || null
+}
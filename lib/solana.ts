@@ -0,0 +1,82 @@
+import { Connection } from '@solana/web3.js'
+import { CLUSTER_RPC_ENDPOINTS, SOLANA_CLUSTER, clusterForGenesisHash } from '@/lib/cluster'
+
+// Bank Wallet Address - Must match the one in CoinFlipGame
+export const BANK_WALLET_ADDRESS = process.env.NEXT_PUBLIC_BANK_WALLET_ADDRESS || process.env.BANK_WALLET_ADDRESS || ''
+
+// RPC Endpoints - multiple fallbacks for reliability, ending with the
+// configured cluster's public endpoints
+export const RPC_ENDPOINTS = [
+  process.env.SOLANA_RPC_ENDPOINT,
+  process.env.SOLANA_RPC_ENDPOINT_2,
+  process.env.SOLANA_RPC_ENDPOINT_3,
+  ...CLUSTER_RPC_ENDPOINTS[SOLANA_CLUSTER],
+].filter(Boolean) as string[]
+
+// Endpoints whose genesis hash matched NEXT_PUBLIC_SOLANA_CLUSTER
+const verifiedEndpoints = new Set<string>()
+
+// Throws (with `clusterMismatch: true`) when an RPC endpoint is on another
+// cluster than the configured one. Nothing may run then: deposits and
+// payouts would land on the wrong chain.
+async function verifyCluster(endpoint: string, conn: Connection): Promise<void> {
+  if (verifiedEndpoints.has(endpoint)) return
+
+  const actual = clusterForGenesisHash(await conn.getGenesisHash())
+  if (actual !== SOLANA_CLUSTER) {
+    throw Object.assign(new Error(
+      `RPC endpoint ${redactEndpoint(endpoint)} is on ${actual}, but NEXT_PUBLIC_SOLANA_CLUSTER is ${SOLANA_CLUSTER}. ` +
+      `Point the RPC endpoints and the bank wallet (${BANK_WALLET_ADDRESS || 'not set'}) at the same cluster.`
+    ), { clusterMismatch: true })
+  }
+  verifiedEndpoints.add(endpoint)
+}
+
+// Startup check (instrumentation.ts): every reachable RPC endpoint must be on
+// the configured cluster. Unreachable endpoints are checked on first use.
+export async function assertClusterMatches(): Promise<void> {
+  for (const endpoint of RPC_ENDPOINTS) {
+    const conn = new Connection(endpoint, 'confirmed')
+    try {
+      await verifyCluster(endpoint, conn)
+    } catch (e: any) {
+      if (e?.clusterMismatch) throw e
+      console.warn('RPC unreachable at startup, cluster not checked:', redactEndpoint(endpoint))
+    }
+  }
+  console.log('Solana cluster:', SOLANA_CLUSTER)
+}
+
+function redactEndpoint(endpoint: string): string {
+  return endpoint.includes('api-key') ? endpoint.split('?')[0] + '?api-key=***' : endpoint
+}
+
+// A connection that passed its health check is reused for this long, so
+// busy routes do not pay an extra RPC call per request
+const CONNECTION_HEALTH_TTL_MS = Number(process.env.RPC_HEALTH_TTL_MS) || 30000
+
+let healthyConnection: { connection: Connection; checkedAt: number } | null = null
+
+// Get a working connection
+export async function getConnection(): Promise<Connection> {
+  if (healthyConnection && Date.now() - healthyConnection.checkedAt < CONNECTION_HEALTH_TTL_MS) {
+    return healthyConnection.connection
+  }
+
+  for (const endpoint of RPC_ENDPOINTS) {
+    try {
+      const conn = new Connection(endpoint, 'confirmed')
+      // Quick health check
+      await conn.getSlot()
+      await verifyCluster(endpoint, conn)
+      console.log('Using RPC:', redactEndpoint(endpoint))
+      healthyConnection = { connection: conn, checkedAt: Date.now() }
+      return conn
+    } catch (e) {
+      if ((e as any)?.clusterMismatch) throw e
+      console.log('RPC failed, trying next:', redactEndpoint(endpoint))
+    }
+  }
+  // Fallback to first endpoint even if health check failed
+  return new Connection(RPC_ENDPOINTS[0], 'confirmed')
+}
@@ -0,0 +1,251 @@
+import { supabase, supabaseAdmin } from '@/lib/supabase'
+
+export interface GameHistoryItem {
+  result: 'win' | 'loss'
+  amount: number
+  asset?: string
+  timestamp: number
+  playerWallet?: string
+  depositSignature?: string
+  payoutSignature?: string
+}
+
+export interface StatsTotals {
+  totalBets: number
+  totalWagered: number
+  wins: number
+  losses: number
+}
+
+// Running totals for one bet currency
+export interface AssetTotals {
+  asset: string
+  totalBets: number
+  totalWagered: number
+  totalPayout: number
+  wins: number
+  losses: number
+}
+
+// totalWagered counts SOL bets only; per-asset volume is in `assets`
+export interface Stats extends StatsTotals {
+  gameHistory: GameHistoryItem[]
+  assets: AssetTotals[]
+}
+
+export interface GameRecord {
+  result: 'win' | 'loss'
+  amount: number
+  payout: number
+  playerWallet: string
+  depositSignature: string
+  payoutSignature?: string
+  asset?: string
+}
+
+// Initialize default stats
+export const defaultStats: Stats = {
+  totalBets: 0,
+  totalWagered: 0,
+  wins: 0,
+  losses: 0,
+  gameHistory: [],
+  assets: [],
+}
+
+// Read stats from Supabase
+export async function readStats(): Promise<Stats> {
+  try {
+    // Get global stats (single row with id = 1)
+    const { data: statsData, error: statsError } = await supabase
+      .from('global_stats')
+      .select('*')
+      .eq('id', 1)
+      .single()
+
+    if (statsError && statsError.code !== 'PGRST116') { // PGRST116 = no rows returned
+      console.error('Error reading stats:', statsError)
+      return defaultStats
+    }
+
+    // Get recent game history (server key: the public policy only covers the last day)
+    const { data: historyData, error: historyError } = await supabaseAdmin
+      .from('game_history')
+      .select('*')
+      .order('timestamp', { ascending: false })
+      .limit(100)
+
+    if (historyError) {
+      console.error('Error reading history:', historyError)
+    }
+
+    const { data: assetData, error: assetError } = await supabase
+      .from('asset_stats')
+      .select('*')
+      .order('asset', { ascending: true })
+
+    if (assetError) {
+      console.error('Error reading asset stats:', assetError)
+    }
+
+    const assets: AssetTotals[] = (assetData || []).map((row: any) => ({
+      asset: row.asset,
+      totalBets: Number(row.total_bets) || 0,
+      totalWagered: Number(row.total_wagered) || 0,
+      totalPayout: Number(row.total_payout) || 0,
+      wins: Number(row.wins) || 0,
+      losses: Number(row.losses) || 0,
+    }))
+
+    const gameHistory: GameHistoryItem[] = (historyData || []).map((item: any) => ({
+      result: item.result,
+      amount: item.amount,
+      asset: item.asset || 'SOL',
+      timestamp: new Date(item.timestamp).getTime(),
+      playerWallet: item.player_wallet,
+      depositSignature: item.deposit_signature || undefined,
+      payoutSignature: item.payout_signature || undefined,
+    }))
+
+    if (statsData) {
+      return {
+        totalBets: statsData.total_bets || 0,
+        totalWagered: statsData.total_wagered || 0,
+        wins: statsData.wins || 0,
+        losses: statsData.losses || 0,
+        gameHistory,
+        assets,
+      }
+    }
+
+    return { ...defaultStats, gameHistory, assets }
+  } catch (error) {
+    console.error('Failed to read stats:', error)
+    return defaultStats
+  }
+}
+
+// Map the JSON totals returned by record_game / rebuild_global_stats
+function mapTotals(data: any): StatsTotals {
+  return {
+    totalBets: Number(data.total_bets) || 0,
+    totalWagered: Number(data.total_wagered) || 0,
+    wins: Number(data.wins) || 0,
+    losses: Number(data.losses) || 0,
+  }
+}
+
+// Record a settled bet in game_history and global_stats.
+// record_game inserts the history row and increments the counters in one
+// transaction. game_history.deposit_signature is unique, so recording the
+// same bet twice is a no-op and never double counts.
+export async function recordGameResult(
+  record: GameRecord
+): Promise<{ recorded: boolean; totals: StatsTotals }> {
+  const { data, error } = await supabaseAdmin.rpc('record_game', {
+    p_result: record.result,
+    p_amount: record.amount,
+    p_payout: record.payout,
+    p_player_wallet: record.playerWallet,
+    p_deposit_signature: record.depositSignature,
+    p_payout_signature: record.payoutSignature || null,
+    p_asset: record.asset || 'SOL',
+  })
+
+  if (error) {
+    console.error('Error recording game:', error)
+    throw error
+  }
+
+  if (!data.recorded) {
+    console.log('Game already recorded:', record.depositSignature)
+  }
+
+  return { recorded: !!data.recorded, totals: mapTotals(data) }
+}
+
+// Recompute global_stats from game_history, for when the two drift apart
+export async function rebuildStats(): Promise<StatsTotals> {
+  const { data, error } = await supabaseAdmin.rpc('rebuild_global_stats')
+
+  if (error) {
+    console.error('Error rebuilding stats:', error)
+    throw error
+  }
+
+  return mapTotals(data)
+}
+
+// Link a confirmed payout transaction to the bet's history row
+export async function setHistoryPayoutSignature(
+  depositSignature: string,
+  payoutSignature: string
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('game_history')
+    .update({ payout_signature: payoutSignature })
+    .eq('deposit_signature', depositSignature)
+
+  if (error) throw error
+}
+
+export type TimeseriesBucket = 'hour' | 'day'
+export type TimeseriesRange = '24h' | '7d' | '30d' | '90d' | '365d'
+
+export const TIMESERIES_BUCKETS: TimeseriesBucket[] = ['hour', 'day']
+
+export const TIMESERIES_RANGE_MS: Record<TimeseriesRange, number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+  '90d': 90 * 24 * 60 * 60 * 1000,
+  '365d': 365 * 24 * 60 * 60 * 1000,
+}
+
+export interface TimeseriesPoint {
+  bucketStart: string
+  bets: number
+  volume: number
+  payouts: number
+  // Volume minus payouts - positive when the bank came out ahead
+  houseNet: number
+  wins: number
+  winRate: number
+  players: number
+}
+
+// Bucketed bet count, volume, payouts, house net and distinct players for one asset
+export async function getStatsTimeseries(
+  bucket: TimeseriesBucket,
+  since: Date,
+  until: Date,
+  asset = 'SOL'
+): Promise<TimeseriesPoint[]> {
+  const { data, error } = await supabaseAdmin.rpc('stats_timeseries', {
+    p_bucket: bucket,
+    p_since: since.toISOString(),
+    p_until: until.toISOString(),
+    p_asset: asset,
+  })
+
+  if (error) {
+    console.error('Error reading stats timeseries:', error)
+    throw error
+  }
+
+  return (data || []).map((row: any) => {
+    const bets = Number(row.bets) || 0
+    const wins = Number(row.wins) || 0
+
+    return {
+      bucketStart: new Date(row.bucket_start).toISOString(),
+      bets,
+      volume: Number(row.volume) || 0,
+      payouts: Number(row.payouts) || 0,
+      houseNet: Number(row.house_net) || 0,
+      wins,
+      winRate: bets > 0 ? wins / bets : 0,
+      players: Number(row.players) || 0,
+    }
+  })
+}
@@ -0,0 +1,443 @@
+import {
+  Connection,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+} from '@solana/web3.js'
+import bs58 from 'bs58'
+import { supabaseAdmin } from '@/lib/supabase'
+import { BANK_WALLET_ADDRESS } from '@/lib/solana'
+import { ESCROW_ENABLED, HOUSE_ACCOUNT_SIZE, fetchHouse, findHouseAddress, withdrawInstruction } from '@/lib/escrow'
+import { findSignerKey, getPayoutSigner, payoutKey } from '@/lib/signer'
+import { computeBudgetInstructions } from '@/lib/fees'
+import { getOutstandingLiabilities } from '@/lib/payouts'
+
+// ============================================
+// TREASURY - Hot payout wallet kept inside a band
+// ============================================
+// The hot wallet is the SOL the house pays from: the bank wallet, or the
+// escrow house in escrow mode. With TREASURY_COLD_ADDRESS set, the treasury
+// worker (POST /api/treasury/process, on a schedule) keeps its free balance
+// (balance minus unpaid payouts) between the floor and the ceiling:
+// - Above the ceiling, the surplus down to the target is swept to the cold
+//   address, signed by the payout signer (so its spend limit applies).
+// - Below the floor, a top-up request for the shortfall up to the target is
+//   opened and posted to TREASURY_ALERT_WEBHOOK_URL. The cold address never
+//   signs here, so topping up is left to its owner. The request is resolved
+//   once the balance is back above the floor.
+// Every sweep and top-up request is logged in treasury_events.
+// ============================================
+
+function parseColdAddress(): PublicKey | null {
+  const value = process.env.TREASURY_COLD_ADDRESS
+  if (!value) return null
+  try {
+    return new PublicKey(value)
+  } catch {
+    console.warn('TREASURY_COLD_ADDRESS is not a valid address, the treasury is disabled')
+    return null
+  }
+}
+
+const TREASURY_COLD_ADDRESS = parseColdAddress()
+export const TREASURY_ENABLED = !!TREASURY_COLD_ADDRESS
+
+// 0 = no floor (never ask for a top-up) / no ceiling (never sweep)
+const TREASURY_HOT_FLOOR_SOL = Number(process.env.TREASURY_HOT_FLOOR_SOL) || 0
+const TREASURY_HOT_CEILING_SOL = Number(process.env.TREASURY_HOT_CEILING_SOL) || 0
+// Where sweeps and top-ups bring the free balance, defaults to the middle of the band
+const TREASURY_HOT_TARGET_SOL = Number(process.env.TREASURY_HOT_TARGET_SOL)
+  || (TREASURY_HOT_CEILING_SOL ? (TREASURY_HOT_FLOOR_SOL + TREASURY_HOT_CEILING_SOL) / 2 : TREASURY_HOT_FLOOR_SOL)
+// Largest single sweep, 0 = no cap. Keep it within SIGNER_MAX_SPEND_SOL.
+const TREASURY_MAX_SWEEP_SOL = Number(process.env.TREASURY_MAX_SWEEP_SOL) || 0
+const TREASURY_ALERT_WEBHOOK_URL = process.env.TREASURY_ALERT_WEBHOOK_URL || ''
+
+// Cold SOL counted into the bank balance bet limits are computed from
+export const TREASURY_EXPOSED_RESERVE_SOL = TREASURY_ENABLED
+  ? Number(process.env.TREASURY_EXPOSED_RESERVE_SOL) || 0
+  : 0
+
+const TREASURY_ALERT_TIMEOUT_MS = 5000
+// A claimed sweep that has no signature after this long was abandoned
+// before broadcasting (its run died while signing) and is failed
+const TREASURY_SWEEP_SIGNING_TIMEOUT_MS = 2 * 60 * 1000
+
+const UNIQUE_VIOLATION = '23505'
+
+export type TreasuryEventKind = 'sweep' | 'top_up'
+export type TreasuryEventStatus = 'sent' | 'confirmed' | 'failed' | 'open' | 'resolved'
+
+export interface TreasuryEvent {
+  id: number
+  kind: TreasuryEventKind
+  status: TreasuryEventStatus
+  amount: number
+  // Hot wallet free balance when the event was raised
+  hotBalance: number
+  fromAddress: string | null
+  toAddress: string | null
+  signature: string | null
+  error: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface TreasuryStatus {
+  enabled: boolean
+  hotAddress: string
+  coldAddress: string | null
+  hotBalance: number
+  pendingPayouts: number
+  freeBalance: number
+  floor: number | null
+  ceiling: number | null
+  target: number
+  maxSweep: number | null
+  exposedReserve: number
+}
+
+export interface TreasuryRun {
+  action: 'none' | 'sweep' | 'top_up' | 'waiting'
+  status: TreasuryStatus
+  event: TreasuryEvent | null
+}
+
+function mapEvent(row: any): TreasuryEvent {
+  return {
+    id: row.id,
+    kind: row.kind,
+    status: row.status,
+    amount: Number(row.amount),
+    hotBalance: Number(row.hot_balance),
+    fromAddress: row.from_address ?? null,
+    toAddress: row.to_address ?? null,
+    signature: row.signature ?? null,
+    error: row.error ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+// Address the hot balance is held at
+export function hotWalletAddress(): string {
+  return ESCROW_ENABLED ? findHouseAddress().toBase58() : BANK_WALLET_ADDRESS
+}
+
+// SOL the house can pay from: held by the escrow house above its rent in
+// escrow mode, else the bank wallet's balance
+export async function getHotBalance(connection: Connection): Promise<number> {
+  if (ESCROW_ENABLED) {
+    const [lamports, rent] = await Promise.all([
+      connection.getBalance(findHouseAddress()),
+      connection.getMinimumBalanceForRentExemption(HOUSE_ACCOUNT_SIZE),
+    ])
+    return Math.max(0, lamports - rent) / LAMPORTS_PER_SOL
+  }
+
+  if (!BANK_WALLET_ADDRESS) return 0
+  return (await connection.getBalance(new PublicKey(BANK_WALLET_ADDRESS))) / LAMPORTS_PER_SOL
+}
+
+export async function getTreasuryStatus(connection: Connection): Promise<TreasuryStatus> {
+  const [hotBalance, liabilities] = await Promise.all([
+    getHotBalance(connection),
+    getOutstandingLiabilities('SOL'),
+  ])
+  const pendingPayouts = liabilities.pending + liabilities.sent + liabilities.failed
+
+  return {
+    enabled: TREASURY_ENABLED,
+    hotAddress: hotWalletAddress(),
+    coldAddress: TREASURY_COLD_ADDRESS?.toBase58() ?? null,
+    hotBalance,
+    pendingPayouts,
+    freeBalance: Math.max(0, hotBalance - pendingPayouts),
+    floor: TREASURY_HOT_FLOOR_SOL || null,
+    ceiling: TREASURY_HOT_CEILING_SOL || null,
+    target: TREASURY_HOT_TARGET_SOL,
+    maxSweep: TREASURY_MAX_SWEEP_SOL || null,
+    exposedReserve: TREASURY_EXPOSED_RESERVE_SOL,
+  }
+}
+
+export async function listTreasuryEvents(limit = 50): Promise<TreasuryEvent[]> {
+  const { data, error } = await supabaseAdmin
+    .from('treasury_events')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+  return (data || []).map(mapEvent)
+}
+
+async function insertEvent(fields: Record<string, any>): Promise<TreasuryEvent> {
+  const { data, error } = await supabaseAdmin
+    .from('treasury_events')
+    .insert(fields)
+    .select()
+    .single()
+
+  if (error) throw Object.assign(new Error(`Failed to log treasury event: ${error.message}`), { code: error.code })
+  return mapEvent(data)
+}
+
+async function saveEvent(id: number, fields: Record<string, any>): Promise<TreasuryEvent> {
+  const { data, error } = await supabaseAdmin
+    .from('treasury_events')
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single()
+
+  if (error) throw new Error(`Failed to update treasury event: ${error.message}`)
+  return mapEvent(data)
+}
+
+// Post to the alert webhook (Slack-compatible `text` body). Alerts are best
+// effort and never fail the treasury run.
+async function sendAlert(text: string): Promise<void> {
+  console.warn('Treasury alert:', text)
+  if (!TREASURY_ALERT_WEBHOOK_URL) return
+
+  try {
+    const response = await fetch(TREASURY_ALERT_WEBHOOK_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text }),
+      signal: AbortSignal.timeout(TREASURY_ALERT_TIMEOUT_MS),
+    })
+    if (!response.ok) console.error('Treasury alert webhook failed:', response.status)
+  } catch (error) {
+    console.error('Treasury alert webhook failed:', error)
+  }
+}
+
+// Sweep transaction out of the hot wallet, signed by the payout signer
+async function buildSignedSweep(
+  connection: Connection,
+  lamports: number
+): Promise<{ transaction: Transaction; lastValidBlockHeight: number }> {
+  const signer = await getPayoutSigner()
+  if (!signer) throw new Error('Payout signer not available')
+
+  const payer = payoutKey(signer, BANK_WALLET_ADDRESS)
+  let instruction: TransactionInstruction
+  let authority: PublicKey | null = null
+
+  if (ESCROW_ENABLED) {
+    const house = await fetchHouse(connection)
+    authority = house && findSignerKey(signer, house.authority)
+    if (!authority) throw new Error('Escrow house authority is not a payout signer key')
+    instruction = withdrawInstruction(authority, TREASURY_COLD_ADDRESS!, lamports)
+  } else {
+    const bank = findSignerKey(signer, BANK_WALLET_ADDRESS)
+    if (!bank) throw new Error('Bank wallet is not a payout signer key')
+    instruction = SystemProgram.transfer({ fromPubkey: bank, toPubkey: TREASURY_COLD_ADDRESS!, lamports })
+  }
+
+  const transaction = new Transaction().add(...await computeBudgetInstructions(connection, [instruction]), instruction)
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed')
+  transaction.recentBlockhash = blockhash
+  transaction.feePayer = payer
+  await signer.sign(transaction, payer)
+  if (authority && !authority.equals(payer)) await signer.sign(transaction, authority)
+
+  return { transaction, lastValidBlockHeight }
+}
+
+// Returns null if another run already has a sweep in flight
+async function sweep(connection: Connection, status: TreasuryStatus, amount: number): Promise<TreasuryEvent | null> {
+  const lamports = Math.floor(amount * LAMPORTS_PER_SOL)
+
+  // Claimed before signing: only one 'sent' sweep can exist at a time
+  // (idx_treasury_events_in_flight), so concurrent runs never sweep twice
+  let claimed: TreasuryEvent
+  try {
+    claimed = await insertEvent({
+      kind: 'sweep',
+      status: 'sent',
+      amount: lamports / LAMPORTS_PER_SOL,
+      hot_balance: status.freeBalance,
+      from_address: status.hotAddress,
+      to_address: status.coldAddress,
+    })
+  } catch (error: any) {
+    if (error.code === UNIQUE_VIOLATION) return null
+    throw error
+  }
+
+  let transaction: Transaction
+  let lastValidBlockHeight: number
+  try {
+    ({ transaction, lastValidBlockHeight } = await buildSignedSweep(connection, lamports))
+  } catch (error: any) {
+    // Nothing was broadcast; the next run tries again
+    const event = await saveEvent(claimed.id, { status: 'failed', error: error.message || 'Failed to build sweep' })
+    await sendAlert(`Sweep of ${event.amount} SOL to cold storage failed: ${event.error}`)
+    return event
+  }
+
+  // Saved before broadcasting, so a sweep that lands after a send error is
+  // still found (and waited for) by the next run. Skipped if the claim was
+  // failed as abandoned in the meantime.
+  const { data: signed, error } = await supabaseAdmin
+    .from('treasury_events')
+    .update({
+      signature: bs58.encode(transaction.signature!),
+      last_valid_block_height: lastValidBlockHeight,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', claimed.id)
+    .eq('status', 'sent')
+    .select()
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to update treasury event: ${error.message}`)
+  if (!signed) {
+    console.warn('Sweep claim was released before broadcasting, not sending:', { id: claimed.id })
+    return null
+  }
+  const event = mapEvent(signed)
+
+  try {
+    await connection.sendRawTransaction(transaction.serialize(), {
+      skipPreflight: false,
+      preflightCommitment: 'confirmed',
+    })
+  } catch (error: any) {
+    console.error('Sweep broadcast failed, waiting for blockhash expiry:', error)
+    return saveEvent(event.id, { error: error.message || 'Sweep broadcast failed' })
+  }
+
+  console.log('Sweep sent:', { id: event.id, amount: event.amount, to: event.toAddress, signature: event.signature })
+  return event
+}
+
+// Settle a sent sweep once it confirms, fails or its blockhash expires.
+// Returns the event, still 'sent' while it may land.
+async function checkSweep(connection: Connection, row: any): Promise<TreasuryEvent> {
+  const event = mapEvent(row)
+
+  // Claimed by a run that is still signing, or that died before broadcasting
+  if (!event.signature) {
+    if (Date.now() - new Date(event.createdAt).getTime() < TREASURY_SWEEP_SIGNING_TIMEOUT_MS) return event
+    const { data, error } = await supabaseAdmin
+      .from('treasury_events')
+      .update({ status: 'failed', error: 'Sweep was never signed', updated_at: new Date().toISOString() })
+      .eq('id', event.id)
+      .eq('status', 'sent')
+      .is('signature', null)
+      .select()
+      .maybeSingle()
+
+    if (error) throw new Error(`Failed to update treasury event: ${error.message}`)
+    // Signed in the meantime: wait for it like any other sent sweep
+    return data ? mapEvent(data) : { ...event, status: 'sent' }
+  }
+
+  const { value } = await connection.getSignatureStatuses([event.signature!], { searchTransactionHistory: true })
+  const status = value[0]
+
+  if (status?.err) {
+    const failed = await saveEvent(event.id, { status: 'failed', error: `Sweep transaction failed: ${JSON.stringify(status.err)}` })
+    await sendAlert(`Sweep of ${failed.amount} SOL to cold storage failed: ${failed.error}`)
+    return failed
+  }
+
+  if (status?.confirmationStatus === 'confirmed' || status?.confirmationStatus === 'finalized') {
+    console.log('Sweep confirmed:', { id: event.id, signature: event.signature })
+    return saveEvent(event.id, { status: 'confirmed', error: null })
+  }
+
+  const blockHeight = await connection.getBlockHeight('confirmed')
+  if (row.last_valid_block_height !== null && blockHeight > Number(row.last_valid_block_height)) {
+    return saveEvent(event.id, { status: 'failed', error: 'Sweep expired without landing' })
+  }
+
+  return event
+}
+
+async function openTopUpRequest(status: TreasuryStatus): Promise<TreasuryEvent | null> {
+  const { data: open, error } = await supabaseAdmin
+    .from('treasury_events')
+    .select('id')
+    .eq('kind', 'top_up')
+    .eq('status', 'open')
+    .limit(1)
+
+  if (error) throw error
+  // Already asked; the alert is not repeated every run
+  if (open?.length) return null
+
+  const amount = status.target - status.freeBalance
+  let event: TreasuryEvent
+  try {
+    event = await insertEvent({
+      kind: 'top_up',
+      status: 'open',
+      amount,
+      hot_balance: status.freeBalance,
+      from_address: status.coldAddress,
+      to_address: status.hotAddress,
+    })
+  } catch (error: any) {
+    // A concurrent run opened it first
+    if (error.code === UNIQUE_VIOLATION) return null
+    throw error
+  }
+
+  await sendAlert(
+    `Hot wallet ${status.hotAddress} has ${status.freeBalance.toFixed(4)} SOL free, below the ${status.floor} SOL floor. ` +
+    `Top up ${amount.toFixed(4)} SOL from cold storage (${status.coldAddress}).`
+  )
+  return event
+}
+
+async function resolveTopUpRequests(): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('treasury_events')
+    .update({ status: 'resolved', updated_at: new Date().toISOString() })
+    .eq('kind', 'top_up')
+    .eq('status', 'open')
+
+  if (error) throw error
+}
+
+// Worker entry point: bring the hot wallet back inside its band
+export async function runTreasury(connection: Connection): Promise<TreasuryRun> {
+  // The balance only settles once earlier sweeps have landed or expired
+  const { data: inFlight, error } = await supabaseAdmin
+    .from('treasury_events')
+    .select('*')
+    .eq('kind', 'sweep')
+    .eq('status', 'sent')
+
+  if (error) throw error
+
+  for (const row of inFlight || []) {
+    const event = await checkSweep(connection, row)
+    if (event.status === 'sent') {
+      return { action: 'waiting', status: await getTreasuryStatus(connection), event }
+    }
+  }
+
+  const status = await getTreasuryStatus(connection)
+  if (!status.enabled) return { action: 'none', status, event: null }
+
+  if (status.ceiling !== null && status.freeBalance > status.ceiling) {
+    const surplus = status.freeBalance - status.target
+    const amount = status.maxSweep !== null ? Math.min(surplus, status.maxSweep) : surplus
+    const event = await sweep(connection, status, amount)
+    return { action: event ? 'sweep' : 'waiting', status, event }
+  }
+
+  if (status.floor !== null && status.freeBalance < status.floor) {
+    return { action: 'top_up', status, event: await openTopUpRequest(status) }
+  }
+
+  await resolveTopUpRequests()
+  return { action: 'none', status, event: null }
+}
@@ -0,0 +1,16 @@
+// Netlify scheduled function - drives the payout worker every minute.
+// Sends, confirms and retries queued payouts via POST /api/payouts/process.
+export default async () => {
+  const response = await fetch(`${process.env.URL}/api/payouts/process`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${process.env.ADMIN_SECRET}`,
+    },
+  })
+
+  console.log('Payout worker:', response.status, await response.text())
+}
+
+export const config = {
+  schedule: '* * * * *',
+}
@@ -0,0 +1,17 @@
+// Netlify scheduled function - drives the treasury worker every five minutes.
+// Sweeps hot wallet surplus to cold storage and raises top-up requests via
+// POST /api/treasury/process.
+export default async () => {
+  const response = await fetch(`${process.env.URL}/api/treasury/process`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${process.env.ADMIN_SECRET}`,
+    },
+  })
+
+  console.log('Treasury worker:', response.status, await response.text())
+}
+
+export const config = {
+  schedule: '*/5 * * * *',
+}
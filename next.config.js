@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // instrumentation.ts checks the Solana cluster on startup
+    instrumentationHook: true,
+  },
   webpack: (config, { isServer }) => {
     // Exclude Node.js modules from client-side bundle
     if (!isServer) {
@@ -0,0 +1,22 @@
+use solana_program::program_error::ProgramError;
+
+// Custom error codes, surfaced to clients as `custom program error: 0x<code>`.
+// Keep in sync with ESCROW_ERRORS in lib/escrow.ts.
+#[derive(Debug, Clone, Copy, PartialEq, Eq)]
+pub enum EscrowError {
+    InvalidInstruction = 0,
+    AlreadyInitialized = 1,
+    InvalidHouse = 2,
+    InvalidBet = 3,
+    Unauthorized = 4,
+    InvalidAmount = 5,
+    InsufficientLiquidity = 6,
+    NotExpired = 7,
+    InvalidProgramData = 8,
+}
+
+impl From<EscrowError> for ProgramError {
+    fn from(error: EscrowError) -> Self {
+        ProgramError::Custom(error as u32)
+    }
+}
@@ -0,0 +1,90 @@
+use solana_program::{program_error::ProgramError, pubkey::Pubkey};
+
+use crate::error::EscrowError;
+
+// Instruction data is a one-byte tag followed by little-endian fields.
+// Keep in sync with the builders in lib/escrow.ts.
+pub enum EscrowInstruction {
+    // Create the house vault. Only the program's upgrade authority can, and
+    // it becomes the settlement authority.
+    // Accounts: [signer, writable] authority, [writable] house, [] system program,
+    //           [] program data (upgradeable loader PDA of the program id)
+    InitializeHouse { settle_timeout: i64 },
+
+    // Lock a bet: the player's stake and the house's share of the payout
+    // move into a new bet account.
+    // Accounts: [signer, writable] player, [writable] house, [writable] bet, [] system program
+    PlaceBet {
+        bet_id: u64,
+        stake: u64,
+        payout: u64,
+        commitment: [u8; 32],
+    },
+
+    // Pay out a rolled bet: everything to the player on a win, stake and
+    // house share to the house on a loss. Rent goes back to the player.
+    // Accounts: [signer] authority, [writable] house, [writable] bet, [writable] player
+    Settle { player_wins: bool },
+
+    // Refund a bet the server refused: stake to the player, share back to the house.
+    // Accounts: [signer] authority, [writable] house, [writable] bet, [writable] player
+    Cancel,
+
+    // Refund a bet nobody settled within the house's settle timeout.
+    // Accounts: [signer, writable] player, [writable] house, [writable] bet
+    Reclaim,
+
+    // Move free liquidity out of the house.
+    // Accounts: [signer] authority, [writable] house, [writable] destination
+    Withdraw { amount: u64 },
+
+    // Hand settlement over to a new key.
+    // Accounts: [signer] authority, [writable] house
+    SetAuthority { new_authority: Pubkey },
+}
+
+fn read_u64(data: &[u8], offset: usize) -> Result<u64, ProgramError> {
+    data.get(offset..offset + 8)
+        .map(|bytes| u64::from_le_bytes(bytes.try_into().unwrap()))
+        .ok_or_else(|| EscrowError::InvalidInstruction.into())
+}
+
+impl EscrowInstruction {
+    pub fn unpack(input: &[u8]) -> Result<Self, ProgramError> {
+        let (&tag, rest) = input.split_first().ok_or(EscrowError::InvalidInstruction)?;
+
+        Ok(match tag {
+            0 => Self::InitializeHouse {
+                settle_timeout: read_u64(rest, 0)? as i64,
+            },
+            1 => {
+                let commitment = rest
+                    .get(24..56)
+                    .ok_or(EscrowError::InvalidInstruction)?
+                    .try_into()
+                    .unwrap();
+                Self::PlaceBet {
+                    bet_id: read_u64(rest, 0)?,
+                    stake: read_u64(rest, 8)?,
+                    payout: read_u64(rest, 16)?,
+                    commitment,
+                }
+            }
+            2 => Self::Settle {
+                player_wins: *rest.first().ok_or(EscrowError::InvalidInstruction)? == 1,
+            },
+            3 => Self::Cancel,
+            4 => Self::Reclaim,
+            5 => Self::Withdraw {
+                amount: read_u64(rest, 0)?,
+            },
+            6 => {
+                let key = rest.get(0..32).ok_or(EscrowError::InvalidInstruction)?;
+                Self::SetAuthority {
+                    new_authority: Pubkey::new_from_array(key.try_into().unwrap()),
+                }
+            }
+            _ => return Err(EscrowError::InvalidInstruction.into()),
+        })
+    }
+}
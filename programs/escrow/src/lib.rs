@@ -0,0 +1,22 @@
+// Escrow program for Double or Nothing bets.
+//
+// A bet locks the player's stake and the house's share of the payout in a
+// PDA. The house authority settles it to the winner once the provably fair
+// roll is known, or cancels it (refund). If neither happens within the
+// house's settle timeout, the player can reclaim the stake on their own.
+
+pub mod error;
+pub mod instruction;
+pub mod processor;
+pub mod state;
+
+#[cfg(not(feature = "no-entrypoint"))]
+mod entrypoint {
+    use solana_program::{account_info::AccountInfo, entrypoint, entrypoint::ProgramResult, pubkey::Pubkey};
+
+    entrypoint!(process_instruction);
+
+    fn process_instruction(program_id: &Pubkey, accounts: &[AccountInfo], input: &[u8]) -> ProgramResult {
+        crate::processor::process(program_id, accounts, input)
+    }
+}
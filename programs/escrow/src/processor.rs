@@ -0,0 +1,338 @@
+use solana_program::{
+    account_info::{next_account_info, AccountInfo},
+    bpf_loader_upgradeable,
+    clock::Clock,
+    entrypoint::ProgramResult,
+    msg,
+    program::{invoke, invoke_signed},
+    program_error::ProgramError,
+    pubkey::Pubkey,
+    rent::Rent,
+    system_instruction, system_program,
+    sysvar::Sysvar,
+};
+
+use crate::{
+    error::EscrowError,
+    instruction::EscrowInstruction,
+    state::{Bet, House, BET_SEED, HOUSE_SEED},
+};
+
+pub fn process(program_id: &Pubkey, accounts: &[AccountInfo], input: &[u8]) -> ProgramResult {
+    match EscrowInstruction::unpack(input)? {
+        EscrowInstruction::InitializeHouse { settle_timeout } => {
+            initialize_house(program_id, accounts, settle_timeout)
+        }
+        EscrowInstruction::PlaceBet {
+            bet_id,
+            stake,
+            payout,
+            commitment,
+        } => place_bet(program_id, accounts, bet_id, stake, payout, commitment),
+        EscrowInstruction::Settle { player_wins } => settle(program_id, accounts, player_wins),
+        EscrowInstruction::Cancel => cancel(program_id, accounts),
+        EscrowInstruction::Reclaim => reclaim(program_id, accounts),
+        EscrowInstruction::Withdraw { amount } => withdraw(program_id, accounts, amount),
+        EscrowInstruction::SetAuthority { new_authority } => {
+            set_authority(program_id, accounts, new_authority)
+        }
+    }
+}
+
+// Read the house vault, checking it is this program's PDA
+fn load_house(program_id: &Pubkey, house: &AccountInfo) -> Result<House, ProgramError> {
+    if house.owner != program_id {
+        return Err(EscrowError::InvalidHouse.into());
+    }
+    let state = House::unpack(&house.data.borrow())?;
+    let expected = Pubkey::create_program_address(&[HOUSE_SEED, &[state.bump]], program_id)?;
+    if expected != *house.key {
+        return Err(EscrowError::InvalidHouse.into());
+    }
+    Ok(state)
+}
+
+// Read the house and check the signer is its settlement authority
+fn load_house_as_authority(
+    program_id: &Pubkey,
+    authority: &AccountInfo,
+    house: &AccountInfo,
+) -> Result<House, ProgramError> {
+    let state = load_house(program_id, house)?;
+    if !authority.is_signer || *authority.key != state.authority {
+        return Err(EscrowError::Unauthorized.into());
+    }
+    Ok(state)
+}
+
+// Read an open bet and check it belongs to `player`
+fn load_bet(program_id: &Pubkey, bet: &AccountInfo, player: &AccountInfo) -> Result<Bet, ProgramError> {
+    if bet.owner != program_id {
+        return Err(EscrowError::InvalidBet.into());
+    }
+    let state = Bet::unpack(&bet.data.borrow())?;
+    if state.player != *player.key {
+        return Err(EscrowError::InvalidBet.into());
+    }
+    Ok(state)
+}
+
+// The program's upgrade authority, read from its ProgramData account.
+// Layout (UpgradeableLoaderState::ProgramData): tag u32 LE = 3 (4) | slot (8) |
+// authority Option<Pubkey> (1 + 32)
+fn upgrade_authority(program_id: &Pubkey, program_data: &AccountInfo) -> Result<Option<Pubkey>, ProgramError> {
+    let (expected, _) =
+        Pubkey::find_program_address(&[program_id.as_ref()], &bpf_loader_upgradeable::id());
+    if expected != *program_data.key || *program_data.owner != bpf_loader_upgradeable::id() {
+        return Err(EscrowError::InvalidProgramData.into());
+    }
+    let data = program_data.data.borrow();
+    if data.len() < 45 || data[0..4] != 3u32.to_le_bytes() {
+        return Err(EscrowError::InvalidProgramData.into());
+    }
+    Ok(match data[12] {
+        0 => None,
+        _ => Some(Pubkey::new_from_array(data[13..45].try_into().unwrap())),
+    })
+}
+
+// Free lamports in the house above its rent-exempt minimum
+fn house_liquidity(house: &AccountInfo, rent: &Rent) -> u64 {
+    house.lamports().saturating_sub(rent.minimum_balance(House::LEN))
+}
+
+fn move_lamports(from: &AccountInfo, to: &AccountInfo, amount: u64) -> ProgramResult {
+    **from.try_borrow_mut_lamports()? = from
+        .lamports()
+        .checked_sub(amount)
+        .ok_or(ProgramError::InsufficientFunds)?;
+    **to.try_borrow_mut_lamports()? = to
+        .lamports()
+        .checked_add(amount)
+        .ok_or(ProgramError::ArithmeticOverflow)?;
+    Ok(())
+}
+
+// Close a bet: `to_player` lamports to the player, the rest to the house
+fn close_bet(bet: &AccountInfo, house: &AccountInfo, player: &AccountInfo, to_player: u64) -> ProgramResult {
+    let to_house = bet.lamports() - to_player;
+    move_lamports(bet, player, to_player)?;
+    move_lamports(bet, house, to_house)?;
+
+    bet.data.borrow_mut().fill(0);
+    bet.realloc(0, false)?;
+    bet.assign(&system_program::ID);
+    Ok(())
+}
+
+fn initialize_house(program_id: &Pubkey, accounts: &[AccountInfo], settle_timeout: i64) -> ProgramResult {
+    let iter = &mut accounts.iter();
+    let authority = next_account_info(iter)?;
+    let house = next_account_info(iter)?;
+    let system = next_account_info(iter)?;
+    let program_data = next_account_info(iter)?;
+
+    // Otherwise anyone could initialize the house first (e.g. front-running
+    // the deploy) and own its liquidity. An immutable program has no upgrade
+    // authority, so its house must be initialized before it is made final.
+    if !authority.is_signer || upgrade_authority(program_id, program_data)? != Some(*authority.key) {
+        return Err(EscrowError::Unauthorized.into());
+    }
+    if settle_timeout <= 0 {
+        return Err(EscrowError::InvalidAmount.into());
+    }
+
+    let (expected, bump) = Pubkey::find_program_address(&[HOUSE_SEED], program_id);
+    if expected != *house.key {
+        return Err(EscrowError::InvalidHouse.into());
+    }
+    if house.owner == program_id {
+        return Err(EscrowError::AlreadyInitialized.into());
+    }
+
+    // Liquidity sent to the address before initialization is kept
+    let rent = Rent::get()?;
+    let needed = rent.minimum_balance(House::LEN).saturating_sub(house.lamports());
+    if needed > 0 {
+        invoke(
+            &system_instruction::transfer(authority.key, house.key, needed),
+            &[authority.clone(), house.clone(), system.clone()],
+        )?;
+    }
+    let seeds: &[&[u8]] = &[HOUSE_SEED, &[bump]];
+    invoke_signed(
+        &system_instruction::allocate(house.key, House::LEN as u64),
+        &[house.clone(), system.clone()],
+        &[seeds],
+    )?;
+    invoke_signed(
+        &system_instruction::assign(house.key, program_id),
+        &[house.clone(), system.clone()],
+        &[seeds],
+    )?;
+
+    House {
+        authority: *authority.key,
+        settle_timeout,
+        bump,
+    }
+    .pack(&mut house.data.borrow_mut());
+
+    msg!("House initialized, settle timeout {}s", settle_timeout);
+    Ok(())
+}
+
+fn place_bet(
+    program_id: &Pubkey,
+    accounts: &[AccountInfo],
+    bet_id: u64,
+    stake: u64,
+    payout: u64,
+    commitment: [u8; 32],
+) -> ProgramResult {
+    let iter = &mut accounts.iter();
+    let player = next_account_info(iter)?;
+    let house = next_account_info(iter)?;
+    let bet = next_account_info(iter)?;
+    let system = next_account_info(iter)?;
+
+    if !player.is_signer {
+        return Err(EscrowError::Unauthorized.into());
+    }
+    if stake == 0 || payout <= stake {
+        return Err(EscrowError::InvalidAmount.into());
+    }
+    load_house(program_id, house)?;
+
+    let id_bytes = bet_id.to_le_bytes();
+    let (expected, bump) =
+        Pubkey::find_program_address(&[BET_SEED, player.key.as_ref(), &id_bytes], program_id);
+    if expected != *bet.key || bet.lamports() > 0 {
+        return Err(EscrowError::InvalidBet.into());
+    }
+
+    let rent = Rent::get()?;
+    let house_share = payout - stake;
+    if house_liquidity(house, &rent) < house_share {
+        return Err(EscrowError::InsufficientLiquidity.into());
+    }
+
+    // The player funds the account's rent and the stake in one transfer
+    invoke_signed(
+        &system_instruction::create_account(
+            player.key,
+            bet.key,
+            rent.minimum_balance(Bet::LEN) + stake,
+            Bet::LEN as u64,
+            program_id,
+        ),
+        &[player.clone(), bet.clone(), system.clone()],
+        &[&[BET_SEED, player.key.as_ref(), &id_bytes, &[bump]]],
+    )?;
+    move_lamports(house, bet, house_share)?;
+
+    Bet {
+        player: *player.key,
+        bet_id,
+        stake,
+        payout,
+        commitment,
+        created_at: Clock::get()?.unix_timestamp,
+        bump,
+    }
+    .pack(&mut bet.data.borrow_mut());
+
+    msg!("Bet placed: stake {} payout {}", stake, payout);
+    Ok(())
+}
+
+fn settle(program_id: &Pubkey, accounts: &[AccountInfo], player_wins: bool) -> ProgramResult {
+    let iter = &mut accounts.iter();
+    let authority = next_account_info(iter)?;
+    let house = next_account_info(iter)?;
+    let bet = next_account_info(iter)?;
+    let player = next_account_info(iter)?;
+
+    load_house_as_authority(program_id, authority, house)?;
+    let state = load_bet(program_id, bet, player)?;
+
+    // The bet holds rent + payout; on a loss the player only gets the rent back
+    let to_player = if player_wins {
+        bet.lamports()
+    } else {
+        bet.lamports() - state.payout
+    };
+    close_bet(bet, house, player, to_player)?;
+
+    msg!("Bet settled: {}", if player_wins { "win" } else { "loss" });
+    Ok(())
+}
+
+fn cancel(program_id: &Pubkey, accounts: &[AccountInfo]) -> ProgramResult {
+    let iter = &mut accounts.iter();
+    let authority = next_account_info(iter)?;
+    let house = next_account_info(iter)?;
+    let bet = next_account_info(iter)?;
+    let player = next_account_info(iter)?;
+
+    load_house_as_authority(program_id, authority, house)?;
+    let state = load_bet(program_id, bet, player)?;
+
+    close_bet(bet, house, player, bet.lamports() - state.house_share())?;
+
+    msg!("Bet cancelled");
+    Ok(())
+}
+
+fn reclaim(program_id: &Pubkey, accounts: &[AccountInfo]) -> ProgramResult {
+    let iter = &mut accounts.iter();
+    let player = next_account_info(iter)?;
+    let house = next_account_info(iter)?;
+    let bet = next_account_info(iter)?;
+
+    if !player.is_signer {
+        return Err(EscrowError::Unauthorized.into());
+    }
+    let house_state = load_house(program_id, house)?;
+    let state = load_bet(program_id, bet, player)?;
+
+    let now = Clock::get()?.unix_timestamp;
+    if now < state.created_at.saturating_add(house_state.settle_timeout) {
+        return Err(EscrowError::NotExpired.into());
+    }
+
+    close_bet(bet, house, player, bet.lamports() - state.house_share())?;
+
+    msg!("Bet reclaimed after timeout");
+    Ok(())
+}
+
+fn withdraw(program_id: &Pubkey, accounts: &[AccountInfo], amount: u64) -> ProgramResult {
+    let iter = &mut accounts.iter();
+    let authority = next_account_info(iter)?;
+    let house = next_account_info(iter)?;
+    let destination = next_account_info(iter)?;
+
+    load_house_as_authority(program_id, authority, house)?;
+
+    if amount > house_liquidity(house, &Rent::get()?) {
+        return Err(EscrowError::InsufficientLiquidity.into());
+    }
+    move_lamports(house, destination, amount)?;
+
+    msg!("Withdrew {} lamports", amount);
+    Ok(())
+}
+
+fn set_authority(program_id: &Pubkey, accounts: &[AccountInfo], new_authority: Pubkey) -> ProgramResult {
+    let iter = &mut accounts.iter();
+    let authority = next_account_info(iter)?;
+    let house = next_account_info(iter)?;
+
+    let mut state = load_house_as_authority(program_id, authority, house)?;
+    state.authority = new_authority;
+    state.pack(&mut house.data.borrow_mut());
+
+    msg!("Authority set to {}", new_authority);
+    Ok(())
+}
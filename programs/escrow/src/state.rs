@@ -0,0 +1,88 @@
+use solana_program::{program_error::ProgramError, pubkey::Pubkey};
+
+use crate::error::EscrowError;
+
+pub const HOUSE_SEED: &[u8] = b"house";
+pub const BET_SEED: &[u8] = b"bet";
+
+// The house vault PDA (seeds: "house"). Its lamports above rent are the
+// bank's liquidity; `authority` is the only key that can settle bets.
+// Layout: authority (32) | settle_timeout i64 LE (8) | bump (1)
+pub struct House {
+    pub authority: Pubkey,
+    // Seconds after placement a player may reclaim an unsettled bet
+    pub settle_timeout: i64,
+    pub bump: u8,
+}
+
+impl House {
+    pub const LEN: usize = 32 + 8 + 1;
+
+    pub fn unpack(data: &[u8]) -> Result<Self, ProgramError> {
+        if data.len() != Self::LEN {
+            return Err(EscrowError::InvalidHouse.into());
+        }
+        Ok(Self {
+            authority: Pubkey::new_from_array(data[0..32].try_into().unwrap()),
+            settle_timeout: i64::from_le_bytes(data[32..40].try_into().unwrap()),
+            bump: data[40],
+        })
+    }
+
+    pub fn pack(&self, data: &mut [u8]) {
+        data[0..32].copy_from_slice(self.authority.as_ref());
+        data[32..40].copy_from_slice(&self.settle_timeout.to_le_bytes());
+        data[40] = self.bump;
+    }
+}
+
+// One open bet (seeds: "bet", player, bet_id LE). It holds the player's
+// stake plus the house's share of the payout, so a win can always be paid.
+// The account is closed when the bet is settled, cancelled or reclaimed.
+// Layout: player (32) | bet_id (8) | stake (8) | payout (8) | commitment (32) | created_at (8) | bump (1)
+pub struct Bet {
+    pub player: Pubkey,
+    pub bet_id: u64,
+    // Lamports the player put in
+    pub stake: u64,
+    // Lamports the player receives on a win, stake included
+    pub payout: u64,
+    // SHA-256 of the server seed the bet is rolled against, as published before the bet
+    pub commitment: [u8; 32],
+    pub created_at: i64,
+    pub bump: u8,
+}
+
+impl Bet {
+    pub const LEN: usize = 32 + 8 + 8 + 8 + 32 + 8 + 1;
+
+    pub fn unpack(data: &[u8]) -> Result<Self, ProgramError> {
+        if data.len() != Self::LEN {
+            return Err(EscrowError::InvalidBet.into());
+        }
+        Ok(Self {
+            player: Pubkey::new_from_array(data[0..32].try_into().unwrap()),
+            bet_id: u64::from_le_bytes(data[32..40].try_into().unwrap()),
+            stake: u64::from_le_bytes(data[40..48].try_into().unwrap()),
+            payout: u64::from_le_bytes(data[48..56].try_into().unwrap()),
+            commitment: data[56..88].try_into().unwrap(),
+            created_at: i64::from_le_bytes(data[88..96].try_into().unwrap()),
+            bump: data[96],
+        })
+    }
+
+    pub fn pack(&self, data: &mut [u8]) {
+        data[0..32].copy_from_slice(self.player.as_ref());
+        data[32..40].copy_from_slice(&self.bet_id.to_le_bytes());
+        data[40..48].copy_from_slice(&self.stake.to_le_bytes());
+        data[48..56].copy_from_slice(&self.payout.to_le_bytes());
+        data[56..88].copy_from_slice(&self.commitment);
+        data[88..96].copy_from_slice(&self.created_at.to_le_bytes());
+        data[96] = self.bump;
+    }
+
+    // Lamports the house has locked in this bet
+    pub fn house_share(&self) -> u64 {
+        self.payout - self.stake
+    }
+}
@@ -0,0 +1,349 @@
+// Program tests: run the processor in a local bank with `cargo test`
+// (programs/escrow). Instruction data is built by hand with the layout from
+// src/instruction.rs, the same way lib/escrow.ts does.
+
+use don_escrow::{
+    error::EscrowError,
+    processor::process,
+    state::{House, BET_SEED, HOUSE_SEED},
+};
+use solana_program_test::{processor, BanksClientError, ProgramTest, ProgramTestContext};
+use solana_sdk::{
+    account::Account,
+    bpf_loader_upgradeable,
+    clock::Clock,
+    instruction::{AccountMeta, Instruction, InstructionError},
+    native_token::LAMPORTS_PER_SOL,
+    pubkey::Pubkey,
+    signature::{Keypair, Signer},
+    system_instruction, system_program,
+    transaction::{Transaction, TransactionError},
+};
+
+const PROGRAM_ID: Pubkey = Pubkey::new_from_array([7; 32]);
+const SETTLE_TIMEOUT: i64 = 60;
+const STAKE: u64 = LAMPORTS_PER_SOL;
+const PAYOUT: u64 = 2 * LAMPORTS_PER_SOL;
+
+fn house_address() -> Pubkey {
+    Pubkey::find_program_address(&[HOUSE_SEED], &PROGRAM_ID).0
+}
+
+fn bet_address(player: &Pubkey, bet_id: u64) -> Pubkey {
+    Pubkey::find_program_address(&[BET_SEED, player.as_ref(), &bet_id.to_le_bytes()], &PROGRAM_ID).0
+}
+
+fn program_data_address() -> Pubkey {
+    Pubkey::find_program_address(&[PROGRAM_ID.as_ref()], &bpf_loader_upgradeable::id()).0
+}
+
+// UpgradeableLoaderState::ProgramData { slot: 0, upgrade_authority_address: Some(..) }
+// followed by no program bytes: all initialize_house reads
+fn program_data_account(upgrade_authority: &Pubkey) -> Account {
+    let mut data = 3u32.to_le_bytes().to_vec();
+    data.extend_from_slice(&0u64.to_le_bytes());
+    data.push(1);
+    data.extend_from_slice(upgrade_authority.as_ref());
+    Account {
+        lamports: LAMPORTS_PER_SOL,
+        data,
+        owner: bpf_loader_upgradeable::id(),
+        executable: false,
+        rent_epoch: 0,
+    }
+}
+
+fn initialize_house(authority: &Pubkey, program_data: Pubkey) -> Instruction {
+    let mut data = vec![0];
+    data.extend_from_slice(&SETTLE_TIMEOUT.to_le_bytes());
+    Instruction::new_with_bytes(
+        PROGRAM_ID,
+        &data,
+        vec![
+            AccountMeta::new(*authority, true),
+            AccountMeta::new(house_address(), false),
+            AccountMeta::new_readonly(system_program::id(), false),
+            AccountMeta::new_readonly(program_data, false),
+        ],
+    )
+}
+
+fn place_bet(player: &Pubkey, bet_id: u64) -> Instruction {
+    let mut data = vec![1];
+    data.extend_from_slice(&bet_id.to_le_bytes());
+    data.extend_from_slice(&STAKE.to_le_bytes());
+    data.extend_from_slice(&PAYOUT.to_le_bytes());
+    data.extend_from_slice(&[9; 32]);
+    Instruction::new_with_bytes(
+        PROGRAM_ID,
+        &data,
+        vec![
+            AccountMeta::new(*player, true),
+            AccountMeta::new(house_address(), false),
+            AccountMeta::new(bet_address(player, bet_id), false),
+            AccountMeta::new_readonly(system_program::id(), false),
+        ],
+    )
+}
+
+// Settle (player_wins = Some) or cancel (None) a bet
+fn close_as_authority(authority: &Pubkey, player: &Pubkey, bet_id: u64, player_wins: Option<bool>) -> Instruction {
+    let data = match player_wins {
+        Some(wins) => vec![2, wins as u8],
+        None => vec![3],
+    };
+    Instruction::new_with_bytes(
+        PROGRAM_ID,
+        &data,
+        vec![
+            AccountMeta::new_readonly(*authority, true),
+            AccountMeta::new(house_address(), false),
+            AccountMeta::new(bet_address(player, bet_id), false),
+            AccountMeta::new(*player, false),
+        ],
+    )
+}
+
+fn reclaim(player: &Pubkey, bet_id: u64) -> Instruction {
+    Instruction::new_with_bytes(
+        PROGRAM_ID,
+        &[4],
+        vec![
+            AccountMeta::new(*player, true),
+            AccountMeta::new(house_address(), false),
+            AccountMeta::new(bet_address(player, bet_id), false),
+        ],
+    )
+}
+
+fn withdraw(authority: &Pubkey, destination: &Pubkey, amount: u64) -> Instruction {
+    let mut data = vec![5];
+    data.extend_from_slice(&amount.to_le_bytes());
+    Instruction::new_with_bytes(
+        PROGRAM_ID,
+        &data,
+        vec![
+            AccountMeta::new_readonly(*authority, true),
+            AccountMeta::new(house_address(), false),
+            AccountMeta::new(*destination, false),
+        ],
+    )
+}
+
+fn set_authority(authority: &Pubkey, new_authority: &Pubkey) -> Instruction {
+    let mut data = vec![6];
+    data.extend_from_slice(new_authority.as_ref());
+    Instruction::new_with_bytes(
+        PROGRAM_ID,
+        &data,
+        vec![
+            AccountMeta::new_readonly(*authority, true),
+            AccountMeta::new(house_address(), false),
+        ],
+    )
+}
+
+struct Env {
+    context: ProgramTestContext,
+    // The program's upgrade authority
+    admin: Keypair,
+    player: Keypair,
+}
+
+async fn start() -> Env {
+    let admin = Keypair::new();
+    let player = Keypair::new();
+
+    let mut program_test = ProgramTest::new("don_escrow", PROGRAM_ID, processor!(process));
+    program_test.add_account(program_data_address(), program_data_account(&admin.pubkey()));
+    for key in [admin.pubkey(), player.pubkey()] {
+        program_test.add_account(key, Account::new(10 * LAMPORTS_PER_SOL, 0, &system_program::id()));
+    }
+
+    Env {
+        context: program_test.start_with_context().await,
+        admin,
+        player,
+    }
+}
+
+// A started bank with the house initialized by the admin and holding 5 SOL of liquidity
+async fn start_with_house() -> Env {
+    let mut env = start().await;
+    send(&mut env.context, initialize_house(&env.admin.pubkey(), program_data_address()), &env.admin)
+        .await
+        .unwrap();
+    let fund = system_instruction::transfer(&env.admin.pubkey(), &house_address(), 5 * LAMPORTS_PER_SOL);
+    send(&mut env.context, fund, &env.admin).await.unwrap();
+    env
+}
+
+// Send one instruction signed by `signer`; the context payer pays the fee,
+// so balances only move by what the program does
+async fn send(
+    context: &mut ProgramTestContext,
+    instruction: Instruction,
+    signer: &Keypair,
+) -> Result<(), BanksClientError> {
+    let blockhash = context.get_new_latest_blockhash().await.unwrap();
+    let transaction = Transaction::new_signed_with_payer(
+        &[instruction],
+        Some(&context.payer.pubkey()),
+        &[&context.payer, signer],
+        blockhash,
+    );
+    context.banks_client.process_transaction(transaction).await
+}
+
+fn assert_escrow_error(result: Result<(), BanksClientError>, expected: EscrowError) {
+    assert_eq!(
+        result.unwrap_err().unwrap(),
+        TransactionError::InstructionError(0, InstructionError::Custom(expected as u32))
+    );
+}
+
+async fn balance(context: &mut ProgramTestContext, address: &Pubkey) -> u64 {
+    context.banks_client.get_balance(*address).await.unwrap()
+}
+
+#[tokio::test]
+async fn only_the_upgrade_authority_initializes_the_house() {
+    let mut env = start().await;
+
+    let by_player = initialize_house(&env.player.pubkey(), program_data_address());
+    assert_escrow_error(send(&mut env.context, by_player, &env.player).await, EscrowError::Unauthorized);
+
+    let fake_program_data = initialize_house(&env.admin.pubkey(), env.player.pubkey());
+    assert_escrow_error(
+        send(&mut env.context, fake_program_data, &env.admin).await,
+        EscrowError::InvalidProgramData,
+    );
+
+    send(&mut env.context, initialize_house(&env.admin.pubkey(), program_data_address()), &env.admin)
+        .await
+        .unwrap();
+    let house = env.context.banks_client.get_account(house_address()).await.unwrap().unwrap();
+    assert_eq!(House::unpack(&house.data).unwrap().authority, env.admin.pubkey());
+
+    let again = initialize_house(&env.admin.pubkey(), program_data_address());
+    assert_escrow_error(send(&mut env.context, again, &env.admin).await, EscrowError::AlreadyInitialized);
+}
+
+#[tokio::test]
+async fn a_bet_needs_house_liquidity() {
+    let mut env = start().await;
+    send(&mut env.context, initialize_house(&env.admin.pubkey(), program_data_address()), &env.admin)
+        .await
+        .unwrap();
+
+    let bet = place_bet(&env.player.pubkey(), 1);
+    assert_escrow_error(send(&mut env.context, bet, &env.player).await, EscrowError::InsufficientLiquidity);
+}
+
+#[tokio::test]
+async fn a_win_pays_the_whole_payout() {
+    let mut env = start_with_house().await;
+    let player = env.player.pubkey();
+    let player_before = balance(&mut env.context, &player).await;
+    let house_before = balance(&mut env.context, &house_address()).await;
+
+    send(&mut env.context, place_bet(&player, 1), &env.player).await.unwrap();
+    let settle = close_as_authority(&env.admin.pubkey(), &player, 1, Some(true));
+    send(&mut env.context, settle, &env.admin).await.unwrap();
+
+    assert_eq!(balance(&mut env.context, &player).await, player_before + PAYOUT - STAKE);
+    assert_eq!(balance(&mut env.context, &house_address()).await, house_before - (PAYOUT - STAKE));
+    assert!(env.context.banks_client.get_account(bet_address(&player, 1)).await.unwrap().is_none());
+}
+
+#[tokio::test]
+async fn a_loss_moves_the_stake_to_the_house() {
+    let mut env = start_with_house().await;
+    let player = env.player.pubkey();
+    let player_before = balance(&mut env.context, &player).await;
+    let house_before = balance(&mut env.context, &house_address()).await;
+
+    send(&mut env.context, place_bet(&player, 1), &env.player).await.unwrap();
+    let settle = close_as_authority(&env.admin.pubkey(), &player, 1, Some(false));
+    send(&mut env.context, settle, &env.admin).await.unwrap();
+
+    // The bet account's rent goes back to the player
+    assert_eq!(balance(&mut env.context, &player).await, player_before - STAKE);
+    assert_eq!(balance(&mut env.context, &house_address()).await, house_before + STAKE);
+}
+
+#[tokio::test]
+async fn only_the_authority_settles_or_cancels() {
+    let mut env = start_with_house().await;
+    let player = env.player.pubkey();
+    send(&mut env.context, place_bet(&player, 1), &env.player).await.unwrap();
+
+    let settle = close_as_authority(&player, &player, 1, Some(true));
+    assert_escrow_error(send(&mut env.context, settle, &env.player).await, EscrowError::Unauthorized);
+
+    let cancel = close_as_authority(&player, &player, 1, None);
+    assert_escrow_error(send(&mut env.context, cancel, &env.player).await, EscrowError::Unauthorized);
+}
+
+#[tokio::test]
+async fn a_cancel_refunds_the_stake() {
+    let mut env = start_with_house().await;
+    let player = env.player.pubkey();
+    let player_before = balance(&mut env.context, &player).await;
+    let house_before = balance(&mut env.context, &house_address()).await;
+
+    send(&mut env.context, place_bet(&player, 1), &env.player).await.unwrap();
+    let cancel = close_as_authority(&env.admin.pubkey(), &player, 1, None);
+    send(&mut env.context, cancel, &env.admin).await.unwrap();
+
+    assert_eq!(balance(&mut env.context, &player).await, player_before);
+    assert_eq!(balance(&mut env.context, &house_address()).await, house_before);
+}
+
+#[tokio::test]
+async fn a_player_reclaims_only_after_the_settle_timeout() {
+    let mut env = start_with_house().await;
+    let player = env.player.pubkey();
+    let player_before = balance(&mut env.context, &player).await;
+
+    send(&mut env.context, place_bet(&player, 1), &env.player).await.unwrap();
+    assert_escrow_error(
+        send(&mut env.context, reclaim(&player, 1), &env.player).await,
+        EscrowError::NotExpired,
+    );
+
+    let mut clock: Clock = env.context.banks_client.get_sysvar().await.unwrap();
+    clock.unix_timestamp += SETTLE_TIMEOUT;
+    env.context.set_sysvar(&clock);
+
+    send(&mut env.context, reclaim(&player, 1), &env.player).await.unwrap();
+    assert_eq!(balance(&mut env.context, &player).await, player_before);
+
+    // Closed bets can not be settled afterwards
+    let settle = close_as_authority(&env.admin.pubkey(), &player, 1, Some(true));
+    assert_escrow_error(send(&mut env.context, settle, &env.admin).await, EscrowError::InvalidBet);
+}
+
+#[tokio::test]
+async fn withdrawals_and_authority_changes_need_the_authority() {
+    let mut env = start_with_house().await;
+    let admin = env.admin.pubkey();
+    let player = env.player.pubkey();
+
+    let too_much = withdraw(&admin, &admin, 6 * LAMPORTS_PER_SOL);
+    assert_escrow_error(send(&mut env.context, too_much, &env.admin).await, EscrowError::InsufficientLiquidity);
+
+    let by_player = withdraw(&player, &player, LAMPORTS_PER_SOL);
+    assert_escrow_error(send(&mut env.context, by_player, &env.player).await, EscrowError::Unauthorized);
+
+    let takeover = set_authority(&player, &player);
+    assert_escrow_error(send(&mut env.context, takeover, &env.player).await, EscrowError::Unauthorized);
+
+    send(&mut env.context, set_authority(&admin, &player), &env.admin).await.unwrap();
+    let by_old_authority = withdraw(&admin, &admin, LAMPORTS_PER_SOL);
+    assert_escrow_error(send(&mut env.context, by_old_authority, &env.admin).await, EscrowError::Unauthorized);
+
+    let player_before = balance(&mut env.context, &player).await;
+    send(&mut env.context, withdraw(&player, &player, LAMPORTS_PER_SOL), &env.player).await.unwrap();
+    assert_eq!(balance(&mut env.context, &player).await, player_before + LAMPORTS_PER_SOL);
+}
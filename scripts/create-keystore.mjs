@@ -0,0 +1,44 @@
+// Encrypt bank secret keys into a keystore for PAYOUT_SIGNER=keystore (see lib/signer.ts).
+//
+//   SIGNER_KEYSTORE_PASSPHRASE=... node scripts/create-keystore.mjs bank.keystore < keys.txt
+//
+// keys.txt holds one secret key per line (base58 or solana-keygen JSON), the
+// active key first. Delete it once the keystore is written.
+
+import { createCipheriv, randomBytes, scryptSync } from 'crypto'
+import { readFileSync, writeFileSync } from 'fs'
+
+const [output] = process.argv.slice(2)
+const passphrase = process.env.SIGNER_KEYSTORE_PASSPHRASE
+
+if (!output || !passphrase) {
+  console.error('Usage: SIGNER_KEYSTORE_PASSPHRASE=... node scripts/create-keystore.mjs <output file> < keys.txt')
+  process.exit(1)
+}
+
+const secrets = readFileSync(0, 'utf8').split('\n').map(line => line.trim()).filter(Boolean)
+if (secrets.length === 0) {
+  console.error('No secret keys on stdin')
+  process.exit(1)
+}
+
+const kdfParams = { n: 2 ** 15, r: 8, p: 1 }
+const salt = randomBytes(16)
+const iv = randomBytes(12)
+const key = scryptSync(passphrase, salt, 32, { N: kdfParams.n, r: kdfParams.r, p: kdfParams.p, maxmem: 256 * kdfParams.n * kdfParams.r })
+
+const cipher = createCipheriv('aes-256-gcm', key, iv)
+const ciphertext = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf8'), cipher.final()])
+
+writeFileSync(output, JSON.stringify({
+  version: 1,
+  kdf: 'scrypt',
+  kdfParams,
+  salt: salt.toString('hex'),
+  cipher: 'aes-256-gcm',
+  iv: iv.toString('hex'),
+  tag: cipher.getAuthTag().toString('hex'),
+  ciphertext: ciphertext.toString('hex'),
+}, null, 2), { mode: 0o600 })
+
+console.log(`Wrote ${secrets.length} key(s) to ${output}`)
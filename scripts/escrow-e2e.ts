@@ -0,0 +1,166 @@
+// End-to-end check of the escrow program on a local validator, using the same
+// instruction builders as the app (lib/escrow.ts).
+//
+//   solana-test-validator --reset                  # in another terminal
+//   cargo build-sbf --manifest-path programs/escrow/Cargo.toml
+//   solana program deploy programs/escrow/target/deploy/don_escrow.so
+//   NEXT_PUBLIC_ESCROW_PROGRAM_ID=<program id> npm run test:escrow
+//
+// The house is initialized with the deploying key (the upgrade authority,
+// ESCROW_E2E_KEYPAIR, default ~/.config/solana/id.json) and a short settle
+// timeout, so run it against a fresh deploy. Exits non-zero on the first failure.
+
+import { readFileSync } from 'fs'
+import { homedir } from 'os'
+import { join } from 'path'
+import {
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  sendAndConfirmTransaction,
+} from '@solana/web3.js'
+import {
+  ESCROW_ERRORS,
+  ESCROW_PROGRAM_ID,
+  cancelInstruction,
+  describeEscrowError,
+  fetchBet,
+  fetchHouse,
+  findBetAddress,
+  findHouseAddress,
+  initializeHouseInstruction,
+  placeBetInstruction,
+  reclaimInstruction,
+  setAuthorityInstruction,
+  settleInstruction,
+  withdrawInstruction,
+} from '@/lib/escrow'
+
+const RPC_ENDPOINT = process.env.SOLANA_RPC_ENDPOINT || 'http://127.0.0.1:8899'
+const KEYPAIR_PATH = process.env.ESCROW_E2E_KEYPAIR || join(homedir(), '.config', 'solana', 'id.json')
+const SETTLE_TIMEOUT_SECONDS = Number(process.env.ESCROW_E2E_SETTLE_TIMEOUT) || 5
+
+const STAKE = 0.1 * LAMPORTS_PER_SOL
+const PAYOUT = 0.2 * LAMPORTS_PER_SOL
+// Any 32-byte hex hash will do: the program only stores it
+const COMMITMENT = 'ab'.repeat(32)
+const LAMPORTS_PER_SIGNATURE = 5000
+
+// Error codes from programs/escrow/src/error.rs
+const ALREADY_INITIALIZED = 1
+const UNAUTHORIZED = 4
+const NOT_EXPIRED = 7
+
+const connection = new Connection(RPC_ENDPOINT, 'confirmed')
+let nextBetId = BigInt(Date.now())
+
+function loadKeypair(path: string): Keypair {
+  return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(readFileSync(path, 'utf8'))))
+}
+
+async function send(instructions: TransactionInstruction[], signers: Keypair[]): Promise<string> {
+  return sendAndConfirmTransaction(connection, new Transaction().add(...instructions), signers, { commitment: 'confirmed' })
+}
+
+// Resolves if the transaction fails with the escrow error `code`
+async function expectEscrowError(attempt: Promise<unknown>, code: number): Promise<void> {
+  try {
+    await attempt
+  } catch (error) {
+    const message = describeEscrowError(error)
+    if (message === ESCROW_ERRORS[code]) return
+    throw new Error(`Expected "${ESCROW_ERRORS[code]}", got: ${message}`)
+  }
+  throw new Error(`Expected "${ESCROW_ERRORS[code]}", but the transaction succeeded`)
+}
+
+async function balance(address: PublicKey): Promise<number> {
+  return connection.getBalance(address, 'confirmed')
+}
+
+function assertEqual(actual: number, expected: number, what: string): void {
+  if (actual !== expected) throw new Error(`${what}: expected ${expected}, got ${actual}`)
+}
+
+async function step(name: string, run: () => Promise<void>): Promise<void> {
+  await run()
+  console.log(`ok - ${name}`)
+}
+
+async function placeBet(player: Keypair): Promise<PublicKey> {
+  const betId = nextBetId++
+  await send([placeBetInstruction({ player: player.publicKey, betId, stake: STAKE, payout: PAYOUT, commitment: COMMITMENT })], [player])
+  return findBetAddress(player.publicKey, betId)
+}
+
+async function main(): Promise<void> {
+  if (!ESCROW_PROGRAM_ID) throw new Error('Set NEXT_PUBLIC_ESCROW_PROGRAM_ID to the deployed program id')
+
+  const admin = loadKeypair(KEYPAIR_PATH)
+  const player = Keypair.generate()
+  const stranger = Keypair.generate()
+  const house = findHouseAddress()
+
+  console.log('Escrow e2e:', { rpc: RPC_ENDPOINT, program: ESCROW_PROGRAM_ID.toBase58(), house: house.toBase58() })
+
+  for (const key of [player.publicKey, stranger.publicKey]) {
+    const signature = await connection.requestAirdrop(key, 2 * LAMPORTS_PER_SOL)
+    await connection.confirmTransaction(signature, 'confirmed')
+  }
+
+  await step('only the upgrade authority initializes the house', async () => {
+    if (await fetchHouse(connection)) throw new Error('The house is already initialized, deploy the program again')
+    await expectEscrowError(send([initializeHouseInstruction(stranger.publicKey, SETTLE_TIMEOUT_SECONDS)], [stranger]), UNAUTHORIZED)
+    await send([initializeHouseInstruction(admin.publicKey, SETTLE_TIMEOUT_SECONDS)], [admin])
+    await expectEscrowError(send([initializeHouseInstruction(admin.publicKey, SETTLE_TIMEOUT_SECONDS)], [admin]), ALREADY_INITIALIZED)
+    await send([SystemProgram.transfer({ fromPubkey: admin.publicKey, toPubkey: house, lamports: LAMPORTS_PER_SOL })], [admin])
+  })
+
+  await step('a win pays the whole payout', async () => {
+    const before = await balance(player.publicKey)
+    const bet = await placeBet(player)
+    await send([settleInstruction(admin.publicKey, bet, player.publicKey, true)], [admin])
+    // The player only paid the fee for placing the bet
+    assertEqual(await balance(player.publicKey), before + PAYOUT - STAKE - LAMPORTS_PER_SIGNATURE, 'player balance')
+    if (await fetchBet(connection, bet)) throw new Error('The bet account was not closed')
+  })
+
+  await step('a loss moves the stake to the house', async () => {
+    const houseBefore = await balance(house)
+    const bet = await placeBet(player)
+    await send([settleInstruction(admin.publicKey, bet, player.publicKey, false)], [admin])
+    assertEqual(await balance(house), houseBefore + STAKE, 'house balance')
+  })
+
+  await step('only the authority settles or cancels', async () => {
+    const bet = await placeBet(player)
+    await expectEscrowError(send([settleInstruction(stranger.publicKey, bet, player.publicKey, true)], [stranger]), UNAUTHORIZED)
+    await expectEscrowError(send([cancelInstruction(stranger.publicKey, bet, player.publicKey)], [stranger]), UNAUTHORIZED)
+    await send([cancelInstruction(admin.publicKey, bet, player.publicKey)], [admin])
+  })
+
+  await step('a player reclaims only after the settle timeout', async () => {
+    const bet = await placeBet(player)
+    await expectEscrowError(send([reclaimInstruction(player.publicKey, bet)], [player]), NOT_EXPIRED)
+    await new Promise(resolve => setTimeout(resolve, (SETTLE_TIMEOUT_SECONDS + 2) * 1000))
+    await send([reclaimInstruction(player.publicKey, bet)], [player])
+    if (await fetchBet(connection, bet)) throw new Error('The bet account was not closed')
+  })
+
+  await step('withdrawals and authority changes need the authority', async () => {
+    await expectEscrowError(send([withdrawInstruction(stranger.publicKey, stranger.publicKey, STAKE)], [stranger]), UNAUTHORIZED)
+    await expectEscrowError(send([setAuthorityInstruction(stranger.publicKey, stranger.publicKey)], [stranger]), UNAUTHORIZED)
+    await send([withdrawInstruction(admin.publicKey, admin.publicKey, STAKE)], [admin])
+  })
+
+  console.log('Escrow e2e passed')
+}
+
+main().catch((error) => {
+  console.error('Escrow e2e failed:', describeEscrowError(error))
+  process.exit(1)
+})
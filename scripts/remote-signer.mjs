@@ -0,0 +1,89 @@
+// Stand-in signing service for PAYOUT_SIGNER=remote (see lib/signer.ts), for
+// local development and tests. It holds the keys in memory and signs whatever
+// it is sent: a real service must apply its own policy and keep its keys in
+// an HSM or KMS.
+//
+//   SIGNER_REMOTE_TOKEN=... PORT=8787 node scripts/remote-signer.mjs < keys.txt
+//
+// keys.txt holds one secret key per line (base58 or solana-keygen JSON), the
+// active key first. Point the server at it with
+// SIGNER_REMOTE_URL=http://127.0.0.1:8787 and the same SIGNER_REMOTE_TOKEN.
+// PORT=0 picks a free port; the address is printed once it listens.
+
+import { createPrivateKey, sign } from 'crypto'
+import { readFileSync } from 'fs'
+import { createServer } from 'http'
+import bs58 from 'bs58'
+
+const token = process.env.SIGNER_REMOTE_TOKEN
+const port = process.env.PORT ? Number(process.env.PORT) : 8787
+
+if (!token) {
+  console.error('Usage: SIGNER_REMOTE_TOKEN=... [PORT=8787] node scripts/remote-signer.mjs < keys.txt')
+  process.exit(1)
+}
+
+// PKCS#8 header for a raw 32-byte Ed25519 seed
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex')
+
+// 64-byte Solana secret key: seed followed by the public key
+function parseSecretKey(secret) {
+  const bytes = secret.startsWith('[') ? Uint8Array.from(JSON.parse(secret)) : bs58.decode(secret)
+  if (bytes.length !== 64) throw new Error('Secret keys must be 64 bytes')
+  return {
+    publicKey: bs58.encode(bytes.subarray(32)),
+    privateKey: createPrivateKey({
+      key: Buffer.concat([ED25519_PKCS8_PREFIX, bytes.subarray(0, 32)]),
+      format: 'der',
+      type: 'pkcs8',
+    }),
+  }
+}
+
+const keys = readFileSync(0, 'utf8').split('\n').map(line => line.trim()).filter(Boolean).map(parseSecretKey)
+if (keys.length === 0) {
+  console.error('No secret keys on stdin')
+  process.exit(1)
+}
+
+function reply(response, status, body) {
+  response.writeHead(status, { 'Content-Type': 'application/json' })
+  response.end(JSON.stringify(body))
+}
+
+async function readJson(request) {
+  const chunks = []
+  for await (const chunk of request) chunks.push(chunk)
+  return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}')
+}
+
+const server = createServer(async (request, response) => {
+  if (request.headers.authorization !== `Bearer ${token}`) {
+    return reply(response, 401, { error: 'Unauthorized' })
+  }
+
+  try {
+    if (request.method === 'GET' && request.url === '/keys') {
+      return reply(response, 200, { publicKeys: keys.map(key => key.publicKey) })
+    }
+
+    if (request.method === 'POST' && request.url === '/sign') {
+      const { publicKey, message } = await readJson(request)
+      const key = keys.find(k => k.publicKey === publicKey)
+      if (!key) return reply(response, 400, { error: `Unknown key ${publicKey}` })
+      if (typeof message !== 'string') return reply(response, 400, { error: 'message must be base64' })
+
+      const signature = sign(null, Buffer.from(message, 'base64'), key.privateKey)
+      console.log('Signed message:', { publicKey })
+      return reply(response, 200, { signature: bs58.encode(signature) })
+    }
+
+    reply(response, 404, { error: 'Not found' })
+  } catch (error) {
+    reply(response, 400, { error: error.message || 'Bad request' })
+  }
+})
+
+server.listen(port, '127.0.0.1', () => {
+  console.log(`Remote signer listening on http://127.0.0.1:${server.address().port} with ${keys.length} key(s)`)
+})
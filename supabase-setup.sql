@@ -26,27 +26,768 @@ CREATE TABLE IF NOT EXISTS game_history (
   timestamp TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Link every history row to the on-chain bet it records
+ALTER TABLE game_history ADD COLUMN IF NOT EXISTS payout DECIMAL(20, 8);
+ALTER TABLE game_history ADD COLUMN IF NOT EXISTS deposit_signature VARCHAR(88);
+ALTER TABLE game_history ADD COLUMN IF NOT EXISTS payout_signature VARCHAR(88);
+-- Length of the player's win streak including this bet (0 for losses)
+ALTER TABLE game_history ADD COLUMN IF NOT EXISTS win_streak INTEGER;
+-- Currency of the bet: 'SOL' or the symbol of a configured SPL token
+ALTER TABLE game_history ADD COLUMN IF NOT EXISTS asset VARCHAR(16) NOT NULL DEFAULT 'SOL';
+
 -- Create index for faster queries
+CREATE UNIQUE INDEX IF NOT EXISTS idx_game_history_deposit_signature ON game_history(deposit_signature);
 CREATE INDEX IF NOT EXISTS idx_game_history_timestamp ON game_history(timestamp DESC);
 CREATE INDEX IF NOT EXISTS idx_game_history_result ON game_history(result);
+CREATE INDEX IF NOT EXISTS idx_game_history_player_wallet ON game_history(player_wallet, timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_game_history_player_asset ON game_history(player_wallet, asset, timestamp DESC);
+
+-- Table 3: Plays (ledger of deposit signatures - each can only be settled once)
+-- status: verifying, rejected, rolled, settled, payout_pending, payout_sent, payout_confirmed, payout_failed,
+--         refund_pending, refunded, refund_failed, refund_skipped (refused deposit below the refund's network fee)
+CREATE TABLE IF NOT EXISTS plays (
+  id BIGSERIAL PRIMARY KEY,
+  signature VARCHAR(88) NOT NULL UNIQUE,
+  player_wallet VARCHAR(44) NOT NULL,
+  amount DECIMAL(20, 8) NOT NULL,
+  asset VARCHAR(16) NOT NULL DEFAULT 'SOL',
+  result VARCHAR(4) CHECK (result IN ('win', 'loss')),
+  payout_amount DECIMAL(20, 8),
+  payout_signature VARCHAR(88),
+  status VARCHAR(20) NOT NULL DEFAULT 'verifying',
+  error TEXT,
+  seed_id BIGINT,
+  server_seed_hash VARCHAR(64),
+  client_seed VARCHAR(64),
+  nonce BIGINT,
+  tier VARCHAR(16),
+  win_chance DECIMAL(10, 8),
+  multiplier DECIMAL(10, 4),
+  escrow_bet VARCHAR(44),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_plays_player_wallet ON plays(player_wallet);
+CREATE INDEX IF NOT EXISTS idx_plays_status ON plays(status);
+CREATE INDEX IF NOT EXISTS idx_plays_created_at ON plays(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_plays_status_updated_at ON plays(status, updated_at);
+-- An escrow bet account backs at most one play, so the same stake can never be rolled twice.
+-- Rejected plays release it: anyone can name someone else's bet account in a claim that fails verification.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_plays_escrow_bet ON plays(escrow_bet) WHERE escrow_bet IS NOT NULL AND status <> 'rejected';
+
+-- Table 4: Payouts (durable queue - every win or refund gets one row until it is confirmed on-chain)
+-- kind: win, refund (deposit that broke the bet limits), loss (escrow bets only - moves the stake to the house)
+-- escrow_bet: bet account settled by the escrow program instead of a transfer from the bank wallet
+-- status: pending, sent, confirmed, failed (failed = attempts exhausted, needs an operator)
+CREATE TABLE IF NOT EXISTS payouts (
+  id BIGSERIAL PRIMARY KEY,
+  play_signature VARCHAR(88) NOT NULL UNIQUE,
+  player_wallet VARCHAR(44) NOT NULL,
+  amount DECIMAL(20, 8) NOT NULL,
+  asset VARCHAR(16) NOT NULL DEFAULT 'SOL',
+  kind VARCHAR(10) NOT NULL DEFAULT 'win' CHECK (kind IN ('win', 'refund', 'loss')),
+  escrow_bet VARCHAR(44),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  signature VARCHAR(88),
+  last_valid_block_height BIGINT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  locked_until TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  confirmed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Sent transaction (base64), rebroadcast until it lands, and the durable nonce it uses (PAYOUT_NONCE_ACCOUNTS)
+ALTER TABLE payouts ADD COLUMN IF NOT EXISTS signed_transaction TEXT;
+ALTER TABLE payouts ADD COLUMN IF NOT EXISTS nonce_account VARCHAR(44);
+ALTER TABLE payouts ADD COLUMN IF NOT EXISTS nonce VARCHAR(44);
+
+CREATE INDEX IF NOT EXISTS idx_payouts_due ON payouts(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_payouts_player_wallet ON payouts(player_wallet);
+
+-- Table 5: Fairness Seeds (provably fair commit/reveal, one active seed per wallet)
+-- server_seed stays secret until revealed_at is set; only its hash is published
+CREATE TABLE IF NOT EXISTS fairness_seeds (
+  id BIGSERIAL PRIMARY KEY,
+  player_wallet VARCHAR(44) NOT NULL,
+  server_seed VARCHAR(64) NOT NULL,
+  server_seed_hash VARCHAR(64) NOT NULL,
+  nonce BIGINT NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  revealed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fairness_seeds_active
+  ON fairness_seeds(player_wallet) WHERE revealed_at IS NULL;
+
+-- Atomically hand out the next nonce of an unrevealed seed (NULL if it was rotated)
+CREATE OR REPLACE FUNCTION next_fairness_nonce(p_seed_id BIGINT)
+RETURNS BIGINT AS $$
+  UPDATE fairness_seeds
+  SET nonce = nonce + 1
+  WHERE id = p_seed_id AND revealed_at IS NULL
+  RETURNING nonce - 1;
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION next_fairness_nonce(BIGINT) FROM PUBLIC, anon, authenticated;
+
+-- Table 6: App Settings (operator switches, e.g. betting pause)
+CREATE TABLE IF NOT EXISTS app_settings (
+  key VARCHAR(64) PRIMARY KEY,
+  value JSONB NOT NULL DEFAULT '{}',
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Table 7: Player Daily Totals (per wallet, asset and UTC day, kept up to date by record_game for leaderboards)
+CREATE TABLE IF NOT EXISTS player_daily_totals (
+  player_wallet VARCHAR(44) NOT NULL,
+  asset VARCHAR(16) NOT NULL DEFAULT 'SOL',
+  day DATE NOT NULL,
+  bets BIGINT NOT NULL DEFAULT 0,
+  wagered DECIMAL(20, 8) NOT NULL DEFAULT 0,
+  payout DECIMAL(20, 8) NOT NULL DEFAULT 0,
+  wins BIGINT NOT NULL DEFAULT 0,
+  losses BIGINT NOT NULL DEFAULT 0,
+  best_win_streak INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (player_wallet, asset, day)
+);
+
+CREATE INDEX IF NOT EXISTS idx_player_daily_totals_day ON player_daily_totals(asset, day);
+
+-- Table 8: Asset Stats (running totals per bet currency; global_stats.total_wagered only counts SOL)
+CREATE TABLE IF NOT EXISTS asset_stats (
+  asset VARCHAR(16) PRIMARY KEY,
+  total_bets BIGINT NOT NULL DEFAULT 0,
+  total_wagered DECIMAL(20, 8) NOT NULL DEFAULT 0,
+  total_payout DECIMAL(20, 8) NOT NULL DEFAULT 0,
+  wins BIGINT NOT NULL DEFAULT 0,
+  losses BIGINT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Table 9: Sign-In Nonces (single-use Sign-In With Solana challenges with the exact message to sign)
+CREATE TABLE IF NOT EXISTS sign_in_nonces (
+  nonce VARCHAR(64) PRIMARY KEY,
+  player_wallet VARCHAR(44) NOT NULL,
+  message TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_sign_in_nonces_expires_at ON sign_in_nonces(expires_at);
+
+-- Table 10: Rate Limits (fixed-window request counters, used with RATE_LIMIT_STORE=database)
+CREATE TABLE IF NOT EXISTS rate_limits (
+  key VARCHAR(128) PRIMARY KEY,
+  count INTEGER NOT NULL DEFAULT 0,
+  reset_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Atomically count a hit in the key's current window, starting a new window once the old one ended
+CREATE OR REPLACE FUNCTION rate_limit_hit(p_key VARCHAR, p_window_ms INTEGER)
+RETURNS TABLE (hits INTEGER, resets_at TIMESTAMPTZ) AS $$
+  INSERT INTO rate_limits AS r (key, count, reset_at)
+  VALUES (p_key, 1, NOW() + p_window_ms * INTERVAL '1 millisecond')
+  ON CONFLICT (key) DO UPDATE SET
+    count = CASE WHEN r.reset_at <= NOW() THEN 1 ELSE r.count + 1 END,
+    reset_at = CASE WHEN r.reset_at <= NOW() THEN EXCLUDED.reset_at ELSE r.reset_at END
+  RETURNING r.count, r.reset_at;
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION rate_limit_hit(VARCHAR, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Table 11: Demo Accounts (play-money balances in demo mode, per wallet or anonymous session)
+-- Anonymous accounts are "anon:" + a hash of the session cookie (lib/demo.ts): demo_history is public,
+-- and the cookie itself opens the session
+CREATE TABLE IF NOT EXISTS demo_accounts (
+  account_id VARCHAR(44) PRIMARY KEY,
+  balance DECIMAL(20, 8) NOT NULL CHECK (balance >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Table 12: Demo History (demo bets, kept apart from game_history so real stats never include play money)
+CREATE TABLE IF NOT EXISTS demo_history (
+  id BIGSERIAL PRIMARY KEY,
+  bet_id VARCHAR(64) NOT NULL UNIQUE,
+  account_id VARCHAR(44) NOT NULL,
+  result VARCHAR(4) NOT NULL CHECK (result IN ('win', 'loss')),
+  amount DECIMAL(20, 8) NOT NULL,
+  payout DECIMAL(20, 8) NOT NULL,
+  tier VARCHAR(16),
+  win_chance DECIMAL(10, 8),
+  roll DOUBLE PRECISION,
+  server_seed_hash VARCHAR(64),
+  client_seed VARCHAR(64),
+  nonce BIGINT,
+  timestamp TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_demo_history_timestamp ON demo_history(timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_demo_history_account_id ON demo_history(account_id, timestamp DESC);
+
+-- Table 13: Demo Stats (single row, the demo counterpart of global_stats)
+CREATE TABLE IF NOT EXISTS demo_stats (
+  id INTEGER PRIMARY KEY DEFAULT 1,
+  total_bets BIGINT NOT NULL DEFAULT 0,
+  total_wagered DECIMAL(20, 8) NOT NULL DEFAULT 0,
+  wins BIGINT NOT NULL DEFAULT 0,
+  losses BIGINT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT demo_stats_single_row CHECK (id = 1)
+);
+
+INSERT INTO demo_stats (id) VALUES (1) ON CONFLICT (id) DO NOTHING;
+
+-- Table 14: Treasury Events (hot wallet sweeps to the cold address and top-up requests, see lib/treasury.ts)
+CREATE TABLE IF NOT EXISTS treasury_events (
+  id BIGSERIAL PRIMARY KEY,
+  kind VARCHAR(10) NOT NULL CHECK (kind IN ('sweep', 'top_up')),
+  -- sweep: sent -> confirmed | failed; top_up: open -> resolved
+  status VARCHAR(10) NOT NULL CHECK (status IN ('sent', 'confirmed', 'failed', 'open', 'resolved')),
+  amount DECIMAL(20, 8) NOT NULL,
+  hot_balance DECIMAL(20, 8) NOT NULL,
+  from_address VARCHAR(44),
+  to_address VARCHAR(44),
+  signature VARCHAR(88),
+  last_valid_block_height BIGINT,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_treasury_events_created_at ON treasury_events(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_treasury_events_status ON treasury_events(kind, status);
+-- At most one sweep in flight and one open top-up request: a sweep is inserted as 'sent' before it is
+-- signed, so concurrent treasury runs cannot both sweep
+CREATE UNIQUE INDEX IF NOT EXISTS idx_treasury_events_in_flight ON treasury_events(kind) WHERE status IN ('sent', 'open');
+
+-- These functions gained an asset parameter; drop the old versions so calls are not ambiguous
+DROP FUNCTION IF EXISTS record_game(VARCHAR, DECIMAL, DECIMAL, VARCHAR, VARCHAR, VARCHAR);
+DROP FUNCTION IF EXISTS leaderboard(VARCHAR, DATE, INTEGER);
+DROP FUNCTION IF EXISTS stats_timeseries(VARCHAR, TIMESTAMPTZ, TIMESTAMPTZ);
+DROP FUNCTION IF EXISTS player_stats(VARCHAR);
+
+-- Record a settled bet and increment global_stats in a single transaction.
+-- Returns the new totals; recorded = false if the deposit was already recorded.
+-- global_stats counts bets in every asset but only adds SOL to total_wagered.
+CREATE OR REPLACE FUNCTION record_game(
+  p_result VARCHAR,
+  p_amount DECIMAL,
+  p_payout DECIMAL,
+  p_player_wallet VARCHAR,
+  p_deposit_signature VARCHAR,
+  p_payout_signature VARCHAR DEFAULT NULL,
+  p_asset VARCHAR DEFAULT 'SOL'
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_recorded BOOLEAN;
+  v_win_streak INTEGER := 0;
+  v_stats global_stats%ROWTYPE;
+BEGIN
+  -- A win extends the streak of the player's previous bet in the same asset
+  IF p_result = 'win' THEN
+    SELECT CASE WHEN result = 'win' THEN COALESCE(win_streak, 1) ELSE 0 END INTO v_win_streak
+    FROM game_history
+    WHERE player_wallet = p_player_wallet AND asset = p_asset
+    ORDER BY timestamp DESC, id DESC
+    LIMIT 1;
+    v_win_streak := COALESCE(v_win_streak, 0) + 1;
+  END IF;
+
+  INSERT INTO game_history (result, amount, payout, player_wallet, deposit_signature, payout_signature, win_streak, asset)
+  VALUES (p_result, p_amount, p_payout, p_player_wallet, p_deposit_signature, p_payout_signature, v_win_streak, p_asset)
+  ON CONFLICT (deposit_signature) DO NOTHING;
+  v_recorded := FOUND;
+
+  IF v_recorded AND p_player_wallet IS NOT NULL THEN
+    INSERT INTO player_daily_totals (player_wallet, asset, day, bets, wagered, payout, wins, losses, best_win_streak)
+    VALUES (
+      p_player_wallet,
+      p_asset,
+      (NOW() AT TIME ZONE 'UTC')::DATE,
+      1,
+      p_amount,
+      p_payout,
+      CASE WHEN p_result = 'win' THEN 1 ELSE 0 END,
+      CASE WHEN p_result = 'loss' THEN 1 ELSE 0 END,
+      v_win_streak
+    )
+    ON CONFLICT (player_wallet, asset, day) DO UPDATE SET
+      bets = player_daily_totals.bets + 1,
+      wagered = player_daily_totals.wagered + EXCLUDED.wagered,
+      payout = player_daily_totals.payout + EXCLUDED.payout,
+      wins = player_daily_totals.wins + EXCLUDED.wins,
+      losses = player_daily_totals.losses + EXCLUDED.losses,
+      best_win_streak = GREATEST(player_daily_totals.best_win_streak, EXCLUDED.best_win_streak);
+  END IF;
+
+  IF v_recorded THEN
+    INSERT INTO asset_stats (asset, total_bets, total_wagered, total_payout, wins, losses)
+    VALUES (
+      p_asset,
+      1,
+      p_amount,
+      p_payout,
+      CASE WHEN p_result = 'win' THEN 1 ELSE 0 END,
+      CASE WHEN p_result = 'loss' THEN 1 ELSE 0 END
+    )
+    ON CONFLICT (asset) DO UPDATE SET
+      total_bets = asset_stats.total_bets + 1,
+      total_wagered = asset_stats.total_wagered + EXCLUDED.total_wagered,
+      total_payout = asset_stats.total_payout + EXCLUDED.total_payout,
+      wins = asset_stats.wins + EXCLUDED.wins,
+      losses = asset_stats.losses + EXCLUDED.losses,
+      updated_at = NOW();
+
+    UPDATE global_stats SET
+      total_bets = total_bets + 1,
+      total_wagered = total_wagered + CASE WHEN p_asset = 'SOL' THEN p_amount ELSE 0 END,
+      wins = wins + CASE WHEN p_result = 'win' THEN 1 ELSE 0 END,
+      losses = losses + CASE WHEN p_result = 'loss' THEN 1 ELSE 0 END,
+      updated_at = NOW()
+    WHERE id = 1;
+  END IF;
+
+  SELECT * INTO v_stats FROM global_stats WHERE id = 1;
+
+  RETURN jsonb_build_object(
+    'recorded', v_recorded,
+    'total_bets', v_stats.total_bets,
+    'total_wagered', v_stats.total_wagered,
+    'wins', v_stats.wins,
+    'losses', v_stats.losses
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Recompute global_stats and asset_stats from game_history (run when they drift apart)
+CREATE OR REPLACE FUNCTION rebuild_global_stats()
+RETURNS JSONB AS $$
+DECLARE
+  v_stats global_stats%ROWTYPE;
+BEGIN
+  -- Block new history rows until the totals are rewritten
+  LOCK TABLE game_history IN SHARE MODE;
+
+  UPDATE global_stats SET
+    total_bets = h.total_bets,
+    total_wagered = h.total_wagered,
+    wins = h.wins,
+    losses = h.losses,
+    updated_at = NOW()
+  FROM (
+    SELECT
+      COUNT(*) AS total_bets,
+      COALESCE(SUM(amount) FILTER (WHERE asset = 'SOL'), 0) AS total_wagered,
+      COUNT(*) FILTER (WHERE result = 'win') AS wins,
+      COUNT(*) FILTER (WHERE result = 'loss') AS losses
+    FROM game_history
+  ) h
+  WHERE global_stats.id = 1
+  RETURNING global_stats.* INTO v_stats;
+
+  DELETE FROM asset_stats;
+
+  INSERT INTO asset_stats (asset, total_bets, total_wagered, total_payout, wins, losses)
+  SELECT
+    asset,
+    COUNT(*),
+    SUM(amount),
+    SUM(COALESCE(payout, CASE WHEN result = 'win' THEN amount * 2 ELSE 0 END)),
+    COUNT(*) FILTER (WHERE result = 'win'),
+    COUNT(*) FILTER (WHERE result = 'loss')
+  FROM game_history
+  GROUP BY asset;
+
+  RETURN jsonb_build_object(
+    'total_bets', v_stats.total_bets,
+    'total_wagered', v_stats.total_wagered,
+    'wins', v_stats.wins,
+    'losses', v_stats.losses
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Recompute game_history.win_streak and player_daily_totals from game_history
+-- (backfills rows recorded before leaderboards existed). Returns the number of player-days.
+CREATE OR REPLACE FUNCTION rebuild_player_daily_totals()
+RETURNS BIGINT AS $$
+DECLARE
+  v_rows BIGINT;
+BEGIN
+  LOCK TABLE game_history IN SHARE MODE;
+
+  UPDATE game_history g SET win_streak = s.win_streak
+  FROM (
+    SELECT
+      id,
+      CASE WHEN result = 'win'
+        THEN ROW_NUMBER() OVER (PARTITION BY player_wallet, asset, result, streak_id ORDER BY timestamp, id)
+        ELSE 0
+      END AS win_streak
+    FROM (
+      SELECT
+        id,
+        player_wallet,
+        asset,
+        result,
+        timestamp,
+        ROW_NUMBER() OVER (PARTITION BY player_wallet, asset ORDER BY timestamp, id)
+          - ROW_NUMBER() OVER (PARTITION BY player_wallet, asset, result ORDER BY timestamp, id) AS streak_id
+      FROM game_history
+      WHERE player_wallet IS NOT NULL
+    ) runs
+  ) s
+  WHERE g.id = s.id AND g.win_streak IS DISTINCT FROM s.win_streak;
+
+  DELETE FROM player_daily_totals;
+
+  INSERT INTO player_daily_totals (player_wallet, asset, day, bets, wagered, payout, wins, losses, best_win_streak)
+  SELECT
+    player_wallet,
+    asset,
+    (timestamp AT TIME ZONE 'UTC')::DATE,
+    COUNT(*),
+    SUM(amount),
+    SUM(COALESCE(payout, CASE WHEN result = 'win' THEN amount * 2 ELSE 0 END)),
+    COUNT(*) FILTER (WHERE result = 'win'),
+    COUNT(*) FILTER (WHERE result = 'loss'),
+    COALESCE(MAX(win_streak), 0)
+  FROM game_history
+  WHERE player_wallet IS NOT NULL
+  GROUP BY player_wallet, asset, (timestamp AT TIME ZONE 'UTC')::DATE;
+
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  RETURN v_rows;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Rank wallets by 'profit', 'volume' or 'streak' in one asset over days >= p_since (all time when NULL)
+CREATE OR REPLACE FUNCTION leaderboard(
+  p_metric VARCHAR,
+  p_since DATE DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_asset VARCHAR DEFAULT 'SOL'
+)
+RETURNS TABLE (
+  player_wallet VARCHAR,
+  bets BIGINT,
+  wagered DECIMAL,
+  net_profit DECIMAL,
+  wins BIGINT,
+  losses BIGINT,
+  best_win_streak INTEGER
+) AS $$
+  SELECT
+    t.player_wallet,
+    SUM(t.bets)::BIGINT,
+    SUM(t.wagered),
+    SUM(t.payout - t.wagered),
+    SUM(t.wins)::BIGINT,
+    SUM(t.losses)::BIGINT,
+    MAX(t.best_win_streak)
+  FROM player_daily_totals t
+  WHERE t.asset = p_asset AND (p_since IS NULL OR t.day >= p_since)
+  GROUP BY t.player_wallet
+  ORDER BY
+    CASE p_metric
+      WHEN 'volume' THEN SUM(t.wagered)
+      WHEN 'streak' THEN MAX(t.best_win_streak)
+      ELSE SUM(t.payout - t.wagered)
+    END DESC,
+    SUM(t.wagered) DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+-- Hourly or daily aggregates of one asset's bets in [p_since, p_until), bucketed in UTC.
+-- p_bucket is 'hour' or 'day'; buckets without bets are returned as zeros.
+CREATE OR REPLACE FUNCTION stats_timeseries(
+  p_bucket VARCHAR,
+  p_since TIMESTAMPTZ,
+  p_until TIMESTAMPTZ,
+  p_asset VARCHAR DEFAULT 'SOL'
+)
+RETURNS TABLE (
+  bucket_start TIMESTAMPTZ,
+  bets BIGINT,
+  volume DECIMAL,
+  payouts DECIMAL,
+  house_net DECIMAL,
+  wins BIGINT,
+  players BIGINT
+) AS $$
+  WITH buckets AS (
+    SELECT generate_series(
+      date_trunc(p_bucket, p_since AT TIME ZONE 'UTC'),
+      date_trunc(p_bucket, p_until AT TIME ZONE 'UTC'),
+      ('1 ' || p_bucket)::INTERVAL
+    ) AS bucket
+  ),
+  totals AS (
+    SELECT
+      date_trunc(p_bucket, g.timestamp AT TIME ZONE 'UTC') AS bucket,
+      COUNT(*) AS bets,
+      SUM(g.amount) AS volume,
+      SUM(COALESCE(g.payout, CASE WHEN g.result = 'win' THEN g.amount * 2 ELSE 0 END)) AS payouts,
+      COUNT(*) FILTER (WHERE g.result = 'win') AS wins,
+      COUNT(DISTINCT g.player_wallet) AS players
+    FROM game_history g
+    WHERE g.timestamp >= p_since AND g.timestamp < p_until AND g.asset = p_asset
+    GROUP BY 1
+  )
+  SELECT
+    b.bucket AT TIME ZONE 'UTC',
+    COALESCE(t.bets, 0),
+    COALESCE(t.volume, 0),
+    COALESCE(t.payouts, 0),
+    COALESCE(t.volume, 0) - COALESCE(t.payouts, 0),
+    COALESCE(t.wins, 0),
+    COALESCE(t.players, 0)
+  FROM buckets b
+  LEFT JOIN totals t ON t.bucket = b.bucket
+  ORDER BY b.bucket;
+$$ LANGUAGE sql STABLE;
+
+-- Lifetime totals and streaks for one wallet's bets in one asset, computed from game_history.
+-- Rows recorded before the payout column existed count a win as 2x the bet.
+CREATE OR REPLACE FUNCTION player_stats(p_player_wallet VARCHAR, p_asset VARCHAR DEFAULT 'SOL')
+RETURNS JSONB AS $$
+  WITH bets AS (
+    SELECT
+      result,
+      amount,
+      COALESCE(payout, CASE WHEN result = 'win' THEN amount * 2 ELSE 0 END) AS payout,
+      timestamp,
+      id
+    FROM game_history
+    WHERE player_wallet = p_player_wallet AND asset = p_asset
+  ),
+  -- Consecutive bets with the same result share a streak id (gaps and islands)
+  runs AS (
+    SELECT
+      result,
+      ROW_NUMBER() OVER (ORDER BY timestamp, id)
+        - ROW_NUMBER() OVER (PARTITION BY result ORDER BY timestamp, id) AS streak_id
+    FROM bets
+  ),
+  streaks AS (
+    SELECT result, COUNT(*) AS length
+    FROM runs
+    GROUP BY result, streak_id
+  )
+  SELECT jsonb_build_object(
+    'total_bets', COUNT(*),
+    'total_wagered', COALESCE(SUM(amount), 0),
+    'total_payout', COALESCE(SUM(payout), 0),
+    'net_profit', COALESCE(SUM(payout - amount), 0),
+    'wins', COUNT(*) FILTER (WHERE result = 'win'),
+    'losses', COUNT(*) FILTER (WHERE result = 'loss'),
+    'biggest_win', COALESCE(MAX(payout - amount) FILTER (WHERE result = 'win'), 0),
+    'longest_win_streak', (SELECT COALESCE(MAX(length), 0) FROM streaks WHERE result = 'win'),
+    'longest_loss_streak', (SELECT COALESCE(MAX(length), 0) FROM streaks WHERE result = 'loss'),
+    'first_bet_at', MIN(timestamp),
+    'last_bet_at', MAX(timestamp)
+  )
+  FROM bets;
+$$ LANGUAGE sql STABLE;
+
+-- Settle a demo bet in one transaction: debit the stake and credit the payout
+-- on the account, add the history row and bump demo_stats. Returns
+-- recorded = false (and the balance) if the account can not cover the stake.
+CREATE OR REPLACE FUNCTION record_demo_game(
+  p_account_id VARCHAR,
+  p_bet_id VARCHAR,
+  p_result VARCHAR,
+  p_amount DECIMAL,
+  p_payout DECIMAL,
+  p_tier VARCHAR,
+  p_win_chance DECIMAL,
+  p_roll DOUBLE PRECISION,
+  p_server_seed_hash VARCHAR,
+  p_client_seed VARCHAR,
+  p_nonce BIGINT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_balance DECIMAL;
+  v_stats demo_stats%ROWTYPE;
+BEGIN
+  SELECT balance INTO v_balance FROM demo_accounts WHERE account_id = p_account_id FOR UPDATE;
+
+  IF v_balance IS NULL OR v_balance < p_amount THEN
+    RETURN jsonb_build_object('recorded', false, 'balance', COALESCE(v_balance, 0));
+  END IF;
+
+  UPDATE demo_accounts
+  SET balance = balance - p_amount + p_payout, updated_at = NOW()
+  WHERE account_id = p_account_id
+  RETURNING balance INTO v_balance;
+
+  INSERT INTO demo_history (
+    bet_id, account_id, result, amount, payout, tier, win_chance, roll, server_seed_hash, client_seed, nonce
+  )
+  VALUES (
+    p_bet_id, p_account_id, p_result, p_amount, p_payout, p_tier, p_win_chance, p_roll, p_server_seed_hash, p_client_seed, p_nonce
+  );
+
+  UPDATE demo_stats SET
+    total_bets = total_bets + 1,
+    total_wagered = total_wagered + p_amount,
+    wins = wins + CASE WHEN p_result = 'win' THEN 1 ELSE 0 END,
+    losses = losses + CASE WHEN p_result = 'loss' THEN 1 ELSE 0 END,
+    updated_at = NOW()
+  WHERE id = 1
+  RETURNING * INTO v_stats;
+
+  RETURN jsonb_build_object(
+    'recorded', true,
+    'balance', v_balance,
+    'total_bets', v_stats.total_bets,
+    'total_wagered', v_stats.total_wagered,
+    'wins', v_stats.wins,
+    'losses', v_stats.losses
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- House results over a rolling window for the risk engine (lib/risk.ts): rolled bets only, so
+-- rejected and refunded deposits never count. exposure is the most the house could lose on them.
+CREATE OR REPLACE FUNCTION risk_window(p_since TIMESTAMPTZ, p_asset VARCHAR DEFAULT 'SOL')
+RETURNS TABLE (
+  bets BIGINT,
+  wagered DECIMAL,
+  paid_out DECIMAL,
+  exposure DECIMAL
+) AS $$
+  SELECT
+    COUNT(*),
+    COALESCE(SUM(p.amount), 0),
+    COALESCE(SUM(CASE WHEN p.result = 'win' THEN p.payout_amount ELSE 0 END), 0),
+    COALESCE(SUM(p.amount * (COALESCE(p.multiplier, 2) - 1)), 0)
+  FROM plays p
+  WHERE p.created_at >= p_since
+    AND p.asset = p_asset
+    AND p.result IS NOT NULL
+    AND p.status NOT IN ('rejected', 'refund_pending', 'refunded', 'refund_failed', 'refund_skipped');
+$$ LANGUAGE sql STABLE;
+
+-- Plays decided at least p_before ago that should have a payouts row but do not (wins, escrow
+-- bets and pending refunds), oldest first, for the payout worker (lib/payouts.ts)
+CREATE OR REPLACE FUNCTION orphaned_plays(p_before TIMESTAMPTZ, p_limit INTEGER DEFAULT 50)
+RETURNS SETOF plays AS $$
+  SELECT p.*
+  FROM plays p
+  WHERE p.updated_at < p_before
+    AND (
+      (p.status = 'rolled' AND (p.result = 'win' OR p.escrow_bet IS NOT NULL))
+      OR (p.status = 'refund_pending' AND p.payout_signature IS NULL)
+    )
+    AND NOT EXISTS (SELECT 1 FROM payouts q WHERE q.play_signature = p.signature)
+  ORDER BY p.updated_at
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+REVOKE EXECUTE ON FUNCTION record_game(VARCHAR, DECIMAL, DECIMAL, VARCHAR, VARCHAR, VARCHAR, VARCHAR) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_demo_game(VARCHAR, VARCHAR, VARCHAR, DECIMAL, DECIMAL, VARCHAR, DECIMAL, DOUBLE PRECISION, VARCHAR, VARCHAR, BIGINT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION rebuild_global_stats() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION player_stats(VARCHAR, VARCHAR) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION rebuild_player_daily_totals() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION leaderboard(VARCHAR, DATE, INTEGER, VARCHAR) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION stats_timeseries(VARCHAR, TIMESTAMPTZ, TIMESTAMPTZ, VARCHAR) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION risk_window(TIMESTAMPTZ, VARCHAR) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION orphaned_plays(TIMESTAMPTZ, INTEGER) FROM PUBLIC, anon, authenticated;
 
 -- Enable Row Level Security (RLS) - Allow public read, but only server can write
 ALTER TABLE global_stats ENABLE ROW LEVEL SECURITY;
 ALTER TABLE game_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE plays ENABLE ROW LEVEL SECURITY;
+ALTER TABLE fairness_seeds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payouts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE app_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE player_daily_totals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE asset_stats ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sign_in_nonces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rate_limits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE demo_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE demo_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE demo_stats ENABLE ROW LEVEL SECURITY;
+ALTER TABLE treasury_events ENABLE ROW LEVEL SECURITY;
 
 -- Policy: Anyone can read global_stats
+DROP POLICY IF EXISTS "Allow public read access to global_stats" ON global_stats;
 CREATE POLICY "Allow public read access to global_stats"
   ON global_stats FOR SELECT
   USING (true);
 
--- Policy: Anyone can read game_history
-CREATE POLICY "Allow public read access to game_history"
+-- Policy: Anyone can read the last day of game_history (the live feed). A wallet's full history is
+-- private to its owner and only served by /api/players/<wallet> to a signed-in session.
+DROP POLICY IF EXISTS "Allow public read access to game_history" ON game_history;
+DROP POLICY IF EXISTS "Allow public read access to recent game_history" ON game_history;
+CREATE POLICY "Allow public read access to recent game_history"
   ON game_history FOR SELECT
+  USING (timestamp > NOW() - INTERVAL '24 hours');
+
+-- Policy: Anyone can read asset_stats
+DROP POLICY IF EXISTS "Allow public read access to asset_stats" ON asset_stats;
+CREATE POLICY "Allow public read access to asset_stats"
+  ON asset_stats FOR SELECT
+  USING (true);
+
+-- Policy: Anyone can read the demo feed and totals (play money only)
+DROP POLICY IF EXISTS "Allow public read access to demo_history" ON demo_history;
+CREATE POLICY "Allow public read access to demo_history"
+  ON demo_history FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Allow public read access to demo_stats" ON demo_stats;
+CREATE POLICY "Allow public read access to demo_stats"
+  ON demo_stats FOR SELECT
   USING (true);
 
--- Policy: Only authenticated requests can insert (we'll use service role key in API)
--- For now, allow inserts from API (service role key bypasses RLS)
--- Note: In production, you should use service role key in server-side code only
+-- No public policies on plays, payouts, fairness_seeds, app_settings, player_daily_totals, sign_in_nonces, rate_limits, demo_accounts or treasury_events: only the server (service role key)
+-- reads and writes them. fairness_seeds holds unrevealed server seeds and must stay private.
+
+-- No insert/update policies: stats are only written by /api/play using the service role key
+
+-- Realtime: push new game_history rows and global_stats changes to the game.
+-- Realtime respects the read policies above.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'game_history'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE game_history;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'global_stats'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE global_stats;
+  END IF;
+
+  -- The demo feed, used by the game in demo mode
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'demo_history'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE demo_history;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'demo_stats'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE demo_stats;
+  END IF;
+END $$;
 
 -- Optional: Create a view for recent games
 CREATE OR REPLACE VIEW recent_games AS